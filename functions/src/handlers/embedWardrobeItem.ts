@@ -0,0 +1,67 @@
+import { PrismaClient } from "@prisma/client";
+import { buildSearchDoc, buildKeywords, Item } from "../utils/wardrobe";
+import { getEmbedding } from "../utils/openai";
+
+export type EmbedWardrobeItemPayload = {
+  userId: string;
+  itemId: string;
+};
+
+export type EmbedWardrobeItemResult = {
+  message: string;
+};
+
+/**
+ * Rebuilds the search document, keywords and embedding of a wardrobe item after it was
+ * added or edited through the wardrobe API, so `searchWardrobe` matches its current attributes.
+ */
+export const embedWardrobeItemHandler = async (
+  prisma: PrismaClient,
+  payload: EmbedWardrobeItemPayload,
+): Promise<EmbedWardrobeItemResult> => {
+  const { userId, itemId } = payload;
+  console.info({ message: "Starting wardrobe item embedding", payload });
+
+  const item = await prisma.wardrobeItem.findFirst({
+    where: { id: itemId, userId },
+  });
+
+  if (!item) {
+    console.warn({ message: "Wardrobe item no longer exists", payload });
+    return { message: "Wardrobe item not found" };
+  }
+
+  const searchable: Item = {
+    name: item.name,
+    description: item.description,
+    category: item.category,
+    type: item.type,
+    subtype: item.subtype,
+    mainColor: item.mainColor,
+    secondaryColor: item.secondaryColor,
+    attributes: (item.attributes ?? {}) as Item["attributes"],
+  };
+  const searchDoc = buildSearchDoc(searchable);
+  const keywords = buildKeywords(searchable);
+  const { embedding, model, dimensions } = await getEmbedding(searchDoc);
+
+  await prisma.wardrobeItem.update({
+    where: { id: item.id },
+    data: {
+      searchDoc,
+      keywords,
+      embeddingModel: model,
+      embeddingDim: dimensions,
+      embeddingAt: new Date(),
+    },
+  });
+  await prisma.$executeRaw`UPDATE "WardrobeItem" SET embedding = ${embedding}::vector WHERE id = ${item.id}`;
+
+  const result: EmbedWardrobeItemResult = { message: `Embedded wardrobe item ${item.id}` };
+  console.info({
+    message: "Wardrobe item embedding finished",
+    details: result.message,
+    payload,
+  });
+  return result;
+};
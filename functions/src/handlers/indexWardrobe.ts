@@ -80,6 +80,7 @@ export const indexWardrobeHandler = async (
           mainColor: item.mainColor,
           secondaryColor: item.secondaryColor,
           attributes: item.attributes,
+          imageUrl: media.serverUrl,
           keywords,
           searchDoc,
           embeddingModel: model,
@@ -2,14 +2,30 @@ import { PrismaClient, Message, Prisma } from "@prisma/client";
 import fs from "fs";
 import path from "path";
 import { getEmbedding, generateJson, isTextContentPart } from "../utils/openai";
+import {
+  DISTANCE_OPERATORS,
+  distanceToSimilarity,
+  getDistanceMetric,
+} from "../utils/vectorSearch";
 
 const MEMORY_EXTRACTION_PROMPT = fs.readFileSync(
   path.join(__dirname, "..", "..", "memories_prompt.txt"),
   "utf-8",
 );
+const MEMORY_RESOLUTION_PROMPT = fs.readFileSync(
+  path.join(__dirname, "..", "..", "memory_resolution_prompt.txt"),
+  "utf-8",
+);
 const MEMORY_EXTRACTION_MODEL =
   process.env.OPENAI_MEMORY_EXTRACTION_MODEL || "gpt-5-mini";
 
+// Existing memories at least this similar (0-1, under VECTOR_DISTANCE_METRIC) to a new one are
+// checked for duplicates and contradictions before it is saved
+const MEMORY_RESOLUTION_MIN_SIMILARITY = Number(
+  process.env.MEMORY_RESOLUTION_MIN_SIMILARITY || 0.5,
+);
+const MEMORY_RESOLUTION_CANDIDATES = 5;
+
 export type StoreMemoriesPayload = {
   userId: string;
   conversationId: string;
@@ -20,6 +36,16 @@ export type StoreMemoriesResult = {
 };
 
 type Memory = { memory: string };
+type SimilarMemory = { id: string; memory: string; similarity: number };
+type MemoryResolution = {
+  action: "duplicate" | "replace" | "new";
+  replaceIds?: string[];
+};
+type SaveMemoriesResult = {
+  saved: number;
+  duplicates: number;
+  replaced: number;
+};
 type MessageContent = Pick<Message, "role" | "content">;
 
 const formatMessageContent = (content: Prisma.JsonValue[]): string => {
@@ -61,18 +87,116 @@ const extractMemories = async (
   );
 };
 
+/**
+ * Returns the user's stored memories closest to `embedding`, compared with the configured
+ * distance metric so the query uses the same index as the app. Iterative index scans keep the
+ * per-user filter from starving the HNSW index (see `nearestNeighbors` in the app).
+ */
+const findSimilarMemories = async (
+  prisma: PrismaClient,
+  userId: string,
+  embedding: number[],
+): Promise<SimilarMemory[]> => {
+  const metric = getDistanceMetric();
+  const distance = Prisma.sql`embedding ${Prisma.raw(DISTANCE_OPERATORS[metric])} ${embedding}::vector`;
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRaw`SET LOCAL hnsw.iterative_scan = strict_order`,
+    prisma.$queryRaw<{ id: string; memory: string; distance: number }[]>`
+      SELECT id, memory, (${distance})::float8 AS distance
+      FROM "Memory"
+      WHERE "userId" = ${userId} AND embedding IS NOT NULL
+      ORDER BY ${distance}
+      LIMIT ${MEMORY_RESOLUTION_CANDIDATES}
+    `,
+  ]);
+
+  return rows
+    .map(({ id, memory, distance }) => ({
+      id,
+      memory,
+      similarity: distanceToSimilarity(distance, metric),
+    }))
+    .filter((row) => row.similarity >= MEMORY_RESOLUTION_MIN_SIMILARITY);
+};
+
+/**
+ * Asks the model whether a new memory repeats, contradicts or adds to similar existing ones.
+ */
+const resolveMemory = async (
+  memory: Memory,
+  candidates: SimilarMemory[],
+): Promise<MemoryResolution> => {
+  const result = await generateJson<MemoryResolution>(MEMORY_EXTRACTION_MODEL, [
+    {
+      role: "system",
+      content: [{ type: "input_text", text: MEMORY_RESOLUTION_PROMPT }],
+    },
+    {
+      role: "user",
+      content: [
+        {
+          type: "input_text",
+          text: JSON.stringify({
+            newMemory: memory.memory,
+            existingMemories: candidates.map(({ id, memory }) => ({
+              id,
+              memory,
+            })),
+          }),
+        },
+      ],
+    },
+  ]);
+
+  const candidateIds = new Set(candidates.map((c) => c.id));
+  return {
+    action: result.action,
+    replaceIds: (result.replaceIds ?? []).filter((id) => candidateIds.has(id)),
+  };
+};
+
+/**
+ * Saves memories one at a time, so later memories in the batch are checked against earlier
+ * ones. Duplicates of an existing memory are skipped and contradicted memories are deleted in
+ * favour of the newer statement.
+ */
 const saveMemories = async (
   prisma: PrismaClient,
   userId: string,
   memories: Memory[],
-) => {
-  await Promise.all(
-    memories.map(async (memory) => {
-      const { embedding, model, dimensions } = await getEmbedding(
-        memory.memory,
-      );
-
-      const createdMemory = await prisma.memory.create({
+): Promise<SaveMemoriesResult> => {
+  const result: SaveMemoriesResult = { saved: 0, duplicates: 0, replaced: 0 };
+
+  for (const memory of memories) {
+    const { embedding, model, dimensions } = await getEmbedding(memory.memory);
+
+    const candidates = await findSimilarMemories(prisma, userId, embedding);
+    const resolution: MemoryResolution =
+      candidates.length > 0
+        ? await resolveMemory(memory, candidates)
+        : { action: "new" };
+
+    if (resolution.action === "duplicate") {
+      console.debug({
+        message: "Skipping duplicate memory",
+        memory: memory.memory,
+        userId,
+      });
+      result.duplicates++;
+      continue;
+    }
+
+    const replaceIds =
+      resolution.action === "replace" ? (resolution.replaceIds ?? []) : [];
+
+    await prisma.$transaction(async (tx) => {
+      if (replaceIds.length > 0) {
+        await tx.memory.deleteMany({
+          where: { id: { in: replaceIds }, userId },
+        });
+      }
+
+      const createdMemory = await tx.memory.create({
         data: {
           userId,
           memory: memory.memory,
@@ -82,9 +206,22 @@ const saveMemories = async (
         },
       });
 
-      await prisma.$executeRaw`UPDATE "Memory" SET embedding = ${embedding}::vector WHERE id = ${createdMemory.id}`;
-    }),
-  );
+      await tx.$executeRaw`UPDATE "Memory" SET embedding = ${embedding}::vector WHERE id = ${createdMemory.id}`;
+    });
+
+    if (replaceIds.length > 0) {
+      console.debug({
+        message: "Replaced contradicted memories",
+        memory: memory.memory,
+        replaceIds,
+        userId,
+      });
+    }
+    result.saved++;
+    result.replaced += replaceIds.length;
+  }
+
+  return result;
 };
 
 const markProcessed = async (prisma: PrismaClient, messageIds: string[]) => {
@@ -122,6 +259,7 @@ export const storeMemoriesHandler = async (
     payload,
   });
   const memories = await extractMemories(messages);
+  let saved: SaveMemoriesResult = { saved: 0, duplicates: 0, replaced: 0 };
 
   if (memories.length > 0) {
     console.debug({
@@ -129,7 +267,7 @@ export const storeMemoriesHandler = async (
       count: memories.length,
       payload,
     });
-    await saveMemories(prisma, userId, memories);
+    saved = await saveMemories(prisma, userId, memories);
   } else {
     console.debug({ message: "No memories extracted", payload });
   }
@@ -140,7 +278,7 @@ export const storeMemoriesHandler = async (
   );
 
   const result: StoreMemoriesResult = {
-    message: `Processed ${messages.length} messages, extracted ${memories.length} memories`,
+    message: `Processed ${messages.length} messages, extracted ${memories.length} memories (${saved.saved} saved, ${saved.duplicates} duplicates, ${saved.replaced} replaced)`,
   };
   console.info({
     message: "Memory storage finished",
@@ -0,0 +1,197 @@
+import { PrismaClient } from "@prisma/client";
+
+export type TaskHandler<T = unknown> = (
+  prisma: PrismaClient,
+  payload: T,
+) => Promise<unknown>;
+
+export type TaskOutcome = {
+  status: number;
+  body: unknown;
+  /** Set when the task should be delivered again at this time, e.g. after a failed attempt */
+  retryAt?: Date;
+};
+
+const MAX_ATTEMPTS = Number(process.env.TASK_MAX_ATTEMPTS || 5);
+const RETRY_BASE_DELAY_MS = Number(
+  process.env.TASK_RETRY_BASE_DELAY_MS || 30_000,
+);
+const RETRY_MAX_DELAY_MS = Number(
+  process.env.TASK_RETRY_MAX_DELAY_MS || 60 * 60 * 1000,
+);
+/**
+ * An IN_PROGRESS task whose attempt started longer ago than this is assumed lost (e.g. the
+ * worker crashed mid-attempt), and the next delivery claims it again. Keep it above the
+ * Cloud Functions timeout so a slow attempt is never run twice. Shared with the Redis worker
+ * and the admin task console (`src/services/taskService.ts`).
+ */
+export const STALE_AFTER_MS = Number(
+  process.env.TASK_STALE_AFTER_MS || 30 * 60 * 1000,
+);
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m, ... capped at an hour by default.
+ */
+const getRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * Runs a queued task through its `Task` row lifecycle: QUEUED → IN_PROGRESS →
+ * COMPLETED/FAILED. Shared by the Cloud Functions (Cloud Tasks backend) and the Redis
+ * worker, so a task behaves the same whichever backend delivered it. The returned status
+ * mirrors the HTTP response Cloud Tasks expects.
+ *
+ * A failed attempt leaves the task FAILED with `lastError` and a `runAt` backed off
+ * exponentially, and answers 500 so it is delivered again. Deliveries that arrive before
+ * `runAt` answer 425 without using up an attempt, so retries never come sooner than the
+ * backoff whatever the queue's own retry config. Once `TASK_MAX_ATTEMPTS` attempts failed,
+ * the task moves to DEAD_LETTER and answers 200 so delivery stops; it can then be inspected
+ * and re-enqueued from the admin task console. Cloud Tasks queues must therefore retry
+ * without a limit of their own (see the README), or tasks would stop short of DEAD_LETTER.
+ *
+ * Tasks are claimed with a conditional update, so concurrent deliveries of one task run it
+ * once. An attempt that never finished is reclaimed once it is older than
+ * `TASK_STALE_AFTER_MS` and counts as failed.
+ */
+export const runTask = async <T>(
+  prisma: PrismaClient,
+  taskId: string,
+  handler: TaskHandler<T>,
+): Promise<TaskOutcome> => {
+  let attempts = 0;
+
+  try {
+    const task = await prisma.task.findUnique({ where: { taskId } });
+    if (!task) {
+      console.error({ message: "Task not found", taskId });
+      return { status: 404, body: { message: "Task not found" } };
+    }
+
+    if (task.status === "COMPLETED") {
+      console.warn({ message: "Task already completed", taskId });
+      return { status: 200, body: { message: "Task already completed" } };
+    }
+
+    const stale =
+      task.status === "IN_PROGRESS" &&
+      task.updatedAt.getTime() < Date.now() - STALE_AFTER_MS;
+
+    if (task.status === "IN_PROGRESS" && !stale) {
+      console.warn({ message: "Task already in progress", taskId });
+      return { status: 409, body: { message: "Task already in progress" } };
+    }
+
+    if (!stale && task.status !== "QUEUED" && task.status !== "FAILED") {
+      console.error({
+        message: "Task in invalid state",
+        taskId,
+        status: task.status,
+      });
+      return {
+        status: 400,
+        body: { message: `Task in invalid state: ${task.status}` },
+      };
+    }
+
+    if (task.status === "FAILED" && task.runAt.getTime() > Date.now()) {
+      console.warn({ message: "Task not due yet", taskId, runAt: task.runAt });
+      return {
+        status: 425,
+        body: { message: "Task not due yet" },
+        retryAt: task.runAt,
+      };
+    }
+
+    // Only the delivery whose update still sees the task as read claims it
+    const claimedFrom = {
+      taskId,
+      status: task.status,
+      updatedAt: task.updatedAt,
+    };
+
+    if (stale) {
+      console.warn({
+        message: "Reclaiming stale task",
+        taskId,
+        attempts: task.attempts,
+        startedAt: task.updatedAt,
+      });
+
+      if (task.attempts >= MAX_ATTEMPTS) {
+        await prisma.task.updateMany({
+          where: claimedFrom,
+          data: {
+            status: "DEAD_LETTER",
+            lastError: `Attempt ${task.attempts} did not finish`,
+          },
+        });
+        return { status: 200, body: { message: "Task moved to dead letter" } };
+      }
+    }
+
+    const { count } = await prisma.task.updateMany({
+      where: claimedFrom,
+      data: { status: "IN_PROGRESS", attempts: task.attempts + 1 },
+    });
+    if (count === 0) {
+      console.warn({ message: "Task claimed by another delivery", taskId });
+      return { status: 409, body: { message: "Task already in progress" } };
+    }
+    attempts = task.attempts + 1;
+
+    const result = await handler(prisma, task.payload as T);
+
+    await prisma.task.update({
+      where: { taskId },
+      data: { status: "COMPLETED" },
+    });
+
+    return { status: 200, body: result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const lastError = errorMessage.slice(0, MAX_ERROR_LENGTH);
+
+    if (attempts === 0) {
+      // Failed before the task was claimed (e.g. the database is unreachable)
+      console.error({ message: "Task failed", taskId, error: errorMessage });
+      return { status: 500, body: { message: "Task failed" } };
+    }
+
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error({
+        message: "Task moved to dead letter",
+        taskId,
+        attempts,
+        error: errorMessage,
+      });
+
+      await prisma.task
+        .update({
+          where: { taskId },
+          data: { status: "DEAD_LETTER", lastError },
+        })
+        .catch(() => {});
+
+      return { status: 200, body: { message: "Task moved to dead letter" } };
+    }
+
+    const retryAt = new Date(Date.now() + getRetryDelayMs(attempts));
+    console.error({
+      message: "Task failed",
+      taskId,
+      attempts,
+      retryAt,
+      error: errorMessage,
+    });
+
+    await prisma.task
+      .update({
+        where: { taskId },
+        data: { status: "FAILED", lastError, runAt: retryAt },
+      })
+      .catch(() => {});
+
+    return { status: 500, body: { message: "Task failed" }, retryAt };
+  }
+};
@@ -0,0 +1,82 @@
+import { TaskType } from "@prisma/client";
+import { TaskHandler } from "./lifecycle";
+import {
+  imageUploadHandler,
+  ImageUploadPayload,
+} from "./handlers/imageUpload";
+import {
+  storeMemoriesHandler,
+  StoreMemoriesPayload,
+} from "./handlers/storeMemories";
+import {
+  indexWardrobeHandler,
+  IndexWardrobePayload,
+} from "./handlers/indexWardrobe";
+import {
+  embedWardrobeItemHandler,
+  EmbedWardrobeItemPayload,
+} from "./handlers/embedWardrobeItem";
+import {
+  sendFeedbackRequestHandler,
+  SendFeedbackRequestPayload,
+} from "./handlers/sendFeedbackRequest";
+
+const validatePayload = <T extends Record<string, string>>(
+  payload: unknown,
+  keys: (keyof T)[],
+): T => {
+  if (!payload || typeof payload !== "object") {
+    throw new Error("Invalid payload");
+  }
+
+  const obj = payload as Record<string, unknown>;
+  for (const key of keys) {
+    if (typeof obj[key as string] !== "string") {
+      throw new Error(`Missing or invalid ${String(key)}`);
+    }
+  }
+
+  return payload as T;
+};
+
+/**
+ * The handler for each task type, with its payload validated. Used by both the Cloud
+ * Functions and the Redis worker.
+ */
+export const taskHandlers: Record<TaskType, TaskHandler> = {
+  UPLOAD_IMAGES: async (prisma, payload) => {
+    const validated = validatePayload<ImageUploadPayload>(payload, [
+      "userId",
+      "messageId",
+    ]);
+    return imageUploadHandler(prisma, validated);
+  },
+  PROCESS_MEMORIES: async (prisma, payload) => {
+    const validated = validatePayload<StoreMemoriesPayload>(payload, [
+      "userId",
+      "conversationId",
+    ]);
+    return storeMemoriesHandler(prisma, validated);
+  },
+  SCHEDULE_WARDROBE_INDEX: async (prisma, payload) => {
+    const validated = validatePayload<IndexWardrobePayload>(payload, [
+      "userId",
+      "messageId",
+    ]);
+    return indexWardrobeHandler(prisma, validated);
+  },
+  EMBED_WARDROBE_ITEM: async (prisma, payload) => {
+    const validated = validatePayload<EmbedWardrobeItemPayload>(payload, [
+      "userId",
+      "itemId",
+    ]);
+    return embedWardrobeItemHandler(prisma, validated);
+  },
+  SEND_FEEDBACK_REQUEST: async (prisma, payload) => {
+    const validated = validatePayload<SendFeedbackRequestPayload>(payload, [
+      "userId",
+      "conversationId",
+    ]);
+    return sendFeedbackRequestHandler(prisma, validated);
+  },
+};
@@ -0,0 +1,39 @@
+// Shared with src/lib/ai/local/embeddings.ts. Keep them in sync: vectors stored by the
+// functions must match the query vectors the agent computes.
+export const LOCAL_EMBEDDING_MODEL = "local-hashing-1536";
+export const LOCAL_EMBEDDING_DIM = 1536;
+
+/**
+ * Embeds a text offline by feature hashing: words and the character trigrams of each word are
+ * hashed into a fixed-size, L2-normalized vector.
+ */
+export function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_EMBEDDING_DIM).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    const features = [`w:${word}`];
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`c:${padded.slice(i, i + 3)}`);
+    }
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const index = hash % LOCAL_EMBEDDING_DIM;
+      vector[index] = (vector[index] ?? 0) + (hash & 0x80000000 ? -1 : 1);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/** 32-bit FNV-1a hash of a string's UTF-16 code units. */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,5 +1,7 @@
 import OpenAI from "openai";
 
+import { embedLocally, LOCAL_EMBEDDING_MODEL } from "./localEmbeddings";
+
 let openAIClient: OpenAI | null = null;
 
 const getOpenAIClient = (): OpenAI => {
@@ -36,7 +38,20 @@ export const isTextContentPart = (part: unknown): part is TextContentPart =>
   "text" in part &&
   typeof (part as any).text === "string";
 
+/**
+ * Embeds a document with the provider selected by `EMBEDDINGS_PROVIDER` (`openai` or `local`),
+ * matching `getEmbeddings()` in the app so stored and query vectors are comparable.
+ */
 export async function getEmbedding(input: string): Promise<EmbeddingResult> {
+  if (process.env.EMBEDDINGS_PROVIDER === "local") {
+    const embedding = embedLocally(input);
+    return {
+      embedding,
+      model: LOCAL_EMBEDDING_MODEL,
+      dimensions: embedding.length,
+    };
+  }
+
   const response = await getOpenAIClient().embeddings.create({
     model: EMBEDDING_MODEL,
     input,
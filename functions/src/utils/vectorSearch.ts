@@ -0,0 +1,50 @@
+// Shared with src/lib/vectorSearch.ts. Keep them in sync: queries here must use the same
+// distance metric as the app's ANN indexes and nearest-neighbour queries.
+
+export type DistanceMetric = "cosine" | "l2" | "inner_product";
+
+export const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+  cosine: "<=>",
+  l2: "<->",
+  inner_product: "<#>",
+};
+
+/**
+ * Returns the metric selected by `VECTOR_DISTANCE_METRIC`: `cosine` (the default), `l2` or
+ * `inner_product`.
+ */
+export function getDistanceMetric(): DistanceMetric {
+  const metric = process.env.VECTOR_DISTANCE_METRIC ?? "cosine";
+  switch (metric) {
+    case "cosine":
+    case "l2":
+    case "inner_product":
+      return metric;
+    default:
+      console.warn({
+        message: "Unknown VECTOR_DISTANCE_METRIC, falling back to cosine",
+        metric,
+      });
+      return "cosine";
+  }
+}
+
+/**
+ * Converts a distance to a similarity in [0, 1] (for normalized embeddings), higher meaning
+ * closer, so scores read the same whatever the metric.
+ */
+export function distanceToSimilarity(
+  distance: number,
+  metric: DistanceMetric,
+): number {
+  switch (metric) {
+    case "cosine":
+      return Math.max(0, 1 - distance);
+    case "l2":
+      // Normalized vectors are at most 2 apart
+      return Math.max(0, 1 - distance / 2);
+    case "inner_product":
+      // pgvector returns the negative inner product
+      return Math.max(0, -distance);
+  }
+}
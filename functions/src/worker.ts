@@ -0,0 +1,145 @@
+import "dotenv/config";
+import { PrismaClient, TaskType } from "@prisma/client";
+import { createClient } from "redis";
+import { runTask, STALE_AFTER_MS } from "./lifecycle";
+import { taskHandlers } from "./tasks";
+
+/**
+ * Redis task worker: the local counterpart of Cloud Tasks + Cloud Functions. The app
+ * queues tasks here when `TASK_QUEUE_BACKEND=redis` (see `src/lib/taskQueue.ts`); the
+ * worker runs them in-process through the same handlers and `Task` lifecycle, scheduling
+ * failed attempts again at the backed-off time the lifecycle picks. Jobs popped by a worker
+ * that crashed are lost with it, so tasks left IN_PROGRESS past `TASK_STALE_AFTER_MS` are
+ * put back on the ready list for the lifecycle to reclaim.
+ *
+ * Usage: npm run worker
+ */
+
+// Shared with src/lib/taskQueue.ts. Keep them in sync.
+const READY_KEY = "tasks:ready";
+const SCHEDULED_KEY = "tasks:scheduled";
+
+const POLL_INTERVAL_MS = Number(process.env.TASK_WORKER_POLL_MS || 1000);
+const STALE_CHECK_INTERVAL_MS = 60_000;
+
+type Job = {
+  taskId: string;
+  type: TaskType;
+  queue: string;
+};
+
+const prisma = new PrismaClient();
+const redis = createClient({
+  url: process.env.REDIS_URL || "redis://localhost:6379",
+});
+redis.on("error", (err) =>
+  console.error({ message: "Redis client error", error: err.message }),
+);
+
+let running = true;
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Moves scheduled tasks whose run time has passed onto the ready list. `zRem` decides
+ * which worker moves a task when several workers share the queue.
+ */
+const promoteDueTasks = async (): Promise<void> => {
+  const due = await redis.zRangeByScore(SCHEDULED_KEY, 0, Date.now());
+  for (const job of due) {
+    if ((await redis.zRem(SCHEDULED_KEY, job)) > 0) {
+      await redis.lPush(READY_KEY, job);
+    }
+  }
+};
+
+/**
+ * Re-queues tasks whose attempt outlived `TASK_STALE_AFTER_MS`. A task that is queued twice
+ * still runs once, since the lifecycle's claim only succeeds for one delivery.
+ */
+const recoverStaleTasks = async (): Promise<void> => {
+  const stale = await prisma.task.findMany({
+    where: {
+      status: "IN_PROGRESS",
+      updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
+    },
+    select: { taskId: true, type: true },
+    take: 100,
+  });
+  for (const { taskId, type } of stale) {
+    console.warn({ message: "Re-queueing stale task", taskId, type });
+    const job: Job = { taskId, type, queue: "recovered" };
+    await redis.lPush(READY_KEY, JSON.stringify(job));
+  }
+};
+
+const processJob = async (raw: string): Promise<void> => {
+  let job: Job;
+  try {
+    job = JSON.parse(raw) as Job;
+  } catch {
+    console.error({ message: "Dropping malformed job", job: raw });
+    return;
+  }
+
+  const handler = taskHandlers[job.type];
+  if (!handler) {
+    console.error({ message: "No handler for task type", ...job });
+    return;
+  }
+
+  console.info({ message: "Received task request", ...job });
+  const { status, retryAt } = await runTask(prisma, job.taskId, handler);
+  console.info({ message: "Task finished", ...job, status });
+
+  if (retryAt) {
+    await redis.zAdd(SCHEDULED_KEY, { score: retryAt.getTime(), value: raw });
+  }
+};
+
+const main = async () => {
+  await redis.connect();
+  console.info({ message: "Task worker started", pollIntervalMs: POLL_INTERVAL_MS });
+
+  let lastStaleCheck = 0;
+  while (running) {
+    try {
+      if (Date.now() - lastStaleCheck >= STALE_CHECK_INTERVAL_MS) {
+        lastStaleCheck = Date.now();
+        await recoverStaleTasks();
+      }
+      await promoteDueTasks();
+      const raw = await redis.rPop(READY_KEY);
+      if (raw) {
+        await processJob(raw);
+        continue;
+      }
+    } catch (error) {
+      console.error({
+        message: "Task worker error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  await redis.quit();
+  await prisma.$disconnect();
+  console.info({ message: "Task worker stopped" });
+};
+
+const stop = () => {
+  console.info({ message: "Stopping task worker after the current task" });
+  running = false;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+main().catch((error) => {
+  console.error({
+    message: "Task worker crashed",
+    error: error instanceof Error ? error.message : String(error),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+// Generated by scripts/generateReplySchema.ts from src/lib/chat/replies.ts. Do not edit.
+
+/** A single reply, rendered according to its reply_type */
+export type Reply = TextReply | QuickReply | ListPickerReply | ImageReply | ColorAnalysisImageUploadRequest | VibeCheckImageUploadRequest | ProductCardReply | PdfReply | ColorAnalysisCardReply | VibeCheckCardReply | VibeCheckComparisonCardReply;
+
+/** Plain text message */
+export interface TextReply {
+  reply_type: "text";
+  reply_text: string;
+}
+
+/** Text with quick reply buttons */
+export interface QuickReply {
+  reply_type: "quick_reply";
+  reply_text: string;
+  buttons: QuickReplyButton[];
+}
+
+/** A tappable button */
+export interface QuickReplyButton {
+  /** Display text for the button */
+  text: string;
+  /** Identifier sent back as the button payload when tapped */
+  id: string;
+}
+
+/** Text with a list of options to pick from */
+export interface ListPickerReply {
+  reply_type: "list_picker";
+  reply_text: string;
+  buttons: QuickReplyButton[];
+}
+
+/** Image with an optional caption */
+export interface ImageReply {
+  reply_type: "image";
+  media_url: string;
+  reply_text?: string;
+}
+
+/** Asks the user to upload a photo for color analysis */
+export interface ColorAnalysisImageUploadRequest {
+  reply_type: "color_analysis_image_upload_request";
+  reply_text: string;
+}
+
+/** Asks the user to upload an outfit photo for a vibe check */
+export interface VibeCheckImageUploadRequest {
+  reply_type: "vibe_check_image_upload_request";
+  reply_text: string;
+}
+
+/** Carousel of recommended products */
+export interface ProductCardReply {
+  reply_type: "product_card";
+  products: ProductRecommendation[];
+  reply_text?: string;
+}
+
+/** A recommended product */
+export interface ProductRecommendation {
+  name: string;
+  brand: string;
+  imageUrl: string;
+  productLink: string;
+  /** Why the product was recommended */
+  reason?: string;
+}
+
+/** PDF document with an optional caption */
+export interface PdfReply {
+  reply_type: "pdf";
+  media_url: string;
+  reply_text?: string;
+}
+
+/** Color analysis result card */
+export interface ColorAnalysisCardReply {
+  reply_type: "color_analysis_card";
+  palette_name: SeasonalPalette;
+  description: string;
+  top_colors: ColorWithHex[];
+  two_color_combos: ColorWithHex[][];
+  user_image_url: string | null;
+  color_twin: Celebrity[];
+}
+
+export type SeasonalPalette = "LIGHT_SPRING" | "WARM_SPRING" | "CLEAR_SPRING" | "LIGHT_SUMMER" | "COOL_SUMMER" | "SOFT_SUMMER" | "SOFT_AUTUMN" | "WARM_AUTUMN" | "DEEP_AUTUMN" | "COOL_WINTER" | "CLEAR_WINTER" | "DEEP_WINTER";
+
+export interface ColorWithHex {
+  name: string;
+  hex: string;
+}
+
+export interface Celebrity {
+  name: string;
+  imageUrl: string;
+}
+
+/** Vibe check result card */
+export interface VibeCheckCardReply {
+  reply_type: "vibe_check_card";
+  comment: string;
+  fit_silhouette: ScoringCategory;
+  color_harmony: ScoringCategory;
+  styling_details: ScoringCategory;
+  context_confidence: ScoringCategory;
+  overall_score: number;
+  recommendations: string[];
+  user_image_url: string | null;
+}
+
+/** A vibe check score out of 10 with its explanation */
+export interface ScoringCategory {
+  score: number;
+  explanation: string;
+}
+
+/** Before/after vibe check card comparing a follow-up photo with the earlier check */
+export interface VibeCheckComparisonCardReply {
+  reply_type: "vibe_check_comparison_card";
+  comment: string;
+  overall: ScoreChange;
+  fit_silhouette: DimensionChange;
+  color_harmony: DimensionChange;
+  styling_details: DimensionChange;
+  context_confidence: DimensionChange;
+  recommendations: string[];
+  before_image_url: string | null;
+  after_image_url: string | null;
+}
+
+/** A vibe check score out of 10 before and after the user changed their outfit */
+export interface ScoreChange {
+  before: number;
+  after: number;
+  /** `after` minus `before` */
+  change: number;
+}
+
+/** A vibe check dimension before and after */
+export interface DimensionChange {
+  before: number;
+  after: number;
+  /** `after` minus `before` */
+  change: number;
+  /** Explanation of the `after` score */
+  explanation: string;
+}
+
+/** The replies that make up one agent response, in display order */
+export type Replies = Reply[];
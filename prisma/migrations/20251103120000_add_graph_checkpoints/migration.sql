@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."GraphCheckpoint" (
+    "id" TEXT NOT NULL,
+    "graphRunId" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "node" TEXT NOT NULL,
+    "next" TEXT NOT NULL,
+    "state" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GraphCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GraphCheckpoint_graphRunId_step_key" ON "public"."GraphCheckpoint"("graphRunId", "step");
+
+-- CreateIndex
+CREATE INDEX "GraphCheckpoint_createdAt_idx" ON "public"."GraphCheckpoint"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."GraphCheckpoint" ADD CONSTRAINT "GraphCheckpoint_graphRunId_fkey" FOREIGN KEY ("graphRunId") REFERENCES "public"."GraphRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."NodeRun" ADD COLUMN     "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "errorTrace" TEXT;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."TaskType" ADD VALUE 'EMBED_WARDROBE_ITEM';
+
+-- AlterTable
+ALTER TABLE "public"."WardrobeItem" ADD COLUMN     "imageUrl" TEXT;
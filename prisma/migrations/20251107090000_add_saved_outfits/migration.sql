@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."SavedOutfit" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "occasion" TEXT,
+    "weather" TEXT,
+    "harmonyScore" DOUBLE PRECISION,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SavedOutfit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_SavedOutfitToWardrobeItem" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SavedOutfitToWardrobeItem_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedOutfit_userId_createdAt_idx" ON "public"."SavedOutfit"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "_SavedOutfitToWardrobeItem_B_index" ON "public"."_SavedOutfitToWardrobeItem"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."SavedOutfit" ADD CONSTRAINT "SavedOutfit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SavedOutfitToWardrobeItem" ADD CONSTRAINT "_SavedOutfitToWardrobeItem_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."SavedOutfit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SavedOutfitToWardrobeItem" ADD CONSTRAINT "_SavedOutfitToWardrobeItem_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."WardrobeItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "public"."TaskStatus" ADD VALUE 'DEAD_LETTER';
+
+-- AlterTable
+ALTER TABLE "public"."Task" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_type_status_idx" ON "public"."Task"("type", "status");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."GraphRun" ADD COLUMN     "costUsd" DECIMAL(10,6) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "dailySpendCapUsd" DECIMAL(10,4),
+ADD COLUMN     "monthlySpendCapUsd" DECIMAL(10,4);
+
+-- Backfill run costs from their traces
+UPDATE "public"."GraphRun" AS gr
+SET "costUsd" = totals."costUsd"
+FROM (
+  SELECT nr."graphRunId", SUM(lt."costUsd") AS "costUsd"
+  FROM "public"."LLMTrace" lt
+  JOIN "public"."NodeRun" nr ON nr."id" = lt."nodeRunId"
+  WHERE lt."costUsd" IS NOT NULL
+  GROUP BY nr."graphRunId"
+) AS totals
+WHERE gr."id" = totals."graphRunId";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."LLMTrace" ADD COLUMN     "cacheHit" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,11 @@
+-- AlterTable: ANN indexes need a fixed dimension. Both embedding providers produce 1536.
+ALTER TABLE "public"."Memory" ALTER COLUMN "embedding" TYPE vector(1536);
+ALTER TABLE "public"."WardrobeItem" ALTER COLUMN "embedding" TYPE vector(1536);
+ALTER TABLE "public"."Product" ALTER COLUMN "embedding" TYPE vector(1536);
+
+-- CreateIndex: HNSW for cosine distance (VECTOR_DISTANCE_METRIC=cosine). Prisma cannot
+-- express these, so they live here only; rebuild them for another metric or as IVFFlat
+-- with scripts/createVectorIndexes.ts.
+CREATE INDEX "Memory_embedding_ann_idx" ON "public"."Memory" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX "WardrobeItem_embedding_ann_idx" ON "public"."WardrobeItem" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX "Product_embedding_ann_idx" ON "public"."Product" USING hnsw ("embedding" vector_cosine_ops);
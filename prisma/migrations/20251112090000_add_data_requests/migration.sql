@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."DataRequestType" AS ENUM ('EXPORT', 'DELETION');
+
+-- CreateEnum
+CREATE TYPE "public"."DataRequestStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."DataRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "whatsappIdHash" TEXT NOT NULL,
+    "type" "public"."DataRequestType" NOT NULL,
+    "status" "public"."DataRequestStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "details" JSONB,
+    "error" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DataRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DataRequest_userId_requestedAt_idx" ON "public"."DataRequest"("userId", "requestedAt");
+
+-- CreateIndex
+CREATE INDEX "DataRequest_whatsappIdHash_idx" ON "public"."DataRequest"("whatsappIdHash");
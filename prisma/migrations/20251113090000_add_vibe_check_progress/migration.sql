@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."VibeCheck" ADD COLUMN     "imageUrl" TEXT,
+ADD COLUMN     "recommendationsAdopted" JSONB;
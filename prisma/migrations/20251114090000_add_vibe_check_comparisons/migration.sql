@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "public"."PendingType" ADD VALUE 'VIBE_CHECK_COMPARISON_IMAGE';
+
+-- AlterTable
+ALTER TABLE "public"."VibeCheck" ADD COLUMN     "comparedToId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VibeCheck_comparedToId_idx" ON "public"."VibeCheck"("comparedToId");
+
+-- AddForeignKey
+ALTER TABLE "public"."VibeCheck" ADD CONSTRAINT "VibeCheck_comparedToId_fkey" FOREIGN KEY ("comparedToId") REFERENCES "public"."VibeCheck"("id") ON DELETE SET NULL ON UPDATE CASCADE;
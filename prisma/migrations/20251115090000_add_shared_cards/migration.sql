@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."SharedCardType" AS ENUM ('VIBE_CHECK', 'COLOR_ANALYSIS');
+
+-- CreateTable
+CREATE TABLE "public"."SharedCard" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "type" "public"."SharedCardType" NOT NULL,
+    "vibeCheckId" TEXT,
+    "colorAnalysisId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "image" BYTEA NOT NULL,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SharedCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SharedCard_slug_key" ON "public"."SharedCard"("slug");
+
+-- CreateIndex
+CREATE INDEX "SharedCard_userId_createdAt_idx" ON "public"."SharedCard"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SharedCard_vibeCheckId_idx" ON "public"."SharedCard"("vibeCheckId");
+
+-- CreateIndex
+CREATE INDEX "SharedCard_colorAnalysisId_idx" ON "public"."SharedCard"("colorAnalysisId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SharedCard" ADD CONSTRAINT "SharedCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SharedCard" ADD CONSTRAINT "SharedCard_vibeCheckId_fkey" FOREIGN KEY ("vibeCheckId") REFERENCES "public"."VibeCheck"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SharedCard" ADD CONSTRAINT "SharedCard_colorAnalysisId_fkey" FOREIGN KEY ("colorAnalysisId") REFERENCES "public"."ColorAnalysis"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,99 @@
+/**
+ * Rebuild Vector Indexes
+ *
+ * Rebuilds the ANN indexes on the `embedding` columns of Memory, WardrobeItem and Product for
+ * a distance metric and index type. The migrations create HNSW indexes for cosine distance;
+ * run this after changing VECTOR_DISTANCE_METRIC, since a query only uses an index built with
+ * its metric's operator class.
+ *
+ * HNSW gives better recall and needs no training data. IVFFlat builds faster and uses less
+ * memory, but should be built once the table holds representative data (lists are sized from
+ * the row count) and rebuilt as it grows.
+ *
+ * Usage:
+ *   npx ts-node scripts/createVectorIndexes.ts                      (HNSW, VECTOR_DISTANCE_METRIC)
+ *   npx ts-node scripts/createVectorIndexes.ts --metric=l2
+ *   npx ts-node scripts/createVectorIndexes.ts --type=ivfflat --table=Product
+ */
+
+import 'dotenv/config';
+
+import { prisma } from '../src/lib/prisma';
+import {
+  DISTANCE_OPERATOR_CLASSES,
+  DistanceMetric,
+  getDistanceMetric,
+  VectorTable,
+} from '../src/lib/vectorSearch';
+
+type IndexType = 'hnsw' | 'ivfflat';
+
+const TABLES: VectorTable[] = ['Memory', 'WardrobeItem', 'Product'];
+
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * IVFFlat list count recommended by pgvector: rows / 1000 up to 1M rows, sqrt(rows) above.
+ */
+function getIvfflatLists(rows: number): number {
+  return Math.max(10, rows <= 1_000_000 ? Math.round(rows / 1000) : Math.round(Math.sqrt(rows)));
+}
+
+async function rebuildIndex(table: VectorTable, type: IndexType, metric: DistanceMetric) {
+  const indexName = `${table}_embedding_ann_idx`;
+  let withClause = '';
+  if (type === 'ivfflat') {
+    const [{ count }] = await prisma.$queryRawUnsafe<[{ count: bigint }]>(
+      `SELECT COUNT(*) AS count FROM "public"."${table}" WHERE "embedding" IS NOT NULL`,
+    );
+    withClause = ` WITH (lists = ${getIvfflatLists(Number(count))})`;
+  }
+
+  console.log(`🔧 Rebuilding ${indexName} (${type}, ${metric})...`);
+  await prisma.$executeRawUnsafe(`DROP INDEX IF EXISTS "public"."${indexName}"`);
+  await prisma.$executeRawUnsafe(
+    `CREATE INDEX "${indexName}" ON "public"."${table}" USING ${type} ("embedding" ${DISTANCE_OPERATOR_CLASSES[metric]})${withClause}`,
+  );
+  console.log(`✅ ${indexName} rebuilt`);
+}
+
+async function main() {
+  const type = getArg('type') ?? 'hnsw';
+  if (type !== 'hnsw' && type !== 'ivfflat') {
+    console.error(`❌ Unknown index type "${type}" (expected hnsw or ivfflat)`);
+    process.exit(1);
+  }
+
+  const metricArg = getArg('metric');
+  if (metricArg && !(metricArg in DISTANCE_OPERATOR_CLASSES)) {
+    console.error(`❌ Unknown metric "${metricArg}" (expected cosine, l2 or inner_product)`);
+    process.exit(1);
+  }
+  const metric = (metricArg as DistanceMetric | undefined) ?? getDistanceMetric();
+
+  const tableArg = getArg('table');
+  const tables = tableArg ? TABLES.filter((table) => table === tableArg) : TABLES;
+  if (tables.length === 0) {
+    console.error(`❌ Unknown table "${tableArg}" (expected one of ${TABLES.join(', ')})`);
+    process.exit(1);
+  }
+
+  try {
+    for (const table of tables) {
+      await rebuildIndex(table, type, metric);
+    }
+    console.log(
+      `\n🎉 Done. Set VECTOR_DISTANCE_METRIC=${metric} for queries to use these indexes.`,
+    );
+  } catch (error) {
+    console.error('❌ Failed to rebuild vector indexes:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
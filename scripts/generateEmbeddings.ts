@@ -14,15 +14,15 @@
 
 import 'dotenv/config';
 import { PrismaClient } from '@prisma/client';
-import OpenAI from 'openai';
+import { getEmbeddings } from '../src/lib/ai/config/embeddings';
 
 const prisma = new PrismaClient();
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Provider and model from EMBEDDINGS_PROVIDER / OPENAI_EMBEDDING_MODEL, batched per request
+const embedder = getEmbeddings();
 
 // Configuration
 const BATCH_SIZE = 100; // Products per batch for embedding
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIM = 1536;
+const EMBEDDING_MODEL = embedder.model;
 
 interface ProductData {
   id: string;
@@ -88,17 +88,6 @@ function buildSearchDoc(product: ProductData): string {
   return parts.join('. ');
 }
 
-/**
- * Generates embeddings for a batch of texts.
- */
-async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: texts,
-  });
-  return response.data.map(d => d.embedding);
-}
-
 async function generateEmbeddingsForProducts(forceRegenerate: boolean = false) {
   console.log('🚀 Starting embedding generation for products...\n');
 
@@ -221,7 +210,7 @@ async function generateEmbeddingsForProducts(forceRegenerate: boolean = false) {
     try {
       // Generate embeddings
       console.log(`🧠 Generating embeddings for ${validProducts.length} products...`);
-      const embeddings = await generateEmbeddings(searchDocs);
+      const embeddings = await embedder.embedDocuments(searchDocs);
 
       if (embeddings.length !== validProducts.length || embeddings.length !== searchDocs.length) {
         throw new Error(`Mismatch: ${validProducts.length} products, ${searchDocs.length} docs, ${embeddings.length} embeddings`);
@@ -248,7 +237,7 @@ async function generateEmbeddingsForProducts(forceRegenerate: boolean = false) {
             data: {
               searchDoc: searchDoc,
               embeddingModel: EMBEDDING_MODEL,
-              embeddingDim: EMBEDDING_DIM,
+              embeddingDim: embedding.length,
               embeddingAt: new Date(),
             },
           });
@@ -0,0 +1,133 @@
+/**
+ * Generate the Reply Schema Client Package
+ *
+ * Derives the client-facing reply contract from the zod schema in src/lib/chat/replies.ts
+ * and writes it to packages/reply-schema:
+ * - reply.schema.json  (JSON Schema, draft 2020-12)
+ * - index.d.ts         (TypeScript types generated from the JSON Schema)
+ *
+ * Run it after changing a reply variant and commit the output, so frontends can pick up
+ * the new contract.
+ *
+ * Usage:
+ *   npm run generate:reply-schema
+ *   npx ts-node --transpile-only scripts/generateReplySchema.ts --check  (fail if output is stale)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+import { RepliesSchema } from '../src/lib/chat/replies';
+
+type JsonSchema = {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  description?: string;
+  type?: string;
+  const?: string | number | boolean;
+  enum?: (string | number)[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const PACKAGE_DIR = path.resolve(__dirname, '../packages/reply-schema');
+const HEADER =
+  '// Generated by scripts/generateReplySchema.ts from src/lib/chat/replies.ts. Do not edit.\n';
+
+function docComment(description: string | undefined, indent: string): string {
+  return description ? `${indent}/** ${description} */\n` : '';
+}
+
+function toTypeScript(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) {
+    return schema.$ref.replace('#/$defs/', '');
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return variants.map((variant) => toTypeScript(variant, indent)).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? toTypeScript(schema.items, indent) : 'unknown';
+      return /[ |]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      const inner = `${indent}  `;
+      const fields = Object.entries(schema.properties ?? {}).map(
+        ([key, value]) =>
+          `${docComment(value.description, inner)}${inner}${key}${required.has(key) ? '' : '?'}: ${toTypeScript(value, inner)};\n`,
+      );
+      return `{\n${fields.join('')}${indent}}`;
+    }
+    default:
+      throw new Error(`Unsupported JSON Schema node: ${JSON.stringify(schema)}`);
+  }
+}
+
+function toDeclarations(root: JsonSchema): string {
+  const declarations = Object.entries(root.$defs ?? {}).map(([name, schema]) => {
+    const type = toTypeScript(schema, '');
+    const keyword = schema.type === 'object' ? `interface ${name} ` : `type ${name} = `;
+    return `${docComment(schema.description, '')}export ${keyword}${type}${schema.type === 'object' ? '' : ';'}\n`;
+  });
+  declarations.push(
+    `${docComment(root.description, '')}export type Replies = ${toTypeScript(root, '')};\n`,
+  );
+  return `${HEADER}\n${declarations.join('\n')}`;
+}
+
+function main() {
+  const schema = z.toJSONSchema(RepliesSchema) as JsonSchema;
+  const outputs = {
+    'reply.schema.json': `${JSON.stringify(schema, null, 2)}\n`,
+    'index.d.ts': toDeclarations(schema),
+  };
+
+  if (process.argv.includes('--check')) {
+    const stale = Object.entries(outputs).filter(([file, contents]) => {
+      const target = path.join(PACKAGE_DIR, file);
+      return !existsSync(target) || readFileSync(target, 'utf8') !== contents;
+    });
+    if (stale.length > 0) {
+      throw new Error(
+        `Stale: ${stale.map(([file]) => file).join(', ')}. Run npm run generate:reply-schema`,
+      );
+    }
+    console.log('✅ packages/reply-schema is up to date');
+    return;
+  }
+
+  mkdirSync(PACKAGE_DIR, { recursive: true });
+  for (const [file, contents] of Object.entries(outputs)) {
+    writeFileSync(path.join(PACKAGE_DIR, file), contents);
+    console.log(`✅ Wrote packages/reply-schema/${file}`);
+  }
+}
+
+try {
+  main();
+  process.exit(0);
+} catch (err) {
+  console.error('❌ Failed to generate reply schema:', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -28,15 +28,15 @@ import 'dotenv/config';
 import { PrismaClient, ProductCategory } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
-import OpenAI from 'openai';
+import { getEmbeddings } from '../src/lib/ai/config/embeddings';
 
 const prisma = new PrismaClient();
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Provider and model from EMBEDDINGS_PROVIDER / OPENAI_EMBEDDING_MODEL, batched per request
+const embedder = getEmbeddings();
 
 // Configuration
 const BATCH_SIZE = 100; // Products per batch for embedding
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIM = 1536;
+const EMBEDDING_MODEL = embedder.model;
 
 // ============================================================================
 // CATEGORY MAPPING
@@ -193,22 +193,6 @@ function buildSearchDoc(product: ProductData): string {
   return parts.join('. ');
 }
 
-// ============================================================================
-// EMBEDDING GENERATION
-// ============================================================================
-
-/**
- * Generates embeddings for a batch of texts.
- */
-async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: texts,
-  });
-
-  return response.data.map(d => d.embedding);
-}
-
 // ============================================================================
 // CSV PARSER
 // ============================================================================
@@ -393,7 +377,7 @@ async function importProducts(filePath: string, clearExisting: boolean = false)
 
       // Generate embeddings
       console.log(`🧠 Generating embeddings for ${products.length} products...`);
-      const embeddings = await generateEmbeddings(searchDocs);
+      const embeddings = await embedder.embedDocuments(searchDocs);
 
       // Insert into database
       console.log(`💾 Inserting ${products.length} products into database...`);
@@ -424,7 +408,7 @@ async function importProducts(filePath: string, clearExisting: boolean = false)
               productLink: product.productLink,
               searchDoc,
               embeddingModel: EMBEDDING_MODEL,
-              embeddingDim: EMBEDDING_DIM,
+              embeddingDim: embedding.length,
               embeddingAt: new Date(),
             },
             create: {
@@ -444,7 +428,7 @@ async function importProducts(filePath: string, clearExisting: boolean = false)
               productLink: product.productLink,
               searchDoc,
               embeddingModel: EMBEDDING_MODEL,
-              embeddingDim: EMBEDDING_DIM,
+              embeddingDim: embedding.length,
               embeddingAt: new Date(),
             },
           });
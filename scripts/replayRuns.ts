@@ -0,0 +1,130 @@
+/**
+ * Replay Recorded Runs
+ *
+ * Re-executes recorded agent runs through the current graph and prompts, then diffs the
+ * routing decisions (node path, intents, pending state) and `assistantReply` against the
+ * original run. By default model calls are answered from the run's recorded LLM traces, so
+ * a replay is deterministic and costs nothing; `--live` calls the configured models instead.
+ *
+ * Replays skip message ingestion and stop before `sendReply`, but the nodes in between run
+ * for real (e.g. a replayed vibe check is saved again). Point DATABASE_URL at a development
+ * copy of the data.
+ *
+ * Usage:
+ *   npm run replay -- <runId> [<runId> ...]
+ *   npm run replay -- --latest 20                (the 20 most recent completed runs)
+ *   npm run replay -- --latest 20 --node vibeCheck  (only runs that went through a node)
+ *   npm run replay -- <runId> --live             (call the models instead of the traces)
+ *   npm run replay -- <runId> --live-fallback    (call the models once the traces run out)
+ *   npm run replay -- <runId> --json             (print the full results as JSON)
+ *
+ * Exits with status 1 when any replay differs from its original or fails.
+ */
+
+import 'dotenv/config';
+
+import { ReplayResult, replayRun } from '../src/agent/replay';
+import { prisma } from '../src/lib/prisma';
+import { connectRedis, redis } from '../src/lib/redis';
+
+function getFlagValue(flag: string): string | undefined {
+  const flagIndex = process.argv.indexOf(flag);
+  return flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined;
+}
+
+async function getRunIds(): Promise<string[]> {
+  const valueFlags = ['--latest', '--node'];
+  const runIds = process.argv
+    .slice(2)
+    .filter((arg, i, args) => !arg.startsWith('--') && !valueFlags.includes(args[i - 1] ?? ''));
+  if (runIds.length > 0) {
+    return runIds;
+  }
+
+  const latest = Number(getFlagValue('--latest'));
+  if (!Number.isInteger(latest) || latest <= 0) {
+    throw new Error('Pass run IDs or --latest <count>.');
+  }
+  const node = getFlagValue('--node');
+  const runs = await prisma.graphRun.findMany({
+    where: {
+      status: 'COMPLETED',
+      checkpoints: { some: { node: 'ingestMessage' } },
+      ...(node && { nodeRuns: { some: { nodeName: node } } }),
+    },
+    select: { id: true },
+    orderBy: { startTime: 'desc' },
+    take: latest,
+  });
+  return runs.map((run) => run.id);
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value ?? null, null, 2).replace(/\n/g, '\n      ');
+}
+
+function printResult(result: ReplayResult): void {
+  const calls = `${result.llmCalls.recorded} recorded / ${result.llmCalls.live} live LLM calls`;
+  if (result.error) {
+    console.log(`❌ ${result.runId} failed (${calls}): ${result.error}`);
+    return;
+  }
+  if (result.differences.length === 0) {
+    console.log(`✅ ${result.runId} matches (${calls})`);
+    return;
+  }
+
+  console.log(`⚠️  ${result.runId} differs (${calls})`);
+  for (const { field, original, replayed } of result.differences) {
+    console.log(`   ${field}:`);
+    console.log(`    - ${formatValue(original)}`);
+    console.log(`    + ${formatValue(replayed)}`);
+  }
+}
+
+async function main(): Promise<boolean> {
+  const mode = process.argv.includes('--live') ? 'live' : 'recorded';
+  const liveFallback = process.argv.includes('--live-fallback');
+  const asJson = process.argv.includes('--json');
+
+  await connectRedis();
+  const runIds = await getRunIds();
+  console.log(`🔁 Replaying ${runIds.length} run(s) with ${mode} model responses...`);
+
+  const results: ReplayResult[] = [];
+  let failed = 0;
+  for (const runId of runIds) {
+    try {
+      const result = await replayRun(runId, { mode, liveFallback });
+      results.push(result);
+      if (result.error || result.differences.length > 0) {
+        failed += 1;
+      }
+      if (!asJson) {
+        printResult(result);
+      }
+    } catch (err) {
+      failed += 1;
+      console.error(`❌ ${runId}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(results, null, 2));
+  }
+
+  console.log(`\n📊 ${runIds.length - failed} matched, ${failed} differed or failed`);
+  return failed === 0;
+}
+
+main()
+  .then(async (ok) => {
+    await prisma.$disconnect();
+    await redis.quit();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (err) => {
+    console.error('❌ Replay failed:', err instanceof Error ? err.message : err);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,72 @@
+/**
+ * Agent Scenario Smoke Tests
+ *
+ * Drives `runAgentForHttp` through complete conversations (onboarding, vibe check, color
+ * analysis and fashion charades) with the LLMs replaced by scripted `FakeChatModel`
+ * responses (`LLM_PROVIDER=fake`), and checks the replies, pending states and saved records
+ * of every turn. The graph, prompts loading, database and Redis all run for real, so start
+ * the development stack first (`docker compose up -d db redis`). This is a manual smoke check
+ * for local development: it is not part of `npm test` and CI does not run it.
+ *
+ * Each scenario talks as a fresh `scenario_*` user. Users left by the previous run are
+ * deleted on start, so the last run can still be inspected.
+ *
+ * Usage:
+ *   npm run smoke:scenarios
+ *   npm run smoke:scenarios -- vibe_check      (only scenarios whose name contains the filter)
+ */
+
+import 'dotenv/config';
+
+import { initializeAgent } from '../src/agent';
+import { prisma } from '../src/lib/prisma';
+import { connectRedis, redis } from '../src/lib/redis';
+import { colorAnalysis } from './scenarios/colorAnalysis';
+import { fashionQuiz } from './scenarios/fashionQuiz';
+import { Scenario, SCENARIO_USER_PREFIX, ScenarioChat } from './scenarios/harness';
+import { onboarding } from './scenarios/onboarding';
+import { vibeCheck } from './scenarios/vibeCheck';
+
+const SCENARIOS: Scenario[] = [onboarding, vibeCheck, colorAnalysis, fashionQuiz];
+
+async function main(): Promise<boolean> {
+  process.env.LLM_PROVIDER = 'fake';
+
+  const filter = process.argv[2];
+  const scenarios = SCENARIOS.filter((s) => !filter || s.name.includes(filter));
+
+  await connectRedis();
+  await initializeAgent();
+
+  const { count } = await prisma.user.deleteMany({
+    where: { whatsappId: { startsWith: SCENARIO_USER_PREFIX } },
+  });
+  console.log(`🧹 Removed ${count} user(s) from previous runs`);
+
+  let failed = 0;
+  for (const scenario of scenarios) {
+    const startedAt = Date.now();
+    try {
+      await scenario.run(new ScenarioChat(scenario.name));
+      console.log(`✅ ${scenario.name} (${Date.now() - startedAt}ms)`);
+    } catch (err) {
+      failed += 1;
+      console.error(`❌ ${scenario.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  console.log(`\n📊 ${scenarios.length - failed} passed, ${failed} failed`);
+  return failed === 0;
+}
+
+main()
+  .then(async (ok) => {
+    await prisma.$disconnect();
+    await redis.quit();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (err) => {
+    console.error('❌ Scenario suite failed:', err instanceof Error ? err.message : err);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
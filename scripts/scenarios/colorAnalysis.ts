@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+
+import { prisma } from '../../src/lib/prisma';
+import { findReply, Scenario, TEST_IMAGE } from './harness';
+
+/**
+ * Color analysis from the menu: get asked for a selfie, send one, receive the palette card
+ * and save the result to the profile.
+ */
+export const colorAnalysis: Scenario = {
+  name: 'color_analysis',
+  async run(chat) {
+    const photoRequest = await chat.send(
+      { button: { text: 'Color analysis', payload: 'color_analysis' } },
+      { colorAnalysis: { structured: { reply_text: 'Send me a selfie in natural light.' } } },
+    );
+    assert.equal(photoRequest.pending, 'COLOR_ANALYSIS_IMAGE');
+    findReply(photoRequest, 'color_analysis_image_upload_request');
+
+    const result = await chat.send(
+      { media: [TEST_IMAGE] },
+      {
+        colorAnalysis: {
+          structured: {
+            quality_ok: true,
+            palette_name: 'WARM_AUTUMN',
+            error_message: null,
+            inferred_gender: 'FEMALE',
+          },
+        },
+      },
+    );
+    assert.equal(result.pending, 'SAVE_COLOR_ANALYSIS');
+    assert.equal(findReply(result, 'color_analysis_card').palette_name, 'WARM_AUTUMN');
+
+    const saved = await chat.send({ button: { text: 'Yes', payload: 'save_color_analysis_yes' } });
+    findReply(saved, 'pdf');
+
+    const user = await chat.user();
+    const analysis = await prisma.colorAnalysis.findFirst({ where: { userId: user.id } });
+    assert.equal(analysis?.palette_name, 'WARM_AUTUMN');
+  },
+};
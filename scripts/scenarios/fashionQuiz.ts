@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+
+import { findReply, Scenario } from './harness';
+
+/**
+ * Fashion charades: start a round, ask for a hint, then guess right and get back to the menu.
+ */
+export const fashionQuiz: Scenario = {
+  name: 'fashion_quiz',
+  async run(chat) {
+    const clue = await chat.send(
+      { text: 'quiz' },
+      {
+        handleFashionCharades: {
+          structured: {
+            clue: 'Smooth, shiny and spun by worms.',
+            answer: 'silk',
+            category: 'fabric',
+            difficulty: 'easy',
+          },
+        },
+      },
+    );
+    assert.equal(clue.pending, 'FASHION_QUIZ_START');
+    assert.match(findReply(clue, 'quick_reply').reply_text, /spun by worms/);
+
+    const hint = await chat.send(
+      { button: { text: 'Hint', payload: 'hint' } },
+      { handleFashionCharades: { content: 'It started on the Silk Road.' } },
+    );
+    assert.match(findReply(hint, 'quick_reply').reply_text, /Silk Road[\s\S]*Lives: 2/);
+
+    const guess = await chat.send(
+      { text: 'silk' },
+      {
+        handleFashionCharades: (call) => {
+          assert.match(
+            call.systemPrompt.content.map((p) => ('text' in p ? p.text : '')).join(''),
+            /silk/,
+          );
+          return {
+            structured: {
+              evaluation: 'exact',
+              response: 'Yes! Silk it is 🎉',
+              should_continue: false,
+              hint_provided: false,
+            },
+          };
+        },
+      },
+    );
+    assert.equal(guess.pending, 'NONE');
+    assert.equal(findReply(guess, 'text').reply_text, 'Yes! Silk it is 🎉');
+  },
+};
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+
+import { User } from '@prisma/client';
+
+import { AgentRunResult, runAgentForHttp } from '../../src/agent';
+import { fakeChatScript, FakeScript } from '../../src/lib/ai';
+import { getChannel } from '../../src/lib/channels';
+import { Reply, ReplyType } from '../../src/lib/chat/replies';
+import { ChatRequest } from '../../src/lib/chat/types';
+import { prisma } from '../../src/lib/prisma';
+
+/** Prefix of the WhatsApp IDs scenario users are created with. */
+export const SCENARIO_USER_PREFIX = 'scenario_';
+
+/** A 1x1 PNG, enough for the image-based flows since the vision model is scripted. */
+export const TEST_IMAGE = {
+  url: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  contentType: 'image/png',
+};
+
+export type Scenario = {
+  name: string;
+  run: (chat: ScenarioChat) => Promise<void>;
+};
+
+/**
+ * One user's conversation with the agent. Each message is sent through `runAgentForHttp`
+ * with the fake models scripted for that turn.
+ */
+export class ScenarioChat {
+  readonly whatsappId: string;
+
+  constructor(name: string) {
+    this.whatsappId = `${SCENARIO_USER_PREFIX}${name}_${Date.now()}`;
+  }
+
+  /**
+   * Sends a message and returns the replies. Fails if the turn did not use every response
+   * scripted for it, i.e. the agent took a different path than the scenario expected.
+   * @param message - The chat request without the user ID.
+   * @param script - The fake model responses for this turn, keyed by node.
+   */
+  async send(
+    message: Omit<ChatRequest, 'userId'>,
+    script: FakeScript = {},
+  ): Promise<AgentRunResult> {
+    fakeChatScript.reset().add(script);
+
+    const { messageId, input } = getChannel('http').receive({
+      ...message,
+      userId: this.whatsappId,
+      profileName: 'Scenario',
+    });
+    const result = await runAgentForHttp(this.whatsappId, messageId, input);
+
+    assert.deepEqual(fakeChatScript.pending(), [], 'Scripted responses were left unused');
+    return result;
+  }
+
+  async user(): Promise<User> {
+    return prisma.user.findUniqueOrThrow({ where: { whatsappId: this.whatsappId } });
+  }
+}
+
+/**
+ * Returns the reply of the given type, failing if the turn did not produce one.
+ */
+export function findReply<TType extends ReplyType>(
+  result: AgentRunResult,
+  type: TType,
+): Extract<Reply, { reply_type: TType }> {
+  const reply = result.replies.find((r) => r.reply_type === type);
+  assert.ok(reply, `Expected a ${type} reply, got: ${result.replies.map((r) => r.reply_type)}`);
+  return reply as Extract<Reply, { reply_type: TType }>;
+}
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+
+import { findReply, Scenario } from './harness';
+
+/**
+ * A new user is asked for their gender before anything else, answers with a button, and
+ * lands on the main menu with the answer saved to their profile.
+ */
+export const onboarding: Scenario = {
+  name: 'onboarding',
+  async run(chat) {
+    const first = await chat.send(
+      { text: 'Can you help me pick an outfit?' },
+      { routeIntent: { structured: { intent: 'general', missingProfileField: 'gender' } } },
+    );
+    assert.equal(first.pending, 'ASK_USER_INFO');
+    const question = findReply(first, 'quick_reply');
+    assert.ok(question.buttons.some((b) => b.id === 'gender_FEMALE'));
+
+    const second = await chat.send(
+      { button: { text: 'Female', payload: 'gender_FEMALE' } },
+      { routeGeneral: { structured: { generalIntent: 'menu' } } },
+    );
+    const menu = findReply(second, 'list_picker');
+    assert.ok(menu.buttons.some((b) => b.id === 'vibe_check'));
+
+    const user = await chat.user();
+    assert.equal(user.confirmedGender, 'FEMALE');
+  },
+};
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+
+import { prisma } from '../../src/lib/prisma';
+import { findReply, Scenario, TEST_IMAGE } from './harness';
+
+const score = (value: number) => ({ score: value, explanation: 'Scripted explanation' });
+
+/**
+ * Vibe check from the menu: pick a tonality, get asked for a photo, send one and receive
+ * the scored card, which is saved to the user's history. Then "Compare new look" scores a
+ * follow-up photo against it and returns the before/after card.
+ */
+export const vibeCheck: Scenario = {
+  name: 'vibe_check',
+  async run(chat) {
+    const tonality = await chat.send({ button: { text: 'Vibe check', payload: 'vibe_check' } });
+    assert.equal(tonality.pending, 'TONALITY_SELECTION');
+    assert.ok(findReply(tonality, 'quick_reply').buttons.some((b) => b.id === 'savage'));
+
+    const photoRequest = await chat.send(
+      { button: { text: 'Savage', payload: 'savage' } },
+      { vibeCheck: { structured: { reply_text: 'Send me a full-length photo of your outfit.' } } },
+    );
+    assert.equal(photoRequest.pending, 'VIBE_CHECK_IMAGE');
+    findReply(photoRequest, 'vibe_check_image_upload_request');
+
+    const result = await chat.send(
+      { media: [TEST_IMAGE] },
+      {
+        vibeCheck: {
+          structured: {
+            comment: 'Bold, but it works.',
+            fit_silhouette: score(8),
+            color_harmony: score(7),
+            styling_details: score(6.5),
+            context_confidence: score(8),
+            overall_score: 7.4,
+            recommendations: ['Swap the sneakers for loafers'],
+            prompt: 'Vibe check my outfit',
+            follow_up: 'Want me to suggest shoes?',
+            previous_recommendations: null,
+          },
+        },
+      },
+    );
+    const card = findReply(result, 'vibe_check_card');
+    assert.equal(card.overall_score, 7.4);
+
+    const user = await chat.user();
+    const saved = await prisma.vibeCheck.findFirst({ where: { userId: user.id } });
+    assert.equal(saved?.tonality, 'savage');
+    assert.ok(user.lastVibeCheckAt);
+
+    const comparePhotoRequest = await chat.send(
+      { button: { text: 'Compare new look', payload: 'vibe_check_compare' } },
+      { vibeCheck: { structured: { reply_text: 'Show me the new look!' } } },
+    );
+    assert.equal(comparePhotoRequest.pending, 'VIBE_CHECK_COMPARISON_IMAGE');
+
+    const comparison = await chat.send(
+      { media: [TEST_IMAGE] },
+      {
+        vibeCheck: {
+          structured: {
+            comment: 'The loafers changed everything.',
+            fit_silhouette: score(8),
+            color_harmony: score(7.5),
+            styling_details: score(8),
+            context_confidence: score(8),
+            overall_score: 8.1,
+            recommendations: ['Add a watch'],
+            prompt: 'Compare my new look',
+            follow_up: 'Want to try a bolder color next?',
+            previous_recommendations: [
+              { recommendation: 'Swap the sneakers for loafers', adopted: true, note: 'Loafers' },
+            ],
+          },
+        },
+      },
+    );
+    const comparisonCard = findReply(comparison, 'vibe_check_comparison_card');
+    assert.deepEqual(comparisonCard.overall, { before: 7.4, after: 8.1, change: 0.7 });
+    assert.equal(comparisonCard.styling_details.change, 1.5);
+
+    const followUp = await prisma.vibeCheck.findFirst({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+    assert.equal(followUp?.comparedToId, saved?.id);
+    assert.equal(followUp?.tonality, 'savage');
+  },
+};
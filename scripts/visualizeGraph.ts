@@ -0,0 +1,56 @@
+/**
+ * Visualize the Agent Graph
+ *
+ * Builds the agent's state graph (which also runs the compile-time validation) and writes
+ * the diagram generated from it:
+ * - langgraph.mmd  (Mermaid flowchart)
+ * - langgraph.dot  (Graphviz DOT)
+ * - langgraph.png  (rendered from the DOT file when Graphviz `dot` is installed)
+ *
+ * Usage:
+ *   npm run graph
+ *   npx ts-node --transpile-only scripts/visualizeGraph.ts --out docs  (write to another directory)
+ */
+
+import { spawnSync } from 'child_process';
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import path from 'path';
+
+import { buildAgentGraph } from '../src/agent/graph';
+
+function getOutputDir(): string {
+  const flagIndex = process.argv.indexOf('--out');
+  const dir = flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined;
+  return path.resolve(process.cwd(), dir ?? '.');
+}
+
+function main() {
+  console.log('🧭 Building agent graph...');
+  const graph = buildAgentGraph();
+  const outDir = getOutputDir();
+
+  const mermaidPath = path.join(outDir, 'langgraph.mmd');
+  const dotPath = path.join(outDir, 'langgraph.dot');
+  const pngPath = path.join(outDir, 'langgraph.png');
+
+  writeFileSync(mermaidPath, graph.toMermaid());
+  console.log(`✅ Wrote ${path.relative(process.cwd(), mermaidPath)}`);
+  writeFileSync(dotPath, graph.toDot());
+  console.log(`✅ Wrote ${path.relative(process.cwd(), dotPath)}`);
+
+  const render = spawnSync('dot', ['-Tpng', dotPath, '-o', pngPath], { stdio: 'inherit' });
+  if (render.error || render.status !== 0) {
+    console.warn('⚠️  Graphviz `dot` not available; skipped rendering langgraph.png');
+    return;
+  }
+  console.log(`✅ Wrote ${path.relative(process.cwd(), pngPath)}`);
+}
+
+try {
+  main();
+  process.exit(0);
+} catch (err) {
+  console.error('❌ Failed to visualize graph:', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
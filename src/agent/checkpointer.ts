@@ -0,0 +1,118 @@
+import { Prisma } from '@prisma/client';
+
+import { BaseMessage, messageFromJSON } from '../lib/ai';
+import {
+  Checkpointer,
+  MemoryCheckpointer,
+  PostgresCheckpointer,
+  StateSerializer,
+} from '../lib/checkpoint';
+import { redis } from '../lib/redis';
+import { logger } from '../utils/logger';
+import { GraphState, TURN_SCOPED_STATE_KEYS } from './state';
+
+type SerializedMessage = ReturnType<BaseMessage['toJSON']>;
+
+/** Node whose checkpoint `replayRun` starts from, so compaction keeps it. */
+export const REPLAY_START_NODE = 'ingestMessage';
+
+/**
+ * Days checkpoints are kept. Past that, runs can no longer be resumed or replayed, and the
+ * next turn of a conversation falls back to its last run's `finalState`.
+ */
+const CHECKPOINT_RETENTION_DAYS = Number(process.env.GRAPH_CHECKPOINT_RETENTION_DAYS || 14);
+/** Expired checkpoints are swept at most once per this many seconds across all instances. */
+const CHECKPOINT_SWEEP_INTERVAL_SECONDS = 60 * 60;
+const CHECKPOINT_SWEEP_KEY = 'graphCheckpoints:sweep';
+
+/**
+ * Serializes agent state for checkpoints. The trace buffer is dropped since traces are
+ * persisted separately; message histories and dates are revived on the way back.
+ */
+export const agentStateSerializer: StateSerializer<GraphState> = {
+  serialize(state) {
+    const { traceBuffer: _traceBuffer, ...rest } = state;
+    return JSON.parse(JSON.stringify(rest)) as Prisma.InputJsonValue;
+  },
+
+  deserialize(value) {
+    const state = value as unknown as GraphState;
+    state.traceBuffer = { nodeRuns: [], llmTraces: [] };
+    state.conversationHistoryWithImages = (
+      (state.conversationHistoryWithImages ?? []) as unknown as SerializedMessage[]
+    ).map(messageFromJSON);
+    state.conversationHistoryTextOnly = (
+      (state.conversationHistoryTextOnly ?? []) as unknown as SerializedMessage[]
+    ).map(messageFromJSON);
+
+    // Dates come back as ISO strings from JSON
+    if (state.user) {
+      const { user } = state;
+      user.createdAt = new Date(user.createdAt);
+      if (user.lastVibeCheckAt) {
+        user.lastVibeCheckAt = new Date(user.lastVibeCheckAt);
+      }
+      if (user.lastColorAnalysisAt) {
+        user.lastColorAnalysisAt = new Date(user.lastColorAnalysisAt);
+      }
+    }
+    return state;
+  },
+};
+
+/**
+ * Creates the checkpointer configured via `GRAPH_CHECKPOINTER` (`postgres` by default, or `memory`).
+ */
+export function createCheckpointer(): Checkpointer<GraphState> {
+  const kind = process.env.GRAPH_CHECKPOINTER ?? 'postgres';
+  switch (kind) {
+    case 'memory':
+      return new MemoryCheckpointer<GraphState>();
+    case 'postgres':
+      return new PostgresCheckpointer<GraphState>(agentStateSerializer);
+    default:
+      logger.warn({ kind }, 'Unknown GRAPH_CHECKPOINTER, falling back to postgres');
+      return new PostgresCheckpointer<GraphState>(agentStateSerializer);
+  }
+}
+
+/**
+ * Extracts the part of a previous turn's final state that should carry over into the next
+ * turn, i.e. everything except the fields listed in `TURN_SCOPED_STATE_KEYS`.
+ */
+export function getCarryOverState(state: Partial<GraphState>): Partial<GraphState> {
+  const carryOver: Partial<GraphState> = { ...state };
+  for (const key of TURN_SCOPED_STATE_KEYS) {
+    delete carryOver[key];
+  }
+  return carryOver;
+}
+
+/**
+ * Prunes checkpoints after a run completed: the run keeps only its final checkpoint (read by
+ * the next turn) and its `REPLAY_START_NODE` one, and checkpoints older than
+ * `GRAPH_CHECKPOINT_RETENTION_DAYS` are swept, at most hourly. Failures are only logged.
+ *
+ * @param checkpointer - The agent's checkpointer
+ * @param runId - The run that just completed
+ */
+export async function pruneCheckpoints(
+  checkpointer: Checkpointer<GraphState>,
+  runId: string,
+): Promise<void> {
+  try {
+    await checkpointer.compact(runId, [REPLAY_START_NODE]);
+
+    const sweepDue = await redis.set(CHECKPOINT_SWEEP_KEY, runId, {
+      NX: true,
+      EX: CHECKPOINT_SWEEP_INTERVAL_SECONDS,
+    });
+    if (sweepDue) {
+      const cutoff = new Date(Date.now() - CHECKPOINT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const deleted = await checkpointer.deleteOlderThan(cutoff);
+      logger.info({ deleted, cutoff }, 'Swept expired graph checkpoints');
+    }
+  } catch (err: unknown) {
+    logger.error({ err, runId }, 'Failed to prune graph checkpoints');
+  }
+}
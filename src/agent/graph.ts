@@ -1,53 +1,91 @@
 import { PendingType } from '@prisma/client';
-import { END, START, StateGraph } from '../lib/graph';
+import { Checkpointer } from '../lib/checkpoint';
+import { END, NodePolicy, START, StateGraph } from '../lib/graph';
+import { logger } from '../utils/logger';
 import {
   askUserInfo,
   colorAnalysis,
-  dailyFact,
+  fetchPaletteContext,
+  fetchWardrobeContext,
   handleFashionCharades,
   handleFeedback,
   handleGeneral,
+  handleMemories,
   handleProductRecommendationConfirmation,
   handleSaveColorAnalysis,
+  handleSkinLab,
+  handleStyleProgress,
   handleStyleStudio,
-  handleStyling,
+  handleThisOrThat,
   ingestMessage,
+  loadStyleContext,
   recordUserInfo,
   routeGeneral,
   routeIntent,
   routeStyleStudio,
   sendReply,
   vibeCheck,
-  handleSkinLab,
-  handleThisOrThat,
 } from './nodes';
 import { GraphState } from './state';
 
-export function buildAgentGraph() {
+/**
+ * Policy for specialist nodes that depend on slow or flaky model calls: one retry, then
+ * degrade to `handleGeneral` with an apology instead of failing the whole run.
+ */
+const specialistPolicy = (timeoutMs: number): NodePolicy<GraphState> => ({
+  timeoutMs,
+  retries: 1,
+  backoffMs: 1_000,
+  fallback: {
+    node: 'handleGeneral',
+    update: (state, err) => {
+      logger.warn(
+        {
+          userId: state.user.id,
+          graphRunId: state.graphRunId,
+          err: err instanceof Error ? err.message : String(err),
+        },
+        'Specialist node failed, falling back to apology reply',
+      );
+      return { generalIntent: 'apology', assistantReply: null };
+    },
+  },
+});
+
+/**
+ * Builds and compiles the agent graph.
+ *
+ * @param checkpointer - Optional checkpointer persisting state after every node
+ */
+export function buildAgentGraph(checkpointer?: Checkpointer<GraphState>) {
   const graph = new StateGraph<GraphState>()
     .addNode('ingestMessage', ingestMessage)
     .addNode('recordUserInfo', recordUserInfo)
     .addNode('routeIntent', routeIntent)
     .addNode('routeGeneral', routeGeneral)
     .addNode('askUserInfo', askUserInfo)
-    .addNode('handleStyling', handleStyling)
     .addNode('handleFeedback', handleFeedback)
-    .addNode('vibeCheck', vibeCheck)
-    .addNode('colorAnalysis', colorAnalysis)
+    .addNode('vibeCheck', vibeCheck, specialistPolicy(90_000))
+    .addNode('colorAnalysis', colorAnalysis, specialistPolicy(90_000))
     .addNode('handleSaveColorAnalysis', handleSaveColorAnalysis)
     .addNode('handleProductRecommendationConfirmation', handleProductRecommendationConfirmation)
     .addNode('handleGeneral', handleGeneral)
     .addNode('sendReply', sendReply)
     .addNode('routeStyleStudio', routeStyleStudio)
-    .addNode('handleStyleStudio', handleStyleStudio)
-    .addNode('dailyFact', dailyFact)
+    .addNode('loadStyleContext', loadStyleContext)
+    .addNode('fetchPaletteContext', fetchPaletteContext)
+    .addNode('fetchWardrobeContext', fetchWardrobeContext)
+    .addNode('handleStyleStudio', handleStyleStudio, specialistPolicy(60_000))
     .addNode('handleFashionCharades', handleFashionCharades)
-    .addNode('handleSkinLab', handleSkinLab)
+    .addNode('handleSkinLab', handleSkinLab, specialistPolicy(60_000))
     .addNode('handleThisOrThat', handleThisOrThat)
+    .addNode('handleMemories', handleMemories)
+    .addNode('handleStyleProgress', handleStyleProgress)
     .addEdge(START, 'ingestMessage')
     .addConditionalEdges(
       'ingestMessage',
       (s: GraphState) => {
+        if (s.spendCapReached) return 'sendReply';
         switch (s.pending) {
           case PendingType.ASK_USER_INFO:
             return 'recordUserInfo';
@@ -56,12 +94,16 @@ export function buildAgentGraph() {
           case PendingType.SAVE_COLOR_ANALYSIS:
             return 'handleSaveColorAnalysis';
           case PendingType.CONFIRM_PRODUCT_RECOMMENDATION:
-            return 'handleProductRecommendationConfirmation';
+            // The vibe check's "Compare new look" button starts a before/after check instead
+            return s.input.ButtonPayload === 'vibe_check_compare'
+              ? 'routeIntent'
+              : 'handleProductRecommendationConfirmation';
           default:
             return 'routeIntent';
         }
       },
       {
+        sendReply: 'sendReply',
         recordUserInfo: 'recordUserInfo',
         handleFeedback: 'handleFeedback',
         handleSaveColorAnalysis: 'handleSaveColorAnalysis',
@@ -81,6 +123,10 @@ export function buildAgentGraph() {
             return 'handleThisOrThat';
           case 'fashion_quiz':
             return 'handleFashionCharades';
+          case 'memories':
+            return 'handleMemories';
+          case 'style_progress':
+            return 'handleStyleProgress';
           default:
             return s.intent || 'general';
         }
@@ -89,12 +135,15 @@ export function buildAgentGraph() {
         askUserInfo: 'askUserInfo',
         general: 'routeGeneral',
         vibe_check: 'vibeCheck',
+        vibe_check_compare: 'vibeCheck',
         color_analysis: 'colorAnalysis',
         styling: 'routeStyleStudio',
         style_studio: 'routeStyleStudio',
         handleSkinLab: 'handleSkinLab',
         handleThisOrThat: 'handleThisOrThat',
         handleFashionCharades: 'handleFashionCharades',
+        handleMemories: 'handleMemories',
+        handleStyleProgress: 'handleStyleProgress',
       },
     )
     .addEdge('routeGeneral', 'handleGeneral')
@@ -105,7 +154,7 @@ export function buildAgentGraph() {
         if (s.input?.ButtonPayload === 'style_studio') return 'sendReply';
 
         // If a sub-intent was selected (occasion, vacation, etc.)
-        if (s.subIntent) return 'handleStyleStudio';
+        if (s.subIntent) return 'loadStyleContext';
 
         // If there’s already a prepared reply, just send it
         if (s.assistantReply && s.assistantReply.length > 0) return 'sendReply';
@@ -115,23 +164,31 @@ export function buildAgentGraph() {
       },
       {
         sendReply: 'sendReply',
-        handleStyleStudio: 'handleStyleStudio',
+        loadStyleContext: 'loadStyleContext',
         routeGeneral: 'routeGeneral',
       },
     )
+    // The palette and wardrobe lookups are independent, so they run concurrently
+    .addParallelEdges(
+      'loadStyleContext',
+      ['fetchPaletteContext', 'fetchWardrobeContext'],
+      'handleStyleStudio',
+      { styleContext: (current = [], update = []) => [...current, ...update] },
+    )
     .addEdge('vibeCheck', 'sendReply')
     .addEdge('askUserInfo', 'sendReply')
     .addEdge('handleStyleStudio', 'sendReply')
-    .addEdge('handleStyling', 'sendReply')
     .addEdge('colorAnalysis', 'sendReply')
     .addEdge('handleGeneral', 'sendReply')
     .addEdge('handleFeedback', 'sendReply')
     .addEdge('handleFashionCharades', 'sendReply')
     .addEdge('handleSkinLab', 'sendReply')
     .addEdge('handleThisOrThat', 'sendReply')
+    .addEdge('handleMemories', 'sendReply')
+    .addEdge('handleStyleProgress', 'sendReply')
     .addEdge('handleSaveColorAnalysis', 'sendReply')
     .addEdge('handleProductRecommendationConfirmation', 'sendReply')
     .addEdge('sendReply', END);
 
-  return graph.compile();
+  return graph.compile(checkpointer ? { checkpointer } : {});
 }
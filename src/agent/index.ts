@@ -1,20 +1,70 @@
 import 'dotenv/config';
 
-import { Conversation, GraphRunStatus, MessageRole, PendingType, Prisma } from '@prisma/client';
+import {
+  Conversation,
+  GraphRun,
+  GraphRunStatus,
+  MessageRole,
+  PendingType,
+  Prisma,
+} from '@prisma/client';
+import type { ChannelName } from '../lib/channels';
 import { MessageInput } from '../lib/chat/types';
-import { StateGraph } from '../lib/graph';
+import { GraphListener, StateGraph } from '../lib/graph';
 import { prisma } from '../lib/prisma';
 import { redis } from '../lib/redis';
 import { getOrCreateUserAndConversation } from '../utils/context';
-import { logError } from '../utils/errors';
+import { BadRequestError, ConflictError, logError, NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import {
+  agentStateSerializer,
+  createCheckpointer,
+  getCarryOverState,
+  pruneCheckpoints,
+} from './checkpointer';
 import { buildAgentGraph } from './graph';
 import { GraphState } from './state';
 
 let compiledApp: ReturnType<typeof StateGraph.prototype.compile> | null = null;
+const checkpointer = createCheckpointer();
 let subscriber: ReturnType<typeof redis.duplicate> | undefined;
 
 const getUserAbortChannel = (id: string) => `user_abort:${id}`;
+const getResumeLockKey = (id: string) => `graphRun:resume:${id}`;
+
+/**
+ * How long a `RUNNING` run may go without checkpointing a node before it counts as crashed.
+ * Well above the slowest node's timeout and retries, so live runs are never picked up.
+ */
+const STALE_RUN_AFTER_MS = Number(process.env.GRAPH_RUN_STALE_AFTER_MS || 10 * 60 * 1000);
+const STALE_RUN_LIST_LIMIT = 100;
+
+/**
+ * Callbacks for observing an agent run while it executes, e.g. to stream progress to a client.
+ */
+export interface AgentRunListener extends GraphListener {
+  /** Called with each text delta a model produces while a node is running. */
+  onToken?: (nodeName: string, delta: string) => void;
+}
+
+/**
+ * Options for a single agent run.
+ */
+export interface AgentRunOptions {
+  /** The channel the message arrived on; `sendReply` delivers through it. Defaults to `http`. */
+  channel?: ChannelName;
+  /** Whether an HTTP sender presented a session of this user; WhatsApp senders always are */
+  sessionVerified?: boolean;
+  listener?: AgentRunListener;
+}
+
+/**
+ * The outcome of an agent run: the replies as delivered and the pending state.
+ */
+export type AgentRunResult = {
+  replies: NonNullable<GraphState['deliveredReplies']>;
+  pending: GraphState['pending'];
+};
 
 async function getSubscriber() {
   if (!subscriber || !subscriber.isOpen) {
@@ -24,6 +74,17 @@ async function getSubscriber() {
   return subscriber;
 }
 
+/**
+ * Aborts a user's in-flight run for the given message, on whichever instance is running it.
+ * The run ends with an `AbortError` and its `GraphRun` is recorded as `ABORTED`.
+ *
+ * @param userId - The user identifier the run was started with
+ * @param messageId - The message whose run should stop
+ */
+export async function abortAgentRun(userId: string, messageId: string): Promise<void> {
+  await redis.publish(getUserAbortChannel(userId), messageId);
+}
+
 /**
  * Builds and compiles the agent's state graph. This function should be called
  * once at application startup.
@@ -31,7 +92,7 @@ async function getSubscriber() {
 export async function initializeAgent(): Promise<void> {
   logger.info('Compiling agent graph...');
   try {
-    compiledApp = buildAgentGraph();
+    compiledApp = buildAgentGraph(checkpointer);
     logger.info('Agent graph compiled successfully.');
   } catch (err: unknown) {
     const error = err instanceof Error ? err : new Error(String(err));
@@ -40,9 +101,15 @@ export async function initializeAgent(): Promise<void> {
   }
 }
 
-async function loadPreviousConversationState(conversationId: string): Promise<Partial<GraphState> | null> {
+/**
+ * Loads the state a conversation should carry into its next turn: the latest checkpoint of
+ * the last completed run, minus the turn-scoped fields. Runs recorded before checkpointing
+ * existed fall back to their `finalState`.
+ */
+async function loadPreviousConversationState(
+  conversationId: string,
+): Promise<Partial<GraphState> | null> {
   try {
-    // Get the last successful graph run for this conversation
     const lastSuccessfulRun = await prisma.graphRun.findFirst({
       where: {
         conversationId,
@@ -52,28 +119,24 @@ async function loadPreviousConversationState(conversationId: string): Promise<Pa
         endTime: 'desc',
       },
     });
-
-    if (!lastSuccessfulRun?.finalState) {
+    if (!lastSuccessfulRun) {
       return null;
     }
 
-    // Return the final state, but exclude traceBuffer and httpResponse as they're not needed
-    const state = lastSuccessfulRun.finalState as Partial<GraphState>;
-    delete state.traceBuffer;
-    delete state.httpResponse;
-
-    // Reconstruct Date objects from serialized state (they come back as strings from JSON)
-    if (state.user) {
-      if (typeof state.user.lastVibeCheckAt === 'string') {
-        state.user.lastVibeCheckAt = new Date(state.user.lastVibeCheckAt);
-      }
-      if (typeof state.user.lastColorAnalysisAt === 'string') {
-        state.user.lastColorAnalysisAt = new Date(state.user.lastColorAnalysisAt);
-      }
+    const checkpoint = await checkpointer.getLatest(lastSuccessfulRun.id);
+    let state: GraphState | null = checkpoint?.state ?? null;
+    if (!state && lastSuccessfulRun.finalState) {
+      state = agentStateSerializer.deserialize(lastSuccessfulRun.finalState);
+    }
+    if (!state) {
+      return null;
     }
 
-    logger.debug({ conversationId, hasPreviousState: !!state.quizQuestions }, 'Loaded previous conversation state');
-    return state;
+    logger.debug(
+      { conversationId, graphRunId: lastSuccessfulRun.id, fromCheckpoint: !!checkpoint },
+      'Loaded previous conversation state',
+    );
+    return getCarryOverState(state);
   } catch (err: unknown) {
     logger.error({ err, conversationId }, 'Failed to load previous conversation state');
     return null;
@@ -95,8 +158,10 @@ async function logGraphResult(
     const endTime = new Date();
     const durationMs = endTime.getTime() - graphRun.startTime.getTime();
 
+    let costUsd = 0;
     if (finalState?.traceBuffer) {
       const { nodeRuns, llmTraces } = finalState.traceBuffer;
+      costUsd = llmTraces.reduce((sum, lt) => sum + Number(lt.costUsd ?? 0), 0);
 
       if (nodeRuns.length > 0) {
         await prisma.nodeRun.createMany({
@@ -137,6 +202,8 @@ async function logGraphResult(
         errorTrace: error ? getErrorTrace(error) : null,
         endTime,
         durationMs,
+        // Resumed runs add the cost of their remaining nodes
+        costUsd: { increment: costUsd },
       },
     });
   } catch (logErr: unknown) {
@@ -156,22 +223,43 @@ async function logGraphResult(
  * @param userId - The user identifier
  * @param messageId - The message identifier
  * @param input - The normalized message input
+ * @param options - Whether the sender has a session, and optional progress callbacks
  */
 export async function runAgentForHttp(
   userId: string,
   messageId: string,
   input: MessageInput,
-): Promise<{ replies: NonNullable<GraphState['httpResponse']>; pending: GraphState['pending'] }> {
+  options: Omit<AgentRunOptions, 'channel'> = {},
+): Promise<AgentRunResult> {
+  return runAgent(userId, messageId, input, { ...options, channel: 'http' });
+}
+
+/**
+ * Executes the agent graph for a message received on any channel. Replies are delivered by
+ * the channel from within the graph and also returned, together with the pending state.
+ *
+ * @param userId - The user identifier
+ * @param messageId - The message identifier
+ * @param input - The normalized message input
+ * @param options - The channel to deliver on and optional progress callbacks
+ */
+export async function runAgent(
+  userId: string,
+  messageId: string,
+  input: MessageInput,
+  options: AgentRunOptions = {},
+): Promise<AgentRunResult> {
+  const { channel = 'http', sessionVerified = false, listener } = options;
   const controller = new AbortController();
   const sub = await getSubscriber();
-  const channel = getUserAbortChannel(userId);
+  const abortChannel = getUserAbortChannel(userId);
 
-  const listener = (message: string) => {
+  const abortListener = (message: string) => {
     if (message === messageId) {
       controller.abort();
     }
   };
-  sub.subscribe(channel, listener);
+  sub.subscribe(abortChannel, abortListener);
 
   const { WaId: identifierId, ProfileName: profileName } = input;
 
@@ -193,38 +281,36 @@ export async function runAgentForHttp(
     );
     conversation = _conversation;
 
-    // Load previous conversation state
-    const previousState = await loadPreviousConversationState(conversation.id);
-
-    // Create serializable initial state (exclude non-serializable properties)
-    const serializablePreviousState = previousState ? {
-      quizQuestions: previousState.quizQuestions,
-      quizAnswers: previousState.quizAnswers,
-      currentQuestionIndex: previousState.currentQuestionIndex,
-      pending: previousState.pending,
-      selectedTonality: previousState.selectedTonality,
-      intent: previousState.intent,
-      subIntent: previousState.subIntent,
-      assistantReply: previousState.assistantReply,
-    } : {};
+    // Carry over persistent state (quiz progress, pending game images, etc.) from the last turn
+    const previousState = (await loadPreviousConversationState(conversation.id)) ?? {};
 
     await prisma.graphRun.create({
       data: {
         id: graphRunId,
         userId: user.id,
         conversationId: conversation.id,
-        initialState: { input, user, ...serializablePreviousState } as Prisma.InputJsonValue,
+        initialState: agentStateSerializer.serialize({
+          ...previousState,
+          input,
+          user,
+        } as GraphState),
       },
     });
 
-    // Create initial state with input, merging only persistent data from previous state
     const initialState: GraphState = {
+      ...previousState,
       input,
+      channel,
+      sessionVerified: channel === 'whatsapp' || sessionVerified,
       user,
       graphRunId,
       conversationId: conversation.id,
-      traceBuffer: { nodeRuns: [], llmTraces: [] },
-      // Required properties with defaults
+      traceBuffer: {
+        nodeRuns: [],
+        llmTraces: [],
+        ...(listener?.onToken ? { onToken: listener.onToken } : {}),
+      },
+      // Turn-scoped properties start from their defaults
       conversationHistoryWithImages: [],
       conversationHistoryTextOnly: [],
       intent: null,
@@ -235,21 +321,17 @@ export async function runAgentForHttp(
       assistantReply: null,
       pending: null,
       selectedTonality: null,
-      // Only merge persistent game state, not routing decisions
-      ...(previousState ? {
-        quizQuestions: previousState.quizQuestions,
-        quizAnswers: previousState.quizAnswers,
-        currentQuestionIndex: previousState.currentQuestionIndex,
-      } : {}),
     };
 
-    finalState = await compiledApp.invoke(
-      initialState,
-      { signal: controller.signal, runId: graphRunId },
-    );
+    finalState = await compiledApp.invoke(initialState, {
+      signal: controller.signal,
+      runId: graphRunId,
+      ...(listener ? { listener } : {}),
+    });
     logGraphResult(graphRunId, 'COMPLETED', finalState);
+    void pruneCheckpoints(checkpointer, graphRunId);
 
-    const replies = (finalState?.httpResponse ?? []) as NonNullable<GraphState['httpResponse']>;
+    const replies = finalState?.deliveredReplies ?? [];
     return { replies, pending: finalState?.pending ?? null };
   } catch (err: unknown) {
     if (err instanceof Error && err.name === 'AbortError') {
@@ -262,7 +344,7 @@ export async function runAgentForHttp(
     const error = logError(err, {
       userId: identifierId,
       messageId,
-      location: 'runAgentForHttp',
+      location: 'runAgent',
     });
 
     // For HTTP mode, we don't send error messages via external service
@@ -286,13 +368,90 @@ export async function runAgentForHttp(
         logError(dbErr, {
           userId: identifierId,
           messageId,
-          location: 'runAgentForHttp.saveErrorMessage',
+          location: 'runAgent.saveErrorMessage',
           originalError: error.message,
         });
       }
     }
     throw error;
   } finally {
-    await sub.unsubscribe(channel);
+    await sub.unsubscribe(abortChannel);
+  }
+}
+
+/**
+ * Lists runs still marked `RUNNING` that have not checkpointed a node for
+ * `GRAPH_RUN_STALE_AFTER_MS`, i.e. runs whose process crashed or was stopped mid-run.
+ *
+ * @param graphRunId - Only check this run
+ */
+export async function findStaleRuns(
+  graphRunId?: string,
+): Promise<Pick<GraphRun, 'id' | 'userId' | 'conversationId' | 'startTime'>[]> {
+  const cutoff = new Date(Date.now() - STALE_RUN_AFTER_MS);
+  return prisma.graphRun.findMany({
+    where: {
+      ...(graphRunId && { id: graphRunId }),
+      status: 'RUNNING',
+      startTime: { lt: cutoff },
+      checkpoints: { none: { createdAt: { gte: cutoff } } },
+    },
+    select: { id: true, userId: true, conversationId: true, startTime: true },
+    orderBy: { startTime: 'desc' },
+    take: STALE_RUN_LIST_LIMIT,
+  });
+}
+
+/**
+ * Resumes a crashed or aborted run from its latest checkpoint, continuing with the node after
+ * the last one that completed. Runs still marked `RUNNING` can only be resumed once they are
+ * stale (see `findStaleRuns`). The `GraphRun` record is updated with the new outcome.
+ *
+ * @param graphRunId - The graph run to resume
+ * @throws {NotFoundError} If the run does not exist
+ * @throws {BadRequestError} If the run already completed
+ * @throws {ConflictError} If the run is still running or already being resumed
+ */
+export async function resumeAgentRun(graphRunId: string): Promise<AgentRunResult> {
+  if (!compiledApp) {
+    throw new Error('Agent not initialized. Call initializeAgent() on startup.');
+  }
+
+  const graphRun = await prisma.graphRun.findUnique({ where: { id: graphRunId } });
+  if (!graphRun) {
+    throw new NotFoundError(`Graph run ${graphRunId} not found`);
+  }
+  if (graphRun.status === 'COMPLETED') {
+    throw new BadRequestError(`Graph run ${graphRunId} is COMPLETED and cannot be resumed`);
+  }
+  if (graphRun.status === 'RUNNING' && (await findStaleRuns(graphRunId)).length === 0) {
+    throw new ConflictError(`Graph run ${graphRunId} is still running`);
+  }
+
+  // A resumed run is RUNNING again with no fresh checkpoint yet, so guard against resuming twice
+  const lockKey = getResumeLockKey(graphRunId);
+  const locked = await redis.set(lockKey, '1', { NX: true, PX: STALE_RUN_AFTER_MS });
+  if (!locked) {
+    throw new ConflictError(`Graph run ${graphRunId} is already being resumed`);
+  }
+
+  let finalState: Partial<GraphState> | null = null;
+  try {
+    await prisma.graphRun.update({
+      where: { id: graphRunId },
+      data: { status: 'RUNNING', errorTrace: null },
+    });
+
+    finalState = await compiledApp.resume(graphRunId);
+    logGraphResult(graphRunId, 'COMPLETED', finalState);
+    void pruneCheckpoints(checkpointer, graphRunId);
+
+    const replies = finalState?.deliveredReplies ?? [];
+    return { replies, pending: finalState?.pending ?? null };
+  } catch (err: unknown) {
+    logGraphResult(graphRunId, 'ERROR', finalState, err);
+    throw logError(err, { graphRunId, location: 'resumeAgentRun' });
+  } finally {
+    await redis.del(lockKey);
   }
 }
@@ -1,3 +1,4 @@
+import { PendingType } from '@prisma/client';
 import { z } from 'zod';
 import { getTextLLM } from '../../lib/ai';
 import { agentExecutor } from '../../lib/ai/agents/executor';
@@ -69,6 +70,17 @@ export async function handleGeneral(state: GraphState): Promise<GraphState> {
       return { ...state, assistantReply: replies };
     }
 
+    // ------------------------------------------
+    // Apology Intent — fallback after a specialist node failed
+    // ------------------------------------------
+    if (generalIntent === 'apology') {
+      const replies = getMainMenuReply(
+        "Sorry, I couldn't finish that one just now 😔 Please try again in a moment, or pick something else:",
+      );
+      logger.debug({ userId, messageId }, 'Apology handled with main menu reply');
+      return { ...state, assistantReply: replies, pending: PendingType.NONE };
+    }
+
     // ------------------------------------------
     // Chat Intent (unchanged)
     // ------------------------------------------
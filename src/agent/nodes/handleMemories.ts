@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+import { PendingType } from '@prisma/client';
+import { getTextLLM, SystemMessage } from '../../lib/ai';
+import { prisma } from '../../lib/prisma';
+import { forgetMemories, rewriteMemory } from '../../services/memoryService';
+import { logger } from '../../utils/logger';
+import { loadPrompt } from '../../utils/prompts';
+import { GraphState, Replies } from '../state';
+
+/** Most recent memories shown to the user and offered to the LLM to pick from. */
+const MAX_MEMORIES = 50;
+
+const NO_MEMORIES_REPLY =
+  "I don't have anything saved about you yet. As we chat, I'll remember things like your sizes and favourite colours to personalise my suggestions.";
+const SIGN_IN_REQUIRED_REPLY =
+  'To see or change what I remember about you, please sign in to the app first.';
+const NOT_FOUND_REPLY =
+  'Hmm, I couldn\'t find that in what I remember about you. Ask me "what do you remember about me?" to see everything.';
+
+const LLMOutputSchema = z.object({
+  action: z
+    .enum(['list', 'forget', 'update'])
+    .describe('Whether to list memories, forget some, or correct one.'),
+  memoryIds: z
+    .array(z.string())
+    .describe('IDs of the memories to forget, or the single memory to correct.'),
+  updatedMemory: z
+    .string()
+    .nullable()
+    .describe('The corrected memory text when `action` is `update`, otherwise null.'),
+  reply: z.string().min(1).describe('A short, friendly message to send back to the user.'),
+});
+
+/**
+ * Answers "what do you remember about me?" and applies requests to forget or correct memories.
+ * The LLM only picks memories from the user's own list, so it cannot touch anyone else's.
+ * Unauthenticated HTTP senders may be anyone claiming the user ID, so they are refused.
+ */
+export async function handleMemories(state: GraphState): Promise<GraphState> {
+  const { user, conversationHistoryTextOnly } = state;
+
+  if (!state.sessionVerified) {
+    logger.warn({ userId: user.id }, 'Refused memory request without a user session');
+    return {
+      ...state,
+      assistantReply: [{ reply_type: 'text', reply_text: SIGN_IN_REQUIRED_REPLY }],
+      pending: PendingType.NONE,
+    };
+  }
+
+  const memories = await prisma.memory.findMany({
+    where: { userId: user.id },
+    select: { id: true, memory: true },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: MAX_MEMORIES,
+  });
+
+  if (memories.length === 0) {
+    return {
+      ...state,
+      assistantReply: [{ reply_type: 'text', reply_text: NO_MEMORIES_REPLY }],
+      pending: PendingType.NONE,
+    };
+  }
+
+  const systemPromptText = await loadPrompt('handlers/memories/handle_memories.txt');
+  const systemPrompt = new SystemMessage(
+    systemPromptText.replace(
+      '{memories}',
+      memories.map((m) => `- [${m.id}] ${m.memory}`).join('\n'),
+    ),
+  );
+
+  const { action, memoryIds, updatedMemory, reply } = await getTextLLM()
+    .withStructuredOutput(LLMOutputSchema)
+    .run(systemPrompt, conversationHistoryTextOnly.slice(-3), state.traceBuffer, 'handleMemories');
+
+  const knownIds = new Set(memories.map((m) => m.id));
+  const selectedIds = memoryIds.filter((id) => knownIds.has(id));
+
+  let replyText: string;
+  if (action === 'list') {
+    const lines = memories.map((m) => `• ${m.memory}`).join('\n');
+    replyText = `Here's what I remember about you:\n${lines}\n\n${reply}`;
+  } else if (action === 'update' && selectedIds[0] && updatedMemory?.trim()) {
+    await rewriteMemory(selectedIds[0], updatedMemory.trim());
+    logger.info({ userId: user.id, memoryId: selectedIds[0] }, 'Memory corrected from chat');
+    replyText = reply;
+  } else if (action === 'forget' && selectedIds.length > 0) {
+    const count = await forgetMemories(user.id, selectedIds);
+    replyText = count > 0 ? reply : NOT_FOUND_REPLY;
+  } else {
+    // Nothing matched: the LLM's reply asks the user to clarify
+    replyText = memoryIds.length > 0 ? NOT_FOUND_REPLY : reply;
+  }
+
+  const replies: Replies = [{ reply_type: 'text', reply_text: replyText }];
+  return {
+    ...state,
+    assistantReply: replies,
+    pending: PendingType.NONE,
+  };
+}
@@ -8,7 +8,6 @@ import { getMainMenuReply } from './common';
 import { getTextLLM } from '../../lib/ai';
 import { logger } from '../../utils/logger';
 import { PendingType } from '@prisma/client';
-import { ChatOpenAI } from '../../lib/ai/openai/chat_models';
 import { isValidImageUrl } from '../../utils/urlValidation';
 
 const LLMOutputSchema = z.object({
@@ -60,9 +59,8 @@ export async function handleProductRecommendationConfirmation(state: GraphState)
   }
 
   try {
-    const llm = new ChatOpenAI({ model: 'gpt-4o' });
     const executorResult = await agentExecutor(
-        llm,
+        getTextLLM(),
         systemPrompt,
         [], // Start with a clean history for this agent
         {
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ChatOpenAI } from '../../lib/ai/openai/chat_models';
+import { getTextLLM } from '../../lib/ai';
 import { agentExecutor } from '../../lib/ai/agents/executor';
 import { SystemMessage } from '../../lib/ai/core/messages';
 import { InternalServerError } from '../../utils/errors';
@@ -65,13 +65,8 @@ export async function handleSkinLab(state: GraphState): Promise<GraphState> {
       tools.push(searchProducts());
     }
 
-    // Use OpenAI for Skin Lab when tools are needed, as it handles tool calling more reliably than Groq
-    // Use gpt-4o for better tool calling reliability and instruction following
-    // Create a text-only OpenAI instance (without vision/reasoning features) for better tool compatibility
-    const textLLMWithTools = new ChatOpenAI({
-      model: 'gpt-4o', // Better tool calling and instruction following than gpt-4o-mini
-      temperature: 0.7, // Slightly creative but still reliable
-    });
+    // The model registry routes Skin Lab to gpt-4o, which handles tool calling more reliably than Groq
+    const textLLMWithTools = getTextLLM();
 
     const systemPrompt = new SystemMessage(systemPromptText);
 
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+import { PendingType } from '@prisma/client';
+import { getTextLLM, SystemMessage } from '../../lib/ai';
+import { loadStyleProgress } from '../../services/vibeCheckService';
+import { logger } from '../../utils/logger';
+import { loadPrompt } from '../../utils/prompts';
+import { GraphState, Replies } from '../state';
+
+const NOT_ENOUGH_CHECKS_REPLY =
+  'I need at least two vibe checks to track your style progress. Send me an outfit photo for a vibe check and I will start charting how your looks evolve!';
+
+const SIGN_IN_REQUIRED_REPLY = 'To see your style progress, please sign in to the app first.';
+
+const LLMOutputSchema = z.object({
+  reply: z.string().min(1).describe('The style progress report to send to the user.'),
+});
+
+/**
+ * Answers "how is my style progressing?" with a report built from the user's vibe checks:
+ * score trends per dimension and how many past recommendations they adopted. Unauthenticated
+ * HTTP senders may be anyone claiming the user ID, so they are refused.
+ */
+export async function handleStyleProgress(state: GraphState): Promise<GraphState> {
+  if (!state.sessionVerified) {
+    logger.warn({ userId: state.user.id }, 'Refused style progress request without a user session');
+    const replies: Replies = [{ reply_type: 'text', reply_text: SIGN_IN_REQUIRED_REPLY }];
+    return { ...state, assistantReply: replies, pending: PendingType.NONE };
+  }
+
+  const progress = await loadStyleProgress(state.user.id);
+
+  if (progress.checks < 2) {
+    const replies: Replies = [
+      {
+        reply_type: 'quick_reply',
+        reply_text: NOT_ENOUGH_CHECKS_REPLY,
+        buttons: [{ text: 'Vibe check', id: 'vibe_check' }],
+      },
+    ];
+    return { ...state, assistantReply: replies, pending: PendingType.NONE };
+  }
+
+  const systemPromptText = await loadPrompt('handlers/analysis/style_progress.txt');
+  // The per-period series is for charts; the report works from the trends
+  const { series, ...summary } = progress;
+  const systemPrompt = new SystemMessage(
+    systemPromptText.replace('{progress}', JSON.stringify(summary, null, 2)),
+  );
+
+  const { reply } = await getTextLLM()
+    .withStructuredOutput(LLMOutputSchema)
+    .run(
+      systemPrompt,
+      state.conversationHistoryTextOnly.slice(-3),
+      state.traceBuffer,
+      'handleStyleProgress',
+    );
+
+  const replies: Replies = [{ reply_type: 'text', reply_text: reply }];
+  return { ...state, assistantReply: replies, pending: PendingType.NONE };
+}
@@ -1,15 +1,14 @@
+import { PendingType } from '@prisma/client';
 import { z } from 'zod';
-import { getTextLLM, getVisionLLM } from '../../lib/ai';
-import { ChatOpenAI } from '../../lib/ai/openai/chat_models';
+import { getTextLLM } from '../../lib/ai';
 import { agentExecutor } from '../../lib/ai/agents/executor';
-import { SystemMessage, BaseMessage } from '../../lib/ai/core/messages';
+import { BaseMessage, SystemMessage } from '../../lib/ai/core/messages';
+import { InternalServerError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import { loadPrompt } from '../../utils/prompts';
-import { InternalServerError } from '../../utils/errors';
 import { isValidImageUrl } from '../../utils/urlValidation';
 import { GraphState, Replies } from '../state';
-import { PendingType } from '@prisma/client';
-import { searchProducts, fetchColorAnalysis } from '../tools';
+import { buildOutfits, listSavedOutfits, saveOutfit, searchProducts } from '../tools';
 
 const StyleStudioOutputSchema = z.object({
   reply_text: z.string().min(1, 'Reply text is required'),
@@ -19,10 +18,11 @@ const styleStudioMenuButtons = [
   { text: 'Style for any occasion', id: 'style_studio_occasion' },
   { text: 'Vacation looks', id: 'style_studio_vacation' },
   { text: 'General styling', id: 'style_studio_general' },
+  { text: 'Outfits from my closet', id: 'style_studio_outfit' },
 ];
 
 export async function handleStyleStudio(state: GraphState): Promise<GraphState> {
-  const { subIntent, conversationHistoryTextOnly, user, pending } = state;
+  const { subIntent, conversationHistoryTextOnly, user, pending, styleContext = [] } = state;
   const userId = user.id;
 
   // --- START OF CONTEXT CHECK AND TRUNCATION (FIXED) ---
@@ -74,21 +74,22 @@ export async function handleStyleStudio(state: GraphState): Promise<GraphState>
   }
 
   try {
-    const intentKey = subIntent.replace('style_studio_', ''); // e.g. 'occasion', 'vacation', 'general'
+    const intentKey = subIntent.replace('style_studio_', ''); // e.g. 'occasion', 'vacation', 'general', 'outfit'
     const systemPromptText = await loadPrompt(`handlers/style_studio/${intentKey}.txt`);
-    const systemPrompt = new SystemMessage(systemPromptText);
+    // Palette and wardrobe were looked up in parallel by the `loadStyleContext` branches
+    const userContext = styleContext.length > 0 ? styleContext.join('\n') : 'Nothing known yet.';
+    const systemPrompt = new SystemMessage(systemPromptText.replace('{user_context}', userContext));
 
     // Use agentExecutor with product search tool
     // Build tool list and force-include required tools to avoid drops in request.tools.
-    const tools = [searchProducts(), fetchColorAnalysis(userId)];
+    // Outfits from the closet are built from the user's own wardrobe instead of the catalog.
+    const tools =
+      subIntent === 'style_studio_outfit'
+        ? [buildOutfits(userId), saveOutfit(userId), listSavedOutfits(userId)]
+        : [searchProducts()];
 
-    // Use OpenAI for Style Studio when tools are needed, as it handles tool calling more reliably than Groq
-    // Use gpt-4o for better tool calling reliability and instruction following
-    // Create a text-only OpenAI instance (without vision/reasoning features) for better tool compatibility
-    const textLLMWithTools = new ChatOpenAI({
-      model: 'gpt-4o', // Better tool calling and instruction following than gpt-4o-mini
-      temperature: 0.7, // Slightly creative but still reliable
-    });
+    // The model registry routes Style Studio to gpt-4o, which handles tool calling more reliably than Groq
+    const textLLMWithTools = getTextLLM();
 
     let executorResult;
     try {
@@ -4,12 +4,15 @@ export * from './dailyFact';
 export * from './handleFashionCharades';
 export * from './handleFeedback';
 export * from './handleGeneral';
+export * from './handleMemories';
 export * from './handleStyleStudio';
 export * from './handleStyling';
+export * from './handleStyleProgress';
 export * from './ingestMessage';
 export * from './recordUserInfo';
 export * from './routeGeneral';
 export * from './routeIntent';
+export * from './loadStyleContext';
 export * from './routeStyling';
 export * from './sendReply';
 export * from './vibeCheck';
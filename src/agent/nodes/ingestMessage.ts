@@ -3,10 +3,36 @@ import { AssistantMessage, MessageContent, MessageContentPart, UserMessage } fro
 
 import { prisma } from '../../lib/prisma';
 import { queueImageUpload } from '../../lib/tasks';
+import { ExceededSpendCap, SpendService } from '../../services/spendService';
 import { logger } from '../../utils/logger';
 import { convertLocalhostUrlToDataUrl, processMediaForAI } from '../../utils/media';
 import { extractTextContent } from '../../utils/text';
-import { GraphState } from '../state';
+import { GraphState, Replies } from '../state';
+
+const spendService = new SpendService();
+
+const SPEND_CAP_REPLIES: Record<ExceededSpendCap['period'], string> = {
+  daily:
+    "You've been busy styling today! 💫 You've reached today's limit, so let's pick this up again tomorrow.",
+  monthly:
+    "What a month of styling! 💫 You've reached this month's limit, so I'll be ready to help again next month.",
+};
+
+/**
+ * Returns the spend cap the user has reached, if any. Lookup failures let the message
+ * through rather than blocking the user.
+ */
+async function checkSpendCap(state: GraphState): Promise<ExceededSpendCap | null> {
+  try {
+    return await spendService.getExceededCap(state.user);
+  } catch (err: unknown) {
+    logger.warn(
+      { userId: state.user.id, err: err instanceof Error ? err.message : String(err) },
+      'Spend cap check failed, allowing the message',
+    );
+    return null;
+  }
+}
 
 /**
  * Ingests incoming messages, processes media attachments, manages conversation history,
@@ -216,6 +242,16 @@ export async function ingestMessage(state: GraphState): Promise<GraphState> {
 
   logger.debug({ userId, graphRunId }, 'Message ingested successfully');
 
+  const spendCap = await checkSpendCap(state);
+  let spendCapReply: Replies | null = null;
+  if (spendCap) {
+    logger.info(
+      { userId, graphRunId, ...spendCap },
+      'User reached spend cap, skipping paid models',
+    );
+    spendCapReply = [{ reply_type: 'text', reply_text: SPEND_CAP_REPLIES[spendCap.period] }];
+  }
+
   /**
    * The key: PREFER the latest computed state (from routing/handler) if set,
    * otherwise, use the value loaded from the DB.
@@ -231,5 +267,6 @@ export async function ingestMessage(state: GraphState): Promise<GraphState> {
     seasonalPaletteToSave: state.seasonalPaletteToSave ?? seasonalPaletteToSaveFromDB,
     user,
     input,
+    ...(spendCap && { spendCapReached: spendCap.period, assistantReply: spendCapReply }),
   };
 }
@@ -0,0 +1,72 @@
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { GraphState } from '../state';
+
+/**
+ * Starts Style Studio's context lookups, which run in parallel and are merged into
+ * `styleContext` before `handleStyleStudio` writes its reply.
+ */
+export async function loadStyleContext(state: GraphState): Promise<GraphState> {
+  return { ...state, styleContext: [] };
+}
+
+/**
+ * Adds the user's latest color analysis palette to the Style Studio context. Lookup failures
+ * only leave it out, since the stylist can work without it.
+ */
+export async function fetchPaletteContext(state: GraphState): Promise<GraphState> {
+  const userId = state.user.id;
+  try {
+    const analysis = await prisma.colorAnalysis.findFirst({
+      select: {
+        palette_name: true,
+        palette_description: true,
+        colors_to_wear: true,
+        colors_to_avoid: true,
+      },
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!analysis?.palette_name) {
+      return { ...state, styleContext: ['Color palette: no color analysis yet.'] };
+    }
+
+    const { palette_name, palette_description, colors_to_wear, colors_to_avoid } = analysis;
+    return {
+      ...state,
+      styleContext: [
+        `Color palette: ${palette_name}${palette_description ? ` (${palette_description})` : ''}. ` +
+          `Colors to wear: ${JSON.stringify(colors_to_wear)}. ` +
+          `Colors to avoid: ${JSON.stringify(colors_to_avoid)}.`,
+      ],
+    };
+  } catch (err: unknown) {
+    logger.warn({ userId, err: (err as Error)?.message }, 'Failed to load palette context');
+    return state;
+  }
+}
+
+/**
+ * Adds a summary of the user's wardrobe (items per category) to the Style Studio context.
+ * Lookup failures only leave it out, since the stylist can work without it.
+ */
+export async function fetchWardrobeContext(state: GraphState): Promise<GraphState> {
+  const userId = state.user.id;
+  try {
+    const categories = await prisma.wardrobeItem.groupBy({
+      by: ['category'],
+      where: { userId },
+      _count: { _all: true },
+      orderBy: { category: 'asc' },
+    });
+    if (categories.length === 0) {
+      return { ...state, styleContext: ['Wardrobe: no items added yet.'] };
+    }
+
+    const counts = categories.map((c) => `${c._count._all} ${c.category}`).join(', ');
+    return { ...state, styleContext: [`Wardrobe: ${counts}.`] };
+  } catch (err: unknown) {
+    logger.warn({ userId, err: (err as Error)?.message }, 'Failed to load wardrobe context');
+    return state;
+  }
+}
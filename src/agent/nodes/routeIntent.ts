@@ -9,10 +9,10 @@ import { GraphState, IntentLabel } from '../state';
 import { logger } from '../../utils/logger';
 
 const validTonalities = ['friendly', 'savage', 'hype_bff'];
-const otherValid = ['general', 'vibe_check', 'color_analysis', 'suggest', 'this_or_that','skin_lab', 'fashion_quiz'];
+const otherValid = ['general', 'vibe_check', 'vibe_check_compare', 'color_analysis', 'suggest', 'this_or_that','skin_lab', 'fashion_quiz'];
 
 const LLMOutputSchema = z.object({
-  intent: z.enum(['general', 'vibe_check', 'color_analysis', 'style_studio', 'this_or_that','skin_lab', 'fashion_quiz']),
+  intent: z.enum(['general', 'vibe_check', 'vibe_check_compare', 'color_analysis', 'style_studio', 'this_or_that','skin_lab', 'fashion_quiz', 'memories', 'style_progress']),
   missingProfileField: z.enum(['gender', 'age_group']).nullable(),
 });
 
@@ -79,6 +79,7 @@ export async function routeIntent(state: GraphState): Promise<GraphState> {
       'style_studio_occasion',
       'style_studio_vacation',
       'style_studio_general',
+      'style_studio_outfit',
     ] as const;
 
     if (validSubIntents.includes(buttonPayload as any)) {
@@ -236,6 +237,10 @@ export async function routeIntent(state: GraphState): Promise<GraphState> {
       logger.debug({ userId }, 'Routing to vibe_check due to image presence.');
       return { ...state, intent: 'vibe_check', missingProfileField: null };
     }
+    if (pending === PendingType.VIBE_CHECK_COMPARISON_IMAGE) {
+      logger.debug({ userId }, 'Routing to vibe_check_compare due to image presence.');
+      return { ...state, intent: 'vibe_check_compare', missingProfileField: null };
+    }
     if (pending === PendingType.COLOR_ANALYSIS_IMAGE) {
       logger.debug({ userId }, 'Routing to color_analysis due to image presence.');
       return { ...state, intent: 'color_analysis', missingProfileField: null };
@@ -255,12 +260,15 @@ export async function routeIntent(state: GraphState): Promise<GraphState> {
     ? Math.floor((now - lastColorAnalysisAt) / (1000 * 60))
     : -1;
   const canDoColorAnalysis = colorMinutesAgo === -1 || colorMinutesAgo >= 30;
+  // Follow-up photos are compared regardless of the cooldown, as long as there is a check to compare
+  const canCompareVibeCheck = lastVibeCheckAt !== null;
 
   try {
     const systemPromptText = await loadPrompt('routing/route_intent.txt');
     const formattedSystemPrompt = systemPromptText
       .replace('{can_do_vibe_check}', canDoVibeCheck.toString())
-      .replace('{can_do_color_analysis}', canDoColorAnalysis.toString());
+      .replace('{can_do_color_analysis}', canDoColorAnalysis.toString())
+      .replace('{can_compare_vibe_check}', canCompareVibeCheck.toString());
 
     const systemPrompt = new SystemMessage(formattedSystemPrompt);
     const response = await getTextLLM()
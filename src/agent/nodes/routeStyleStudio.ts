@@ -7,13 +7,19 @@ import { InternalServerError } from '../../utils/errors';
 import { GraphState, Replies } from '../state';
 import { PendingType } from '@prisma/client';
 
-const validSubIntents = ['style_studio_occasion', 'style_studio_vacation', 'style_studio_general'] as const;
+const validSubIntents = [
+  'style_studio_occasion',
+  'style_studio_vacation',
+  'style_studio_general',
+  'style_studio_outfit',
+] as const;
 type SubIntent = typeof validSubIntents[number];
 
 const styleStudioMenuButtons = [
   { text: 'Style for any occasion', id: 'style_studio_occasion' },
   { text: 'Vacation looks', id: 'style_studio_vacation' },
   { text: 'General styling', id: 'style_studio_general' },
+  { text: 'Outfits from my closet', id: 'style_studio_outfit' },
 ];
 
 const LLMOutputSchema = z.object({
@@ -4,6 +4,8 @@ import { MessageRole, PendingType, Prisma } from '@prisma/client';
 import { MessageContent, MessageContentPart } from '../../lib/ai';
 
 import { Tonality } from '@prisma/client';
+import { adaptReplies, getChannel } from '../../lib/channels';
+import { RepliesSchema } from '../../lib/chat/replies';
 import { prisma } from '../../lib/prisma';
 import { redis } from '../../lib/redis';
 import { queueFeedbackRequest } from '../../lib/tasks';
@@ -11,16 +13,24 @@ import { InternalServerError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import { GraphState, Replies } from '../state';
 
+/** Sent instead of a reply that fails validation, so the turn's saved work is not thrown away. */
+const FALLBACK_REPLIES: Replies = [
+  { reply_type: 'text', reply_text: 'Sorry, something went wrong. Please try again.' },
+];
+
 /**
- * Prepares and returns the reply for HTTP responses.
- * Records the assistant's message in the database and updates processing status.
- * Schedules memory extraction after sending.
+ * Validates the reply against the reply schema, then delivers it through the channel the
+ * message arrived on after downgrading it to the channel's capabilities. Records the
+ * assistant's message in the database and updates processing status. Schedules memory
+ * extraction after sending. A reply that fails validation is recorded as `failed` in the
+ * message status hash and replaced with a short apology.
  *
  * @param state The current agent state containing reply and user info.
- * @returns Updated state with httpResponse containing the replies.
+ * @returns Updated state with deliveredReplies containing the replies as delivered.
  */
 export async function sendReply(state: GraphState): Promise<GraphState> {
   const { input, user, conversationId } = state;
+  const channel = getChannel(state.channel ?? 'http');
   const messageId = input.MessageSid;
   const messageKey = `message:${messageId}`;
   const userId = user.whatsappId;
@@ -29,17 +39,28 @@ export async function sendReply(state: GraphState): Promise<GraphState> {
     throw new InternalServerError('No open conversation found for user');
   }
 
+  const parsed = RepliesSchema.safeParse(state.assistantReply ?? []);
+  let replies: Replies;
+  if (parsed.success) {
+    replies = parsed.data;
+  } else {
+    logger.error(
+      { userId, issues: parsed.error.issues, replies: state.assistantReply },
+      'Reply failed schema validation, sending fallback reply',
+    );
+    await redis.hSet(messageKey, { status: 'failed', error: 'invalid_reply' });
+    replies = FALLBACK_REPLIES;
+  }
+
   logger.debug({ userId }, 'Setting message status to sending in Redis');
   await redis.hSet(messageKey, { status: 'sending' });
 
-  const replies: Replies = state.assistantReply ?? [];
-
   // Separate and prioritize the image reply
   const imageReplies = replies.filter((r) => r.reply_type === 'image');
   const nonImageReplies = replies.filter((r) => r.reply_type !== 'image');
 
   // Create a new ordered list: Images first, then all other replies
-  const orderedReplies = [...imageReplies, ...nonImageReplies];
+  const orderedReplies = adaptReplies([...imageReplies, ...nonImageReplies], channel.capabilities);
 
   const formattedContent: MessageContent = orderedReplies.flatMap((r) => {
     const parts: MessageContentPart[] = [];
@@ -78,9 +99,12 @@ export async function sendReply(state: GraphState): Promise<GraphState> {
     ...(state.seasonalPaletteToSave && { seasonalPaletteToSave: state.seasonalPaletteToSave }),
   };
 
-  // Mark as delivered for HTTP mode
-  logger.debug({ userId }, 'HTTP delivery mode: collecting replies for response');
-  await redis.hSet(messageKey, { status: 'delivered' });
+  try {
+    await channel.send({ messageId, userId, address: input.From }, orderedReplies);
+  } catch (err: unknown) {
+    await redis.hSet(messageKey, { status: 'failed' });
+    throw err;
+  }
 
   await prisma.message.create({
     data: {
@@ -95,7 +119,10 @@ export async function sendReply(state: GraphState): Promise<GraphState> {
 
   queueFeedbackRequest(user.id, conversationId);
 
-  logger.info({ userId, replyCount: orderedReplies.length }, 'Replies prepared for HTTP response');
+  logger.info(
+    { userId, channel: channel.name, replyCount: orderedReplies.length },
+    'Replies delivered',
+  );
 
-  return { ...state, httpResponse: orderedReplies };
+  return { ...state, deliveredReplies: orderedReplies };
 }
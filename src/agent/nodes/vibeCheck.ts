@@ -3,14 +3,17 @@ import { logger } from '../../utils/logger';
 
 import { getTextLLM, getVisionLLM } from '../../lib/ai';
 import { ImagePart, SystemMessage } from '../../lib/ai/core/messages';
+import type { NodeContext } from '../../lib/graph';
 import { prisma } from '../../lib/prisma';
 import { queueWardrobeIndex } from '../../lib/tasks';
-import type { QuickReplyButton } from '../../lib/chat/types';
+import type { QuickReplyButton, Reply } from '../../lib/chat/replies';
 import { numImagesInMessage } from '../../utils/context';
 import { generateVibeCheckImage } from '../../utils/imageGenerator';
 import { loadPrompt } from '../../utils/prompts';
 
-import { PendingType, Prisma } from '@prisma/client';
+import { PendingType, Prisma, VibeCheck } from '@prisma/client';
+import { compareVibeChecks } from '../../services/vibeCheckService';
+import { RecommendationAdoptionSchema, RecommendationsAdopted } from '../../types/vibeChecks';
 import { InternalServerError } from '../../utils/errors';
 import { GraphState, Replies } from '../state';
 
@@ -35,6 +38,12 @@ const LLMOutputSchema = z.object({
     .describe(
       "A natural follow-up question to keep the conversation going (e.g., 'Want me to suggest outfit combinations next?').",
     ),
+  previous_recommendations: z
+    .array(RecommendationAdoptionSchema)
+    .nullable()
+    .describe(
+      "Whether this outfit follows each recommendation from the user's previous vibe check. Null if there was none.",
+    ),
 });
 
 const NoImageLLMOutputSchema = z.object({
@@ -43,13 +52,76 @@ const NoImageLLMOutputSchema = z.object({
     .describe('The text to send to the user explaining they need to send an image.'),
 });
 
+/** The user's latest check, which a follow-up photo is judged and compared against. */
+const PREVIOUS_CHECK_SELECT = {
+  id: true,
+  fit_silhouette_score: true,
+  fit_silhouette_explanation: true,
+  color_harmony_score: true,
+  color_harmony_explanation: true,
+  styling_details_score: true,
+  styling_details_explanation: true,
+  context_confidence_score: true,
+  context_confidence_explanation: true,
+  overall_score: true,
+  recommendations: true,
+  tonality: true,
+  imageUrl: true,
+} satisfies Prisma.VibeCheckSelect;
+
+type PreviousCheck = Prisma.VibeCheckGetPayload<{ select: typeof PREVIOUS_CHECK_SELECT }>;
+
+function formatPreviousScores(check: PreviousCheck): string {
+  return [
+    `- Fit & Silhouette: ${check.fit_silhouette_score}/10 (${check.fit_silhouette_explanation})`,
+    `- Color Harmony: ${check.color_harmony_score}/10 (${check.color_harmony_explanation})`,
+    `- Styling Details: ${check.styling_details_score}/10 (${check.styling_details_explanation})`,
+    `- Context Confidence: ${check.context_confidence_score}/10 (${check.context_confidence_explanation})`,
+    `- Overall: ${check.overall_score}/10`,
+  ].join('\n');
+}
+
+/**
+ * Builds the before/after card for a follow-up photo. Dimension explanations describe the new
+ * photo; the deltas come from the saved scores.
+ */
+function comparisonCard(
+  before: PreviousCheck,
+  after: VibeCheck,
+  result: z.infer<typeof LLMOutputSchema>,
+  afterImageUrl: string | null,
+): Reply {
+  const comparison = compareVibeChecks(before, after);
+  return {
+    reply_type: 'vibe_check_comparison_card',
+    comment: result.comment,
+    overall: comparison.overall,
+    fit_silhouette: {
+      ...comparison.fit_silhouette,
+      explanation: result.fit_silhouette.explanation,
+    },
+    color_harmony: { ...comparison.color_harmony, explanation: result.color_harmony.explanation },
+    styling_details: {
+      ...comparison.styling_details,
+      explanation: result.styling_details.explanation,
+    },
+    context_confidence: {
+      ...comparison.context_confidence,
+      explanation: result.context_confidence.explanation,
+    },
+    recommendations: result.recommendations,
+    before_image_url: before.imageUrl,
+    after_image_url: afterImageUrl,
+  };
+}
+
 const tonalityButtons: QuickReplyButton[] = [
   { text: 'Friendly', id: 'friendly' },
   { text: 'Savage', id: 'savage' },
   { text: 'Hype BFF', id: 'hype_bff' },
 ];
 
-export async function vibeCheck(state: GraphState): Promise<GraphState> {
+export async function vibeCheck(state: GraphState, { signal }: NodeContext): Promise<GraphState> {
   logger.debug(
     {
       userId: state.user.id,
@@ -61,10 +133,35 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
   );
 
   const userId = state.user.id;
+  // Before/after mode: a follow-up photo scored against the user's latest check
+  const comparing = state.intent === 'vibe_check_compare';
 
   try {
+    // Recommendations from the last check are judged against this photo for progress reports
+    const previousCheck = await prisma.vibeCheck.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: PREVIOUS_CHECK_SELECT,
+    });
+
+    if (comparing && !previousCheck) {
+      const replies: Replies = [
+        {
+          reply_type: 'quick_reply',
+          reply_text: "There's no earlier vibe check to compare with yet. Let's start with one!",
+          buttons: [{ text: 'Vibe check', id: 'vibe_check' }],
+        },
+      ];
+      return { ...state, assistantReply: replies, pending: PendingType.NONE };
+    }
+
+    // Comparisons keep the earlier check's tonality so both photos are judged in the same voice
+    const tonality = comparing
+      ? (previousCheck?.tonality ?? state.selectedTonality ?? 'friendly')
+      : state.selectedTonality;
+
     // If user hasn't chosen tonality yet, prompt for it
-    if (!state.selectedTonality) {
+    if (!tonality) {
       const replies: Replies = [
         {
           reply_type: 'quick_reply',
@@ -84,7 +181,10 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
     if (imageCount === 0) {
       const systemPromptText = await loadPrompt('handlers/analysis/no_image_request.txt');
       const systemPrompt = new SystemMessage(
-        systemPromptText.replace('{analysis_type}', 'vibe check'),
+        systemPromptText.replace(
+          '{analysis_type}',
+          comparing ? 'before/after vibe check' : 'vibe check',
+        ),
       );
       const response = await getTextLLM()
         .withStructuredOutput(NoImageLLMOutputSchema)
@@ -93,7 +193,7 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
       return {
         ...state,
         assistantReply: replies,
-        pending: PendingType.VIBE_CHECK_IMAGE,
+        pending: comparing ? PendingType.VIBE_CHECK_COMPARISON_IMAGE : PendingType.VIBE_CHECK_IMAGE,
       };
     }
 
@@ -110,7 +210,7 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
 
     const systemPromptTextRaw = await loadPrompt('handlers/analysis/vibe_check.txt');
     const tonalityInstructions =
-      tonalityInstructionsMap[state.selectedTonality as keyof typeof tonalityInstructionsMap];
+      tonalityInstructionsMap[tonality as keyof typeof tonalityInstructionsMap];
     
     const gender = state.user.confirmedGender || state.user.inferredGender || 'unknown';
 
@@ -120,6 +220,18 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
     );
     systemPromptText = systemPromptText.replace('{gender}', gender);
 
+    const previousRecommendations = previousCheck?.recommendations.length
+      ? previousCheck.recommendations.map((r) => `- ${r}`).join('\n')
+      : 'None. This is the first vibe check.';
+    systemPromptText = systemPromptText.replace(
+      '{previous_recommendations}',
+      previousRecommendations,
+    );
+    systemPromptText = systemPromptText.replace(
+      '{comparison}',
+      comparing && previousCheck ? formatPreviousScores(previousCheck) : 'None.',
+    );
+
     const systemPrompt = new SystemMessage(systemPromptText);
 
     const result = await getVisionLLM()
@@ -132,6 +244,30 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
     }
     const latestMessageId = latestMessage.meta.messageId as string;
 
+    // Find the latest message with an image in the conversation history
+    const imageMessage = [...state.conversationHistoryWithImages]
+      .reverse()
+      .find((msg) => msg.content.some((part) => part.type === 'image_url'));
+
+    let userImageUrl: string | null = null;
+    if (imageMessage && imageMessage.meta?.messageId) {
+      const mediaItem = await prisma.media.findFirst({
+        where: { messageId: imageMessage.meta.messageId as string },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (mediaItem?.serverUrl) {
+        userImageUrl = mediaItem.serverUrl;
+      }
+    }
+
+    const recommendationsAdopted: RecommendationsAdopted | null =
+      previousCheck && result.previous_recommendations?.length
+        ? { previousVibeCheckId: previousCheck.id, results: result.previous_recommendations }
+        : null;
+
+    // A photo that could not be evaluated scores 0, which says nothing about progress
+    const comparedTo = comparing && result.overall_score > 0 ? previousCheck : null;
+
     const vibeCheckData: Prisma.VibeCheckUncheckedCreateInput = {
       comment: result.comment,
       fit_silhouette_score: result.fit_silhouette.score,
@@ -145,11 +281,16 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
       overall_score: result.overall_score,
       recommendations: result.recommendations,
       prompt: result.prompt,
-      tonality: state.selectedTonality,
+      tonality,
+      imageUrl: userImageUrl,
+      recommendationsAdopted: recommendationsAdopted ?? Prisma.JsonNull,
+      comparedToId: comparedTo?.id ?? null,
       userId,
     };
 
-    const [, user] = await prisma.$transaction([
+    // A timed-out attempt must not save a second check next to its retry's
+    signal.throwIfAborted();
+    const [savedCheck, user] = await prisma.$transaction([
       prisma.vibeCheck.create({ data: vibeCheckData }),
       prisma.user.update({
         where: { id: userId },
@@ -159,34 +300,20 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
 
     queueWardrobeIndex(userId, latestMessageId);
 
-    // Find the latest message with an image in the conversation history
-    const imageMessage = [...state.conversationHistoryWithImages]
-      .reverse()
-      .find((msg) => msg.content.some((part) => part.type === 'image_url'));
-
-    let userImageUrl: string | null = null;
-    if (imageMessage && imageMessage.meta?.messageId) {
-      const mediaItem = await prisma.media.findFirst({
-        where: { messageId: imageMessage.meta.messageId as string },
-        orderBy: { createdAt: 'desc' },
-      });
-      if (mediaItem?.serverUrl) {
-        userImageUrl = mediaItem.serverUrl;
-      }
-    }
-
     const replies: Replies = [
-      {
-        reply_type: 'vibe_check_card',
-        comment: result.comment,
-        fit_silhouette: result.fit_silhouette,
-        color_harmony: result.color_harmony,
-        styling_details: result.styling_details,
-        context_confidence: result.context_confidence,
-        overall_score: result.overall_score,
-        recommendations: result.recommendations,
-        user_image_url: userImageUrl,
-      },
+      comparedTo
+        ? comparisonCard(comparedTo, savedCheck, result, userImageUrl)
+        : {
+            reply_type: 'vibe_check_card',
+            comment: result.comment,
+            fit_silhouette: result.fit_silhouette,
+            color_harmony: result.color_harmony,
+            styling_details: result.styling_details,
+            context_confidence: result.context_confidence,
+            overall_score: result.overall_score,
+            recommendations: result.recommendations,
+            user_image_url: userImageUrl,
+          },
     ];
 
     // Add the product recommendation question
@@ -197,6 +324,7 @@ export async function vibeCheck(state: GraphState): Promise<GraphState> {
         buttons: [
           { text: 'Yes, please!', id: 'product_recommendation_yes' },
           { text: 'No, thanks', id: 'product_recommendation_no' },
+          { text: 'Compare new look', id: 'vibe_check_compare' },
         ],
       },
     ];
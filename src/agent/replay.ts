@@ -0,0 +1,220 @@
+import { Prisma } from '@prisma/client';
+
+import { MemoryCheckpointer } from '../lib/checkpoint';
+import { prisma } from '../lib/prisma';
+import { agentStateSerializer, REPLAY_START_NODE } from './checkpointer';
+import { buildAgentGraph } from './graph';
+import { GraphState } from './state';
+import { TraceBuffer } from './tracing';
+
+/**
+ * @file Replays recorded runs through the current agent graph and compares the outcome with
+ * the original, so prompt and routing changes can be regression-tested against real traffic.
+ *
+ * A replay starts from the checkpoint taken after `ingestMessage`, so the user message is not
+ * stored again, and stops before `sendReply`, so nothing is delivered. The nodes in between do
+ * run for real: nodes that save results (e.g. `vibeCheck`, `recordUserInfo`) write to the
+ * database, so replays belong on a development copy of the data.
+ */
+
+/**
+ * Where replayed model calls get their responses from:
+ * - `recorded`: the raw provider responses stored in the original run's `LLMTrace` rows,
+ *   served per node in call order. Deterministic and free.
+ * - `live`: the configured models, to see how the current prompts behave end to end.
+ */
+export type ReplayMode = 'recorded' | 'live';
+
+export interface ReplayOptions {
+  mode?: ReplayMode;
+  /**
+   * In `recorded` mode, call the live model when the original run has no response left for
+   * a node, e.g. because routing diverged. Without it such a call fails the replay.
+   */
+  liveFallback?: boolean;
+}
+
+/**
+ * The parts of a run that replays are compared on: the nodes it went through and the
+ * routing decisions and reply it ended with.
+ */
+export type ReplayOutcome = {
+  path: string[];
+  intent: GraphState['intent'];
+  subIntent: GraphState['subIntent'] | null;
+  stylingIntent: GraphState['stylingIntent'];
+  generalIntent: GraphState['generalIntent'];
+  missingProfileField: GraphState['missingProfileField'];
+  pending: GraphState['pending'];
+  assistantReply: GraphState['assistantReply'];
+};
+
+export type ReplayDifference = {
+  field: keyof ReplayOutcome;
+  original: unknown;
+  replayed: unknown;
+};
+
+export type ReplayResult = {
+  runId: string;
+  mode: ReplayMode;
+  original: ReplayOutcome;
+  /** `null` when the replay failed, see `error` */
+  replayed: ReplayOutcome | null;
+  differences: ReplayDifference[];
+  llmCalls: { recorded: number; live: number };
+  error?: string;
+};
+
+const REPLAY_STOP_NODE = 'sendReply';
+
+const OUTCOME_FIELDS = [
+  'path',
+  'intent',
+  'subIntent',
+  'stylingIntent',
+  'generalIntent',
+  'missingProfileField',
+  'pending',
+  'assistantReply',
+] as const satisfies readonly (keyof ReplayOutcome)[];
+
+/**
+ * Re-executes a recorded run through `buildAgentGraph` and diffs it against the original.
+ * @param runId - The `GraphRun` to replay.
+ * @param options - Where model responses come from.
+ * @throws {Error} If the run does not exist, has no final state or was recorded without checkpoints.
+ */
+export async function replayRun(runId: string, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const { mode = 'recorded', liveFallback = false } = options;
+
+  const run = await prisma.graphRun.findUnique({
+    where: { id: runId },
+    include: {
+      nodeRuns: {
+        orderBy: [{ startTime: 'asc' }, { attempt: 'asc' }],
+        include: {
+          llmTraces: {
+            where: { rawResponse: { not: Prisma.DbNull } },
+            select: { rawResponse: true },
+            orderBy: { startTime: 'asc' },
+          },
+        },
+      },
+    },
+  });
+  if (!run) {
+    throw new Error(`Run "${runId}" not found.`);
+  }
+  if (!run.finalState) {
+    throw new Error(`Run "${runId}" has no final state to compare against.`);
+  }
+
+  const startCheckpoint = await prisma.graphCheckpoint.findFirst({
+    where: { graphRunId: runId, node: REPLAY_START_NODE },
+    orderBy: { step: 'asc' },
+  });
+  if (!startCheckpoint) {
+    throw new Error(`Run "${runId}" has no "${REPLAY_START_NODE}" checkpoint to replay from.`);
+  }
+
+  const recordedResponses = new Map<string, unknown[]>();
+  for (const nodeRun of run.nodeRuns) {
+    const responses = recordedResponses.get(nodeRun.nodeName) ?? [];
+    responses.push(...nodeRun.llmTraces.map((trace) => trace.rawResponse));
+    recordedResponses.set(nodeRun.nodeName, responses);
+  }
+
+  const original = toOutcome(
+    run.nodeRuns.map((nodeRun) => nodeRun.nodeName),
+    agentStateSerializer.deserialize(run.finalState),
+  );
+
+  const llmCalls = { recorded: 0, live: 0 };
+  const traceBuffer: TraceBuffer = { nodeRuns: [], llmTraces: [] };
+  if (mode === 'recorded') {
+    traceBuffer.replayResponse = (nodeName) => {
+      const response = recordedResponses.get(nodeName)?.shift();
+      if (response !== undefined) {
+        llmCalls.recorded += 1;
+        return response;
+      }
+      if (!liveFallback) {
+        throw new Error(`No recorded LLM response left for node "${nodeName}".`);
+      }
+      return undefined;
+    };
+  }
+
+  // Replays run under the original run ID in a throwaway checkpointer, so nothing is
+  // checkpointed or traced against the original run.
+  const checkpointer = new MemoryCheckpointer<GraphState>();
+  await checkpointer.put({
+    runId,
+    step: startCheckpoint.step,
+    node: startCheckpoint.node,
+    next: startCheckpoint.next,
+    state: agentStateSerializer.deserialize(startCheckpoint.state),
+    createdAt: startCheckpoint.createdAt,
+  });
+
+  const result: ReplayResult = {
+    runId,
+    mode,
+    original,
+    replayed: null,
+    differences: [],
+    llmCalls,
+  };
+
+  try {
+    const finalState = await buildAgentGraph(checkpointer).resume(
+      runId,
+      { interruptBefore: [REPLAY_STOP_NODE] },
+      (state) => ({ ...state, traceBuffer }),
+    );
+    result.replayed = toOutcome(
+      [REPLAY_START_NODE, ...traceBuffer.nodeRuns.map((nodeRun) => nodeRun.nodeName)],
+      finalState,
+    );
+    result.differences = diffOutcomes(original, result.replayed);
+  } catch (err: unknown) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+  llmCalls.live = traceBuffer.llmTraces.length - llmCalls.recorded;
+
+  return result;
+}
+
+/**
+ * Reduces a run to its comparable outcome. Retried nodes are listed once and the path ends
+ * before `sendReply`, which replays never execute.
+ */
+function toOutcome(nodeNames: string[], state: GraphState): ReplayOutcome {
+  const path: string[] = [];
+  for (const nodeName of nodeNames) {
+    if (nodeName === REPLAY_STOP_NODE) {
+      break;
+    }
+    if (path[path.length - 1] !== nodeName) {
+      path.push(nodeName);
+    }
+  }
+
+  return {
+    path,
+    intent: state.intent ?? null,
+    subIntent: state.subIntent ?? null,
+    stylingIntent: state.stylingIntent ?? null,
+    generalIntent: state.generalIntent ?? null,
+    missingProfileField: state.missingProfileField ?? null,
+    pending: state.pending ?? null,
+    assistantReply: state.assistantReply ?? null,
+  };
+}
+
+function diffOutcomes(original: ReplayOutcome, replayed: ReplayOutcome): ReplayDifference[] {
+  return OUTCOME_FIELDS.filter(
+    (field) => JSON.stringify(original[field]) !== JSON.stringify(replayed[field]),
+  ).map((field) => ({ field, original: original[field], replayed: replayed[field] }));
+}
@@ -1,11 +1,18 @@
 import { User, PendingType } from '@prisma/client';
 import { BaseMessage } from '../lib/ai';
-import { MessageInput, QuickReplyButton } from '../lib/chat/types';
-import { ColorWithHex, SeasonalPalette } from '../data/seasonalPalettes';
-import { Celebrity } from '../data/celebrityPalettes'; // Import Celebrity interface
+import type { ChannelName } from '../lib/channels/types';
+import { MessageInput } from '../lib/chat/types';
+import type { Replies } from '../lib/chat/replies';
+import type { SpendPeriod } from '../services/spendService';
 import { TraceBuffer } from './tracing';
 
-export type { QuickReplyButton };
+export type {
+  ProductRecommendation,
+  QuickReplyButton,
+  Replies,
+  Reply,
+  ScoringCategory,
+} from '../lib/chat/replies';
 
 // ============================================================================
 // AGENT STATE DEFINITION
@@ -28,6 +35,15 @@ export interface GraphState {
   /** Message input that initiated the interaction */
   input: MessageInput;
 
+  /** The channel the message arrived on and replies are delivered to */
+  channel: ChannelName;
+
+  /**
+   * Whether the sender proved they own the account: WhatsApp messages are signed by Twilio,
+   * HTTP messages need a user session. Personal-data actions are refused without it.
+   */
+  sessionVerified: boolean;
+
   /** User profile information from the database */
   user: User;
 
@@ -44,7 +60,15 @@ export interface GraphState {
   stylingIntent: StylingIntent | null;
 
   /** Specific sub-intent for Style Studio requests */
-  subIntent?: 'style_studio_occasion' | 'style_studio_vacation' | 'style_studio_general' | undefined;
+  subIntent?:
+    | 'style_studio_occasion'
+    | 'style_studio_vacation'
+    | 'style_studio_general'
+    | 'style_studio_outfit'
+    | undefined;
+
+  /** What Style Studio already knows about the user (palette, wardrobe), one line per lookup */
+  styleContext?: string[] | undefined;
 
   /** Specific sub-intent for general conversation */
   generalIntent: GeneralIntent | null;
@@ -85,8 +109,11 @@ export interface GraphState {
         recommendations: string[];
       } | undefined;
 
-  /** Replies returned in the HTTP response */
-  httpResponse?: Replies | undefined;
+  /** The spend cap the user reached this turn, if any; the turn then only sends the limit reply */
+  spendCapReached?: SpendPeriod | undefined;
+
+  /** Replies as delivered by the channel, after downgrading to its capabilities */
+  deliveredReplies?: Replies | undefined;
 
   /** Fashion quiz state */
   quizQuestions?: any[] | undefined; 
@@ -94,6 +121,38 @@ export interface GraphState {
   currentQuestionIndex?: number | undefined;
 }
 
+/**
+ * State fields that are recomputed on every turn. Everything else in `GraphState` is carried
+ * over from the previous turn's final checkpoint, so new persistent fields need no extra wiring.
+ *
+ * `pending`, `selectedTonality` and `seasonalPaletteToSave` are reloaded by `ingestMessage` from
+ * the latest AI message, which stays the source of truth for them.
+ */
+export const TURN_SCOPED_STATE_KEYS = [
+  'graphRunId',
+  'conversationId',
+  'traceBuffer',
+  'input',
+  'channel',
+  'sessionVerified',
+  'user',
+  'conversationHistoryWithImages',
+  'conversationHistoryTextOnly',
+  'intent',
+  'stylingIntent',
+  'subIntent',
+  'styleContext',
+  'generalIntent',
+  'missingProfileField',
+  'availableServices',
+  'assistantReply',
+  'pending',
+  'selectedTonality',
+  'seasonalPaletteToSave',
+  'deliveredReplies',
+  'spendCapReached',
+] as const satisfies readonly (keyof GraphState)[];
+
 // ============================================================================
 // STATE TYPES
 // ============================================================================
@@ -105,12 +164,15 @@ export interface GraphState {
 export type IntentLabel =
   | 'general'
   | 'vibe_check'
+  | 'vibe_check_compare'
   | 'color_analysis'
   | 'style_studio'
   | 'styling'
   | 'this_or_that'
   | 'skin_lab'
-  | 'fashion_quiz';
+  | 'fashion_quiz'
+  | 'memories'
+  | 'style_progress';
 
 /**
  * Specific styling intents for fashion/styling related requests.
@@ -122,7 +184,7 @@ export type StylingIntent = 'occasion' | 'vacation' | 'pairing' | 'suggest';
  * General conversation intents for non-styling related interactions.
  * These handle basic conversational flows like greetings and menu navigation.
  */
-export type GeneralIntent = 'greeting' | 'menu' | 'chat' | 'tonality';
+export type GeneralIntent = 'greeting' | 'menu' | 'chat' | 'tonality' | 'apology';
 
 /**
  * Available services that can be offered to users.
@@ -140,89 +202,6 @@ export type AvailableService =
   | 'style_studio_general'
   | 'this_or_that'
   | 'skin_lab';
-/**
- * Product recommendation structure for displaying products from Broadway catalog.
- */
-export interface ProductRecommendation {
-  name: string;
-  brand: string;
-  imageUrl: string;
-  productLink: string;
-  reason?: string;
-}
-export interface ScoringCategory {
-  score: number;
-  explanation: string;
-}
-
-/**
- * Standard reply structure for agent responses.
- * Defines the format for all message types the agent can send back to users.
- */
-type Reply =
-  | {
-      reply_type: 'text';
-      reply_text: string;
-    }
-  | {
-      reply_type: 'quick_reply';
-      reply_text: string;
-      buttons: QuickReplyButton[];
-    }
-  | {
-      reply_type: 'list_picker';
-      reply_text: string;
-      buttons: QuickReplyButton[];
-    }
-  | {
-      reply_type: 'image';
-      media_url: string;
-      reply_text?: string;
-    }
-  | {
-      reply_type: 'color_analysis_image_upload_request';
-      reply_text: string;
-    }
-  | {
-      reply_type: 'vibe_check_image_upload_request';
-      reply_text: string;
-    }
-  | {
-      reply_type: 'product_card';
-      products: ProductRecommendation[];
-      reply_text?: string;
-    }
-  | {
-      reply_type: 'pdf';
-      media_url: string;
-      reply_text?: string;
-    }
-  | {
-      reply_type: 'color_analysis_card';
-      palette_name: SeasonalPalette;
-      description: string;
-      top_colors: ColorWithHex[];
-      two_color_combos: ColorWithHex[][];
-      user_image_url: string | null;
-      color_twin: Celebrity[];
-    }
-  | {
-      reply_type: 'vibe_check_card';
-      comment: string;
-      fit_silhouette: ScoringCategory;
-      color_harmony: ScoringCategory;
-      styling_details: ScoringCategory;
-      context_confidence: ScoringCategory;
-      overall_score: number;
-      recommendations: string[];
-      user_image_url: string | null;
-    };
-
-/**
- * Array of reply structures that define a complete agent response.
- * Multiple replies allow for complex interactions like image + text + quick replies.
- */
-export type Replies = Reply[];
 
 /**
  * Missing profile fields that need to be collected from the user.
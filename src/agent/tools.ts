@@ -1,14 +1,15 @@
-import { WardrobeItem, WardrobeItemCategory, ProductCategory } from '@prisma/client';
+import { Prisma, ProductCategory, WardrobeItem, WardrobeItemCategory } from '@prisma/client';
 import { z } from 'zod';
 
-import { Tool } from '../lib/ai';
-import { OpenAIEmbeddings } from '../lib/ai/openai/embeddings';
+import { getEmbeddings, getNodeModels, Tool } from '../lib/ai';
+import { ProductIntentGenerator } from '../lib/ai/productIntentGenerator';
 import { prisma } from '../lib/prisma';
+import { hasEmbeddings, nearestNeighbors } from '../lib/vectorSearch';
+import { OutfitService, WEATHER_OPTIONS } from '../services/outfitService';
+import { ProductSearchService } from '../services/productSearchService';
 import { BadRequestError, InternalServerError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { ProductIntentGenerator } from '../lib/ai/productIntentGenerator';
-import { ProductSearchService } from '../services/productSearchService';
-import { ChatGroq } from '../lib/ai/groq/chat_models';
+import { TraceContext } from './tracing';
 
 // ============================================================================
 // PRODUCT TYPES
@@ -31,7 +32,22 @@ type ProductRow = {
   searchDoc: string;
 };
 
-type ProductSemanticRow = ProductRow & { distance: number };
+const PRODUCT_COLUMNS = [
+  'id',
+  'handleId',
+  'name',
+  'brand',
+  'category',
+  'generalTag',
+  'style',
+  'fit',
+  'colors',
+  'patterns',
+  'occasions',
+  'imageUrl',
+  'productLink',
+  'searchDoc',
+] as const satisfies readonly (keyof ProductRow)[];
 
 type WardrobeRow = Pick<
   WardrobeItem,
@@ -48,7 +64,20 @@ type WardrobeRow = Pick<
   | 'searchDoc'
 >;
 
-type SemanticResultRow = WardrobeRow & { distance: number };
+const WARDROBE_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'category',
+  'type',
+  'subtype',
+  'mainColor',
+  'secondaryColor',
+  'attributes',
+  'keywords',
+  'searchDoc',
+] as const satisfies readonly (keyof WardrobeRow)[];
+
 type KeywordResultRow = WardrobeRow & { keyword_matches: number | null };
 type TextResultRow = WardrobeRow;
 
@@ -84,73 +113,54 @@ export function searchWardrobe(userId: string): Tool {
     description:
       "Searches the user's digital wardrobe using hybrid search combining semantic similarity, keyword matching, and filtering. Ideal for finding specific items for styling suggestions, outfit building, or wardrobe analysis. Returns detailed item information including colors, attributes, and style characteristics.",
     schema: searchWardrobeSchema,
-    func: async ({ query, filters, limit }: z.infer<typeof searchWardrobeSchema>) => {
+    func: async ({ query, filters, limit }: z.infer<typeof searchWardrobeSchema>, trace) => {
       if (query.trim() === '') {
         throw new BadRequestError('Search query is required');
       }
 
       try {
-        const model = new OpenAIEmbeddings({
-          model: 'text-embedding-3-small',
-        });
+        const model = getEmbeddings();
 
-        const baseConditions = [`"userId" = $1`];
-        const params: string[] = [userId];
+        const userCondition = Prisma.sql`"userId" = ${userId}`;
+        const baseConditions = [userCondition];
 
         if (filters?.category) {
-          params.push(filters.category);
-          baseConditions.push(`"category"::text = $${params.length}`);
+          baseConditions.push(Prisma.sql`"category"::text = ${filters.category}`);
         }
 
         if (filters?.type) {
-          params.push(filters.type.toLowerCase());
-          baseConditions.push(`LOWER("type") = $${params.length}`);
+          baseConditions.push(Prisma.sql`LOWER("type") = ${filters.type.toLowerCase()}`);
         }
 
         if (filters?.color) {
-          params.push(filters.color.toLowerCase());
+          const color = filters.color.toLowerCase();
           baseConditions.push(
-            `(LOWER("mainColor") = $${params.length} OR LOWER("secondaryColor") = $${params.length})`,
+            Prisma.sql`(LOWER("mainColor") = ${color} OR LOWER("secondaryColor") = ${color})`,
           );
         }
 
-        const baseWhere = baseConditions.join(' AND ');
+        const baseWhere = Prisma.join(baseConditions, ' AND ');
         const resultsMap = new Map<
   string,
   { item: WardrobeRow; score: number; sources: string[] }
 >();
 
         // 1. Semantic Search (Vector Similarity)
-        const embeddingCount = await prisma.$queryRawUnsafe<Array<{ count: bigint }>>(
-          'SELECT COUNT(*) as count FROM "WardrobeItem" WHERE "userId" = $1 AND "embedding" IS NOT NULL',
-          userId,
-        );
-        const embeddingStats = embeddingCount[0];
-        if (embeddingStats && Number(embeddingStats.count) > 0) {
-          const embedded = await model.embedQuery(query);
-          const vector = JSON.stringify(embedded);
-
-          let semanticQuery = `
-            SELECT id, name, description, category, type, subtype, "mainColor", "secondaryColor", attributes, keywords, "searchDoc",
-                   ("embedding" <=> $${params.length + 1}::vector) as distance
-            FROM "WardrobeItem"
-            WHERE "embedding" IS NOT NULL AND ${baseWhere}
-            ORDER BY "embedding" <=> $${params.length + 1}::vector
-            LIMIT ${Math.min(limit * 2, 40)}
-          `;
-
-          const semanticResults = await prisma.$queryRawUnsafe<SemanticResultRow[]>(
-            semanticQuery,
-            ...params,
-            vector,
-          );
+        if (await hasEmbeddings('WardrobeItem', [userCondition])) {
+          const embedded = await model.embedQuery(query, trace);
+          const semanticResults = await nearestNeighbors<WardrobeRow>({
+            table: 'WardrobeItem',
+            columns: WARDROBE_COLUMNS,
+            embedding: embedded,
+            where: baseConditions,
+            limit: Math.min(limit * 2, 40),
+          });
 
           for (const item of semanticResults) {
-            const { distance, ...itemData } = item;
-            const score = Math.max(0, 1 - distance);
+            const { distance, similarity, ...itemData } = item;
             resultsMap.set(item.id, {
               item: itemData,
-              score: score * 0.6, // Weight semantic search at 60%
+              score: similarity * 0.6, // Weight semantic search at 60%
               sources: ['semantic'],
             });
           }
@@ -158,21 +168,16 @@ export function searchWardrobe(userId: string): Tool {
 
         // 2. Keyword Search (Array overlap and text search)
         if (filters?.keywords && filters.keywords.length > 0) {
-          const keywordQuery = `
+          const keywords = filters.keywords.map((k) => k.toLowerCase());
+          const keywordResults = await prisma.$queryRaw<KeywordResultRow[]>`
             SELECT id, name, description, category, type, subtype, "mainColor", "secondaryColor", attributes, keywords, "searchDoc",
-                   array_length(keywords & $${params.length + 1}, 1) as keyword_matches
+                   cardinality(ARRAY(SELECT unnest(keywords) INTERSECT SELECT unnest(${keywords}::text[]))) as keyword_matches
             FROM "WardrobeItem"
-            WHERE ${baseWhere} AND keywords && $${params.length + 1}
-            ORDER BY array_length(keywords & $${params.length + 1}, 1) DESC
+            WHERE ${baseWhere} AND keywords && ${keywords}::text[]
+            ORDER BY keyword_matches DESC
             LIMIT ${Math.min(limit * 2, 40)}
           `;
 
-          const keywordResults = await prisma.$queryRawUnsafe<KeywordResultRow[]>(
-            keywordQuery,
-            ...params,
-            filters.keywords.map((k) => k.toLowerCase()),
-          );
-
           for (const item of keywordResults) {
             const { keyword_matches, ...itemData } = item;
             const score = Math.min(
@@ -200,22 +205,17 @@ export function searchWardrobe(userId: string): Tool {
           .split(/\s+/)
           .filter((term) => term.length > 2);
         if (searchTerms.length > 0) {
-          const textQuery = `
+          const textConditions = searchTerms.map((term) => {
+            const pattern = `%${term}%`;
+            return Prisma.sql`(LOWER(name) LIKE ${pattern} OR LOWER(description) LIKE ${pattern} OR LOWER("searchDoc") LIKE ${pattern})`;
+          });
+          const textResults = await prisma.$queryRaw<TextResultRow[]>`
             SELECT id, name, description, category, type, subtype, "mainColor", "secondaryColor", attributes, keywords, "searchDoc"
             FROM "WardrobeItem"
-            WHERE ${baseWhere} AND (
-              ${searchTerms.map((_, i) => `(LOWER(name) LIKE $${params.length + i + 1} OR LOWER(description) LIKE $${params.length + i + 1} OR LOWER("searchDoc") LIKE $${params.length + i + 1})`).join(' OR ')}
-            )
+            WHERE ${baseWhere} AND (${Prisma.join(textConditions, ' OR ')})
             LIMIT ${Math.min(limit * 2, 40)}
           `;
 
-          const textParams = searchTerms.map((term) => `%${term}%`);
-          const textResults = await prisma.$queryRawUnsafe<TextResultRow[]>(
-            textQuery,
-            ...params,
-            ...textParams,
-          );
-
           for (const item of textResults) {
             const nameMatches = searchTerms.filter(
               (term) =>
@@ -275,6 +275,117 @@ export function searchWardrobe(userId: string): Tool {
   });
 }
 
+/**
+ * Dynamic tool for assembling complete outfits from the user's own wardrobe.
+ * Picks compatible items per category for an occasion and weather and scores their color
+ * harmony against the user's saved color analysis palette.
+ */
+export function buildOutfits(userId: string): Tool {
+  const buildOutfitsSchema = z.object({
+    occasion: z
+      .string()
+      .optional()
+      .describe("The occasion the outfit is for (e.g., 'office', 'wedding', 'weekend brunch')."),
+    weather: z
+      .enum(WEATHER_OPTIONS)
+      .optional()
+      .describe('The expected weather. Cool, cold and rainy weather adds an outer layer.'),
+    limit: z.number().min(1).max(5).default(3).describe('Number of outfits to return'),
+  });
+
+  return new Tool({
+    name: 'buildOutfits',
+    description:
+      "Builds complete outfits (top + bottom or one-piece, shoes, and outerwear, bag and accessory when suitable) from items in the user's own wardrobe for an occasion and weather. Each outfit includes the wardrobe item IDs, a color harmony score out of 10 based on the user's color palette, and notes explaining the score. Also reports wardrobe categories that are missing to complete a look.",
+    schema: buildOutfitsSchema,
+    func: async ({ occasion, weather, limit }: z.infer<typeof buildOutfitsSchema>) => {
+      try {
+        const result = await new OutfitService().buildOutfits(userId, { occasion, weather, limit });
+        if (result.outfits.length === 0) {
+          return `Not enough items in the user's wardrobe to build an outfit. Missing: ${result.missing.join(', ') || 'items'}.`;
+        }
+        return result;
+      } catch (err: unknown) {
+        logger.error(
+          { userId, occasion, weather, err: (err as Error)?.message },
+          'Failed to build outfits',
+        );
+        throw new InternalServerError('Failed to build outfits', { cause: err });
+      }
+    },
+  });
+}
+
+/**
+ * Dynamic tool for saving an outfit the user liked, so it can be found again later.
+ */
+export function saveOutfit(userId: string): Tool {
+  const saveOutfitSchema = z.object({
+    itemIds: z
+      .array(z.string())
+      .min(1)
+      .describe('The wardrobe item IDs of the outfit, exactly as returned by buildOutfits.'),
+    name: z
+      .string()
+      .optional()
+      .describe("A short name for the outfit (e.g., 'Monday office look')."),
+    occasion: z.string().optional().describe('The occasion the outfit is for.'),
+    weather: z.enum(WEATHER_OPTIONS).optional().describe('The weather the outfit is for.'),
+  });
+
+  return new Tool({
+    name: 'saveOutfit',
+    description:
+      "Saves an outfit made of items from the user's wardrobe. Only call this when the user asks to save or keep an outfit.",
+    schema: saveOutfitSchema,
+    func: async ({ itemIds, name, occasion, weather }: z.infer<typeof saveOutfitSchema>) => {
+      try {
+        const outfit = await new OutfitService().saveOutfit(userId, {
+          itemIds,
+          name,
+          occasion,
+          weather,
+        });
+        return { id: outfit.id, name: outfit.name, harmonyScore: outfit.harmonyScore };
+      } catch (err: unknown) {
+        if (err instanceof BadRequestError) {
+          return `Could not save the outfit: ${err.message}`;
+        }
+        logger.error({ userId, itemIds, err: (err as Error)?.message }, 'Failed to save outfit');
+        throw new InternalServerError('Failed to save outfit', { cause: err });
+      }
+    },
+  });
+}
+
+/**
+ * Dynamic tool for listing the outfits the user saved earlier, newest first.
+ */
+export function listSavedOutfits(userId: string): Tool {
+  const listSavedOutfitsSchema = z.object({
+    limit: z.number().min(1).max(10).default(5).describe('Number of saved outfits to return'),
+  });
+
+  return new Tool({
+    name: 'listSavedOutfits',
+    description:
+      'Lists the outfits the user saved earlier, newest first, with their items, occasion, weather and color harmony score. Use when the user asks about their saved outfits or looks.',
+    schema: listSavedOutfitsSchema,
+    func: async ({ limit }: z.infer<typeof listSavedOutfitsSchema>) => {
+      try {
+        const outfits = await new OutfitService().listSavedOutfits(userId, limit);
+        if (outfits.length === 0) {
+          return 'The user has no saved outfits yet.';
+        }
+        return outfits;
+      } catch (err: unknown) {
+        logger.error({ userId, err: (err as Error)?.message }, 'Failed to list saved outfits');
+        throw new InternalServerError('Failed to list saved outfits', { cause: err });
+      }
+    },
+  });
+}
+
 /**
  * Dynamic tool for retrieving user's latest color analysis results.
  * Provides color palette information, undertone analysis, and color recommendations.
@@ -349,32 +460,26 @@ export function fetchRelevantMemories(userId: string): Tool {
     description:
       "Searches the user's fashion memories to find relevant personal information for styling advice. Retrieves stored facts about their sizes, style preferences, color likes/dislikes, budget constraints, fabric sensitivities, occasion needs, fit preferences, and other styling-relevant details. Essential for providing personalized recommendations.",
     schema: fetchRelevantMemoriesSchema,
-    func: async ({ query, limit }: z.infer<typeof fetchRelevantMemoriesSchema>) => {
+    func: async ({ query, limit }: z.infer<typeof fetchRelevantMemoriesSchema>, trace) => {
       if (query.trim() === '') {
         throw new BadRequestError('Query is required');
       }
 
       try {
-        const embeddingCount = await prisma.$queryRawUnsafe<[{ count: bigint }]>(
-          'SELECT COUNT(*) as count FROM "Memory" WHERE "userId" = $1 AND "embedding" IS NOT NULL',
-          userId,
-        );
-
-        if (Number(embeddingCount[0].count) === 0) {
+        const userCondition = Prisma.sql`"userId" = ${userId}`;
+        if (!(await hasEmbeddings('Memory', [userCondition]))) {
           return "No memories found for this user. The user hasn't shared any personal preferences or information yet.";
         }
 
-        const model = new OpenAIEmbeddings({ model: 'text-embedding-3-small' });
-        const embeddedQuery = await model.embedQuery(query);
-        const vector = JSON.stringify(embeddedQuery);
-
-        const memories: { id: string; memory: string; createdAt: Date; similarity: number }[] =
-          await prisma.$queryRawUnsafe(
-            'SELECT id, memory, "createdAt", (1 - ("embedding" <=> $1::vector)) as similarity FROM "Memory" WHERE "embedding" IS NOT NULL AND "userId" = $2 ORDER BY "embedding" <=> $1::vector LIMIT $3',
-            vector,
-            userId,
-            limit,
-          );
+        const model = getEmbeddings();
+        const embeddedQuery = await model.embedQuery(query, trace);
+        const memories = await nearestNeighbors<{ id: string; memory: string; createdAt: Date }>({
+          table: 'Memory',
+          columns: ['id', 'memory', 'createdAt'],
+          embedding: embeddedQuery,
+          where: [userCondition],
+          limit,
+        });
 
         if (memories.length === 0) {
           return 'No relevant memories found for this query.';
@@ -448,17 +553,18 @@ export function searchProducts(): Tool {
     description:
       'Searches the Broadway product catalog to find products matching the query. Uses structured search with filters for style, fit, color, occasion, and category. Returns product recommendations with name, brand, image, and purchase link. Use this to recommend specific products from our catalog during styling advice. CRITICAL: For accessories (sunglasses, watches, jewelry, belts, scarves), always use category "JEWELLERY_ACCESSORIES", never use "ACCESSORIES".',
     schema: searchProductsSchema,
-    func: async ({ query, filters = {}, limit = 5 }: z.infer<typeof searchProductsSchema>) => {
+    func: async (
+      { query, filters = {}, limit = 5 }: z.infer<typeof searchProductsSchema>,
+      trace,
+    ) => {
       if (query.trim() === '') {
         throw new BadRequestError('Search query is required');
       }
 
       try {
         // NEW: Use structured search approach instead of vector similarity
-        const intentGenerator = new ProductIntentGenerator(new ChatGroq({
-          model: 'llama-3.3-70b-versatile',
-          temperature: 0.1,
-        }));
+        const [intentModel] = getNodeModels('searchProducts');
+        const intentGenerator = new ProductIntentGenerator(intentModel);
 
         // 1. Generate structured search intent from user query
         const searchIntent = await intentGenerator.generateIntent(query);
@@ -507,7 +613,7 @@ export function searchProducts(): Tool {
 
         // Fallback to original vector-based approach if new method fails
         logger.warn('Falling back to original vector-based search method');
-        return await fallbackToOriginalSearchMethod(query, filters, limit);
+        return await fallbackToOriginalSearchMethod(query, filters, limit, trace);
       }
     },
   });
@@ -517,98 +623,76 @@ export function searchProducts(): Tool {
  * Fallback to original vector-based search method (for compatibility)
  * This preserves the original functionality while we transition to structured search
  */
-async function fallbackToOriginalSearchMethod(query: string, filters: any, limit: number) {
+async function fallbackToOriginalSearchMethod(
+  query: string,
+  filters: any,
+  limit: number,
+  trace: TraceContext,
+) {
   try {
-    const model = new OpenAIEmbeddings({
-      model: 'text-embedding-3-small',
-    });
+    const model = getEmbeddings();
 
     // Build filter conditions (original approach)
-    const conditions: string[] = ['"isActive" = true'];
-    const params: (string | number)[] = [];
-    let paramIndex = 1;
+    const activeCondition = Prisma.sql`"isActive" = true`;
+    const conditions = [activeCondition];
 
     if (filters?.category) {
-      params.push(filters.category);
-      conditions.push(`"category"::text = $${paramIndex++}`);
+      conditions.push(Prisma.sql`"category"::text = ${filters.category}`);
     }
 
     if (filters?.style) {
-      params.push(`%${filters.style.toLowerCase()}%`);
-      conditions.push(`LOWER("style") LIKE $${paramIndex++}`);
+      conditions.push(Prisma.sql`LOWER("style") LIKE ${`%${filters.style.toLowerCase()}%`}`);
     }
 
     if (filters?.fit) {
-      params.push(`%${filters.fit.toLowerCase()}%`);
-      conditions.push(`LOWER("fit") LIKE $${paramIndex++}`);
+      conditions.push(Prisma.sql`LOWER("fit") LIKE ${`%${filters.fit.toLowerCase()}%`}`);
     }
 
     if (filters?.color) {
-      params.push(`%${filters.color.toLowerCase()}%`);
-      conditions.push(`
+      conditions.push(Prisma.sql`
         EXISTS (
           SELECT 1 FROM unnest("colors") AS col
-          WHERE LOWER(col::text) LIKE $${paramIndex}
+          WHERE LOWER(col::text) LIKE ${`%${filters.color.toLowerCase()}%`}
         )
       `);
-      paramIndex++;
     }
 
     if (filters?.occasion) {
       const occasionLower = filters.occasion.toLowerCase();
-      params.push(occasionLower);
-      conditions.push(`
+      conditions.push(Prisma.sql`
         EXISTS (
           SELECT 1 FROM unnest("occasions") AS occ
-          WHERE $${paramIndex} LIKE '%' || LOWER(occ::text) || '%'
+          WHERE ${occasionLower} LIKE '%' || LOWER(occ::text) || '%'
         )
       `);
-      paramIndex++;
     }
 
     if (filters?.brand) {
-      params.push(filters.brand.toLowerCase());
-      conditions.push(`LOWER("brand") = $${paramIndex++}`);
+      conditions.push(Prisma.sql`LOWER("brand") = ${filters.brand.toLowerCase()}`);
     }
 
-    const whereClause = conditions.join(' AND ');
+    const whereClause = Prisma.join(conditions, ' AND ');
     const resultsMap = new Map<
       string,
       { item: ProductRow; score: number; sources: string[] }
     >();
 
     // Original vector-based search
-    const embeddingCount = await prisma.$queryRawUnsafe<[{ count: bigint }]>(
-      'SELECT COUNT(*) as count FROM "Product" WHERE "embedding" IS NOT NULL AND "isActive" = true',
-    );
-
-    if (Number(embeddingCount[0].count) > 0) {
-      const embedded = await model.embedQuery(query);
-      const vector = JSON.stringify(embedded);
-
-      const semanticQuery = `
-        SELECT id, "handleId", name, brand, category, "generalTag",
-               style, fit, colors, patterns, occasions,
-               "imageUrl", "productLink", "searchDoc",
-               ("embedding" <=> $${paramIndex}::vector) as distance
-        FROM "Product"
-        WHERE "embedding" IS NOT NULL AND ${whereClause}
-        ORDER BY "embedding" <=> $${paramIndex}::vector
-        LIMIT ${Math.min(limit * 3, 30)}
-      `;
-
-      const semanticResults = await prisma.$queryRawUnsafe<ProductSemanticRow[]>(
-        semanticQuery,
-        ...params,
-        vector,
-      );
+    if (await hasEmbeddings('Product', [activeCondition])) {
+      const embedded = await model.embedQuery(query, trace);
+      const semanticResults = await nearestNeighbors<ProductRow>({
+        table: 'Product',
+        columns: PRODUCT_COLUMNS,
+        embedding: embedded,
+        where: conditions,
+        limit: Math.min(limit * 3, 30),
+      });
 
       for (const item of semanticResults) {
-        const { distance, ...itemData } = item;
-        const score = Math.max(0, 1 - distance);
+        const { distance, similarity, ...itemData } = item;
         resultsMap.set(item.id, {
           item: itemData,
-          score: score * 0.7,
+          score: similarity * 0.7,
           sources: ['semantic'],
         });
       }
@@ -621,27 +705,20 @@ async function fallbackToOriginalSearchMethod(query: string, filters: any, limit
       .filter((term) => term.length > 2);
 
     if (searchTerms.length > 0) {
-      const textConditions = searchTerms.map(
-        (_, i) =>
-          `(LOWER(name) LIKE $${paramIndex + i} OR LOWER("searchDoc") LIKE $${paramIndex + i} OR LOWER(brand) LIKE $${paramIndex + i})`,
-      );
-      const textParams = searchTerms.map((term) => `%${term}%`);
+      const textConditions = searchTerms.map((term) => {
+        const pattern = `%${term}%`;
+        return Prisma.sql`(LOWER(name) LIKE ${pattern} OR LOWER("searchDoc") LIKE ${pattern} OR LOWER(brand) LIKE ${pattern})`;
+      });
 
-      const textQuery = `
+      const textResults = await prisma.$queryRaw<ProductRow[]>`
         SELECT id, "handleId", name, brand, category, "generalTag",
                style, fit, colors, patterns, occasions,
                "imageUrl", "productLink", "searchDoc"
         FROM "Product"
-        WHERE ${whereClause} AND (${textConditions.join(' OR ')})
+        WHERE ${whereClause} AND (${Prisma.join(textConditions, ' OR ')})
         LIMIT ${Math.min(limit * 2, 20)}
       `;
 
-      const textResults = await prisma.$queryRawUnsafe<ProductRow[]>(
-        textQuery,
-        ...params,
-        ...textParams,
-      );
-
       for (const item of textResults) {
         const nameMatches = searchTerms.filter(
           (term) =>
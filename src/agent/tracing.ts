@@ -12,4 +12,48 @@ export type BufferedLlmTrace = Omit<Prisma.LLMTraceCreateInput, 'nodeRun'> & {
 export interface TraceBuffer {
   nodeRuns: BufferedNodeRun[];
   llmTraces: BufferedLlmTrace[];
+  /**
+   * Optional callback receiving text deltas as models generate them. When set,
+   * chat models stream their completions instead of waiting for the full response.
+   */
+  onToken?: (nodeName: string, delta: string) => void;
+  /**
+   * Optional source of recorded provider responses, used when replaying a run. When it
+   * returns a response, chat models process it instead of calling the provider; returning
+   * `undefined` makes them call the provider as usual.
+   */
+  replayResponse?: (nodeName: string) => unknown;
+  /**
+   * Set by the graph on the copy each node attempt receives: the attempt's `NodeRun`, which
+   * its model calls are traced against, and a signal that fires when the attempt times out
+   * or the run is aborted, which cancels those calls.
+   */
+  nodeRunId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * The node run a call is made on behalf of, for calls traced outside a chat model's `run`,
+ * e.g. embeddings requested by a tool.
+ */
+export interface TraceContext {
+  traceBuffer: TraceBuffer;
+  nodeName: string;
+}
+
+/**
+ * Returns the `NodeRun` a model call belongs to: the attempt that made it, or for calls
+ * made outside the graph, the node's open `NodeRun`.
+ *
+ * @throws {Error} If there is no such `NodeRun`
+ */
+export function getActiveNodeRun(traceBuffer: TraceBuffer, nodeName: string): BufferedNodeRun {
+  const { nodeRunId } = traceBuffer;
+  const nodeRun = nodeRunId
+    ? traceBuffer.nodeRuns.find((ne) => ne.id === nodeRunId)
+    : traceBuffer.nodeRuns.find((ne) => ne.nodeName === nodeName && !ne.endTime);
+  if (!nodeRun) {
+    throw new Error(`Could not find an active node execution for nodeName: ${nodeName}`);
+  }
+  return nodeRun;
 }
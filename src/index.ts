@@ -1,19 +1,50 @@
 import 'dotenv/config';
 
+import { Admins } from '@prisma/client';
 import cors from 'cors';
-import { randomUUID } from 'crypto';
 import express, { NextFunction, Request, Response } from 'express';
 import path from 'path';
 
-import { initializeAgent, runAgentForHttp } from './agent';
-import { ChatRequest, chatRequestToMessageInput } from './lib/chat/types';
+import {
+  abortAgentRun,
+  findStaleRuns,
+  initializeAgent,
+  resumeAgentRun,
+  runAgent,
+  runAgentForHttp,
+} from './agent';
+import { getChannel, ReceivedMessage } from './lib/channels';
+import { openEventStream, writeStreamEvent } from './lib/chat/stream';
+import { ChatRequest } from './lib/chat/types';
 import { connectPrisma } from './lib/prisma';
-import { connectRedis } from './lib/redis';
+import { connectRedis, redis } from './lib/redis';
+import { getTwilioClient, recordMessageStatus } from './lib/twilio';
+import {
+  authenticateChatUser,
+  getBearerToken,
+  getPublicOrigin,
+  requireAdmin,
+  requireAppClient,
+  requireUserSession,
+  validateTwilioRequest,
+} from './middleware/auth';
 import { errorHandler } from './middleware/errors';
-import { logger } from './utils/logger';
-import { staticUploadsMount } from './utils/paths';
+import { AccountService } from './services/accountService';
+import { MemoryService } from './services/memoryService';
 import { ProductSearchService } from './services/productSearchService';
+import { ShareService } from './services/shareService';
+import { SpendService } from './services/spendService';
+import { TaskService } from './services/taskService';
+import { TraceService } from './services/traceService';
+import { UserAuthService } from './services/userAuthService';
+import { VibeCheckService } from './services/vibeCheckService';
+import { WardrobeService } from './services/wardrobeService';
 import { ProductSearchIntentSchema } from './types/productSearch';
+import { MESSAGE_TTL_SECONDS } from './utils/constants';
+import { BadRequestError, createErrorResponse, logError, NotFoundError } from './utils/errors';
+import { logger } from './utils/logger';
+import { staticUploadsMount } from './utils/paths';
+import { renderShareNotFoundPage, renderSharePage } from './utils/sharePage';
 
 const app = express();
 app.set('trust proxy', true);
@@ -98,17 +129,576 @@ app.post('/api/products/search', async (req: Request, res: Response, next: NextF
   }
 });
 
+/**
+ * User sign-in for the `/api/users/:userId` endpoints. WhatsApp users get a one-time login link
+ * sent to their number and exchange it for a session token; app users get theirs from the app's
+ * backend after the app signed them in. The endpoints require it as
+ * `Authorization: Bearer <sessionToken>`.
+ *
+ * - POST   /api/auth/login-link   (body `{ userId }`; always 202, even for unknown users)
+ * - POST   /api/auth/session      (body `{ token }`; returns `{ sessionToken, userId, expiresAt }`)
+ * - POST   /api/auth/app-session  (app backend only, bearer `APP_AUTH_SECRET`; body `{ userId }`)
+ * - DELETE /api/auth/session      (signs out the bearer session)
+ */
+const userAuthService = new UserAuthService();
+
+app.post('/api/auth/login-link', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await userAuthService.requestLoginLink(req.body);
+    return res.sendStatus(202);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.post('/api/auth/session', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = await userAuthService.createSession(req.body);
+    return res.status(201).json(session);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.post(
+  '/api/auth/app-session',
+  requireAppClient,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await userAuthService.createAppSession(req.body);
+      return res.status(201).json(session);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete('/api/auth/session', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sessionToken = getBearerToken(req);
+    if (sessionToken) {
+      await userAuthService.revokeSession(sessionToken);
+    }
+    return res.sendStatus(204);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+/**
+ * A user's own data endpoints require a session of that user (see `requireUserSession`).
+ */
+app.use('/api/users/:userId', requireUserSession);
+
+/**
+ * Wardrobe ("My Closet") endpoints. `:userId` is the same user identifier the chat API uses.
+ *
+ * - GET    /api/users/:userId/wardrobe?category=TOP&color=navy&type=shirt&limit=50&cursor=...
+ * - GET    /api/users/:userId/wardrobe/:itemId
+ * - POST   /api/users/:userId/wardrobe            (manual add, optional `image: { url, contentType }`)
+ * - PATCH  /api/users/:userId/wardrobe/:itemId    (fix attributes; re-embeds the item)
+ * - DELETE /api/users/:userId/wardrobe/:itemId
+ */
+const wardrobeService = new WardrobeService();
+type WardrobeItemParams = { userId: string; itemId: string };
+
+app.get(
+  '/api/users/:userId/wardrobe',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await wardrobeService.listItems(req.params.userId, req.query);
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get(
+  '/api/users/:userId/wardrobe/:itemId',
+  async (req: Request<WardrobeItemParams>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, itemId } = req.params;
+      const item = await wardrobeService.getItem(userId, itemId);
+      return res.status(200).json(item);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.post(
+  '/api/users/:userId/wardrobe',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const item = await wardrobeService.createItem(req.params.userId, req.body);
+      return res.status(201).json(item);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.patch(
+  '/api/users/:userId/wardrobe/:itemId',
+  async (req: Request<WardrobeItemParams>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, itemId } = req.params;
+      const item = await wardrobeService.updateItem(userId, itemId, req.body);
+      return res.status(200).json(item);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete(
+  '/api/users/:userId/wardrobe/:itemId',
+  async (req: Request<WardrobeItemParams>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, itemId } = req.params;
+      await wardrobeService.deleteItem(userId, itemId);
+      return res.sendStatus(204);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Memory endpoints: what the assistant remembers about a user, extracted from their chats.
+ *
+ * - GET    /api/users/:userId/memories?limit=50&cursor=...
+ * - GET    /api/users/:userId/memories/export     (all memories as a JSON download)
+ * - PATCH  /api/users/:userId/memories/:memoryId  (correct the text; re-embeds the memory)
+ * - DELETE /api/users/:userId/memories/:memoryId
+ * - DELETE /api/users/:userId/memories            (forget everything)
+ */
+const memoryService = new MemoryService();
+type MemoryParams = { userId: string; memoryId: string };
+
+app.get(
+  '/api/users/:userId/memories',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await memoryService.listMemories(req.params.userId, req.query);
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get(
+  '/api/users/:userId/memories/export',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await memoryService.exportMemories(req.params.userId);
+      res.attachment('memories.json');
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.patch(
+  '/api/users/:userId/memories/:memoryId',
+  async (req: Request<MemoryParams>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, memoryId } = req.params;
+      const memory = await memoryService.updateMemory(userId, memoryId, req.body);
+      return res.status(200).json(memory);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete(
+  '/api/users/:userId/memories/:memoryId',
+  async (req: Request<MemoryParams>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, memoryId } = req.params;
+      await memoryService.deleteMemory(userId, memoryId);
+      return res.sendStatus(204);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete(
+  '/api/users/:userId/memories',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const deleted = await memoryService.deleteAllMemories(req.params.userId);
+      return res.status(200).json({ deleted });
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Vibe check history endpoints for charting a user's style progress.
+ *
+ * - GET /api/users/:userId/vibe-checks?limit=20&cursor=...
+ * - GET /api/users/:userId/vibe-checks/progress?from=...&to=...&bucket=week
+ *       (score series, per-dimension trends and recommendation adoption)
+ */
+const vibeCheckService = new VibeCheckService();
+
+app.get(
+  '/api/users/:userId/vibe-checks',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await vibeCheckService.listHistory(req.params.userId, req.query);
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get(
+  '/api/users/:userId/vibe-checks/progress',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const progress = await vibeCheckService.getProgress(req.params.userId, req.query);
+      return res.status(200).json(progress);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Account data endpoints. Each request is recorded as a `DataRequest` audit row.
+ *
+ * - GET    /api/users/:userId/export   (all records and images as a .tar.gz download)
+ * - DELETE /api/users/:userId          (body `{ "confirm": true }`; deletes rows, Redis keys and media)
+ */
+const accountService = new AccountService();
+
+app.get(
+  '/api/users/:userId/export',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const { filename, archive } = await accountService.exportAccount(req.params.userId);
+      res.attachment(filename);
+      return res.status(200).type('application/gzip').send(archive);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete(
+  '/api/users/:userId',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await accountService.deleteAccount(req.params.userId, req.body);
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Share link endpoints. A share stores a rendered vibe check or color analysis card behind a
+ * public short link that expires (1-30 days, default 7) and can be revoked.
+ *
+ * - POST   /api/users/:userId/shares             (body `{ type, resultId, expiresInDays? }`)
+ * - GET    /api/users/:userId/shares?limit=20&cursor=...   (includes view counts)
+ * - DELETE /api/users/:userId/shares/:shareId    (revokes the link)
+ * - GET    /s/:slug                              (public page with Open Graph tags)
+ * - GET    /s/:slug/image.png                    (public card image)
+ */
+const shareService = new ShareService();
+
+app.post(
+  '/api/users/:userId/shares',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const share = await shareService.createShare(
+        req.params.userId,
+        req.body,
+        getPublicOrigin(req),
+      );
+      return res.status(201).json(share);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get(
+  '/api/users/:userId/shares',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const result = await shareService.listShares(
+        req.params.userId,
+        req.query,
+        getPublicOrigin(req),
+      );
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.delete(
+  '/api/users/:userId/shares/:shareId',
+  async (req: Request<{ userId: string; shareId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const { userId, shareId } = req.params;
+      const share = await shareService.revokeShare(userId, shareId, getPublicOrigin(req));
+      return res.status(200).json(share);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get('/s/:slug', async (req: Request<{ slug: string }>, res: Response, next: NextFunction) => {
+  try {
+    const share = await shareService.viewShare(req.params.slug, getPublicOrigin(req));
+    return res.status(200).type('html').send(renderSharePage(share));
+  } catch (err: unknown) {
+    if (err instanceof NotFoundError) {
+      return res.status(404).type('html').send(renderShareNotFoundPage());
+    }
+    return next(err);
+  }
+});
+
+app.get(
+  '/s/:slug/image.png',
+  async (req: Request<{ slug: string }>, res: Response, next: NextFunction) => {
+    try {
+      const image = await shareService.getShareImage(req.params.slug);
+      // Short cache so a revoked card stops showing soon after
+      res.set('Cache-Control', 'public, max-age=300');
+      return res.status(200).type('png').send(image);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Admin endpoints require an admin dashboard session (see `requireAdmin`).
+ */
+app.use('/api/admin', requireAdmin);
+
+/**
+ * Admin task console.
+ *
+ * - GET  /api/admin/tasks?status=DEAD_LETTER&type=PROCESS_MEMORIES&limit=50&cursor=...
+ * - GET  /api/admin/tasks/summary        (task counts per type and status)
+ * - GET  /api/admin/tasks/:taskId        (includes the payload and last error)
+ * - POST /api/admin/tasks/:taskId/requeue
+ * - POST /api/admin/tasks/requeue        (bulk: `{ status?, type?, limit? }`)
+ *
+ * IN_PROGRESS tasks can only be re-enqueued once stale (`TASK_STALE_AFTER_MS`).
+ */
+const taskService = new TaskService();
+
+app.get('/api/admin/tasks', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await taskService.listTasks(req.query);
+    return res.status(200).json(result);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.get('/api/admin/tasks/summary', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summary = await taskService.getSummary();
+    return res.status(200).json({ summary });
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.post('/api/admin/tasks/requeue', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const admin = res.locals.admin as Admins;
+    const result = await taskService.requeueTasks(req.body, admin.id);
+    return res.status(200).json(result);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.get(
+  '/api/admin/tasks/:taskId',
+  async (req: Request<{ taskId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const task = await taskService.getTask(req.params.taskId);
+      return res.status(200).json(task);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.post(
+  '/api/admin/tasks/:taskId/requeue',
+  async (req: Request<{ taskId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const admin = res.locals.admin as Admins;
+      const task = await taskService.requeueTask(req.params.taskId, admin.id);
+      return res.status(202).json(task);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Chat messages may carry a user session, which WhatsApp users must send (see
+ * `authenticateChatUser`).
+ */
+app.use('/api/chat', authenticateChatUser);
+
+/**
+ * Admin dashboard over the agent's traces (`GraphRun` → `NodeRun` → `LLMTrace`).
+ *
+ * - GET /api/admin/runs?user=...&conversationId=...&status=ERROR&node=routeIntent&from=...&to=...
+ * - GET /api/admin/runs/stale              (RUNNING runs that stopped checkpointing, i.e. crashed)
+ * - GET /api/admin/runs/:runId?raw=true     (node timeline with each LLM call's messages)
+ * - POST /api/admin/runs/:runId/resume      (continues a crashed, aborted or failed run)
+ * - GET /api/admin/stats/nodes?from=...&to=...&node=...    (daily cost/latency per node)
+ * - GET /api/admin/stats/models?from=...&to=...&model=...  (daily cost/latency per model)
+ */
+const traceService = new TraceService();
+
+app.get('/api/admin/runs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await traceService.searchRuns(req.query);
+    return res.status(200).json(result);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.get('/api/admin/runs/stale', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const runs = await findStaleRuns();
+    return res.status(200).json({ runs });
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.get(
+  '/api/admin/runs/:runId',
+  async (req: Request<{ runId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const timeline = await traceService.getRunTimeline(req.params.runId, req.query);
+      return res.status(200).json(timeline);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.post(
+  '/api/admin/runs/:runId/resume',
+  async (req: Request<{ runId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const admin = res.locals.admin as Admins;
+      logger.info({ graphRunId: req.params.runId, adminId: admin.id }, 'Admin resuming run');
+      const result = await resumeAgentRun(req.params.runId);
+      return res.status(200).json(result);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get('/api/admin/stats/nodes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await traceService.getNodeUsage(req.query);
+    return res.status(200).json(stats);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+app.get('/api/admin/stats/models', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await traceService.getModelUsage(req.query);
+    return res.status(200).json(stats);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
+/**
+ * Admin spend reports and caps. Run costs are rolled up from their LLM traces; users are
+ * looked up by internal ID or WhatsApp ID.
+ *
+ * - GET /api/admin/users/:userId/costs?from=...&to=...  (today/month/total spend, caps, daily costs)
+ * - PUT /api/admin/users/:userId/spend-caps             (`{ dailyUsd?, monthlyUsd? }`, `null` clears)
+ * - GET /api/admin/stats/users?from=...&to=...&limit=20 (users ranked by spend)
+ */
+const spendService = new SpendService();
+
+app.get(
+  '/api/admin/users/:userId/costs',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const report = await spendService.getUserCosts(req.params.userId, req.query);
+      return res.status(200).json(report);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.put(
+  '/api/admin/users/:userId/spend-caps',
+  async (req: Request<{ userId: string }>, res: Response, next: NextFunction) => {
+    try {
+      const admin = res.locals.admin as Admins;
+      const caps = await spendService.setSpendCaps(req.params.userId, req.body, admin.id);
+      return res.status(200).json(caps);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+app.get('/api/admin/stats/users', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await spendService.getTopSpenders(req.query);
+    return res.status(200).json(stats);
+  } catch (err: unknown) {
+    return next(err);
+  }
+});
+
 /**
  * Main chat endpoint for the app.
  *
  * Request format: Send ChatRequest with userId and one of: text, media, or button
  * Response format: ChatResponse with replies array
  *
- * Frontend should render each reply based on reply_type:
- * - 'text_only': Simple text message bubble
- * - 'text_with_buttons': Text with button grid below
- * - 'buttons_only': Quick reply buttons (floating/suggested)
- * - 'image_with_caption': Media message with caption
+ * Frontend should render each reply based on reply_type (see packages/reply-schema):
+ * - 'text': Simple text message bubble
+ * - 'quick_reply' / 'list_picker': Text with buttons or an option list
+ * - 'image' / 'pdf': Media message with caption
+ * - 'product_card', 'vibe_check_card', 'color_analysis_card': Rich cards
+ * - 'vibe_check_comparison_card': Before/after card for a follow-up vibe check
+ *
+ * Without a user session (`Authorization: Bearer <sessionToken>`) the agent refuses to show
+ * or change memories and style progress.
  *
  * @example
  * POST /api/chat
@@ -120,9 +710,8 @@ app.post('/api/products/search', async (req: Request, res: Response, next: NextF
  * Response:
  * {
  *   "replies": [{
- *     "reply_type": "text_only",
- *     "reply_text": "Hi! I'd love to help with styling...",
- *     "expected_action": "input_required"
+ *     "reply_type": "text",
+ *     "reply_text": "Hi! I'd love to help with styling..."
  *   }],
  *   "pending": null
  * }
@@ -130,7 +719,7 @@ app.post('/api/products/search', async (req: Request, res: Response, next: NextF
 app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const chatRequest = req.body as ChatRequest;
-    const { userId, messageId } = chatRequest;
+    const { userId } = chatRequest;
 
     // Basic validation
     if (!userId) {
@@ -140,14 +729,14 @@ app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    const sid = String(messageId || `msg_${randomUUID()}`);
-
     // Convert ChatRequest to internal MessageInput format
-    const messageInput = chatRequestToMessageInput(chatRequest, sid);
+    const { messageId: sid, input: messageInput } = getChannel('http').receive(chatRequest);
 
     logger.info({ userId, messageId: sid }, 'Received chat message');
 
-    const { replies, pending } = await runAgentForHttp(String(userId), sid, messageInput);
+    const { replies, pending } = await runAgentForHttp(String(userId), sid, messageInput, {
+      sessionVerified: Boolean(res.locals.user),
+    });
 
     // Response without metadata
     const response = {
@@ -165,6 +754,166 @@ app.post('/api/chat', async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+/**
+ * Streaming variant of the chat endpoint using Server-Sent Events.
+ *
+ * Accepts the same ChatRequest body as `/api/chat`. Instead of waiting for the whole
+ * graph to finish, the response is a `text/event-stream` emitting `node_start`/`node_end`
+ * progress events, `token` deltas while models generate text, and finally a single
+ * `replies` event carrying the same payload as `/api/chat` (or an `error` event). If the
+ * client disconnects first, the run is aborted.
+ *
+ * @example
+ * POST /api/chat/stream
+ * { "userId": "user123", "text": "Hello" }
+ *
+ * event: node_start
+ * data: {"node":"ingestMessage"}
+ *
+ * event: replies
+ * data: {"replies":[...],"pending":"NONE","metadata":{"is_streaming":false,...}}
+ */
+app.post('/api/chat/stream', async (req: Request, res: Response) => {
+  const chatRequest = req.body as ChatRequest;
+  const { userId } = chatRequest;
+
+  if (!userId) {
+    res.status(400).json({
+      error: 'userId is required',
+      code: 'MISSING_USER_ID',
+    });
+    return;
+  }
+
+  const { messageId: sid, input: messageInput } = getChannel('http').receive(chatRequest);
+
+  logger.info({ userId, messageId: sid }, 'Received streaming chat message');
+
+  const closeStream = openEventStream(res);
+  // Stop paying for models once nobody is listening
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortAgentRun(String(userId), sid).catch((err: unknown) =>
+        logError(err, { userId, messageId: sid, location: 'chatStream.abort' }),
+      );
+    }
+  });
+  try {
+    const { replies, pending } = await runAgentForHttp(String(userId), sid, messageInput, {
+      sessionVerified: Boolean(res.locals.user),
+      listener: {
+        onNodeStart: (node) => writeStreamEvent(res, { event: 'node_start', data: { node } }),
+        onNodeEnd: (node, durationMs) =>
+          writeStreamEvent(res, { event: 'node_end', data: { node, duration_ms: durationMs } }),
+        onToken: (node, delta) => writeStreamEvent(res, { event: 'token', data: { node, delta } }),
+      },
+    });
+
+    writeStreamEvent(res, {
+      event: 'replies',
+      data: {
+        replies,
+        pending,
+        metadata: { is_streaming: false, timestamp: new Date().toISOString() },
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      logger.info({ userId, messageId: sid }, 'Streaming client disconnected, run aborted');
+      return;
+    }
+    // Headers are already sent, so errors are reported in-band instead of via errorHandler
+    const error = logError(err, { userId, messageId: sid, location: 'chatStream' });
+    writeStreamEvent(res, { event: 'error', data: createErrorResponse(error).error });
+  } finally {
+    closeStream();
+  }
+});
+
+/**
+ * Runs the agent for an inbound WhatsApp message; `sendReply` delivers the replies through
+ * the WhatsApp channel. Runs after the webhook was acknowledged, so failures are reported to
+ * the user directly.
+ */
+async function processWhatsAppMessage(message: ReceivedMessage): Promise<void> {
+  const { userId: whatsappId, messageId, input } = message;
+  try {
+    await runAgent(whatsappId, messageId, input, { channel: 'whatsapp' });
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      return;
+    }
+    logError(err, { userId: whatsappId, messageId, location: 'processWhatsAppMessage' });
+    try {
+      await getTwilioClient().sendMessage({
+        to: input.From,
+        body: 'Sorry, something went wrong. Please try again later.',
+      });
+    } catch (sendErr: unknown) {
+      logError(sendErr, {
+        userId: whatsappId,
+        messageId,
+        location: 'processWhatsAppMessage.apology',
+      });
+    }
+  }
+}
+
+/**
+ * Twilio WhatsApp webhook.
+ *
+ * Validates the Twilio signature, maps the urlencoded payload into `MessageInput` via the
+ * WhatsApp channel, drops duplicate deliveries of the same `MessageSid`, acknowledges
+ * immediately with empty TwiML and then runs the agent in the background.
+ */
+app.post(
+  '/twilio/',
+  validateTwilioRequest,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const message = getChannel('whatsapp').receive(req.body as Record<string, string>);
+      const { userId, messageId } = message;
+
+      const messageKey = `message:${messageId}`;
+      const isNewMessage = await redis.hSetNX(messageKey, 'status', 'received');
+      if (!isNewMessage) {
+        logger.info({ messageId }, 'Ignoring duplicate Twilio webhook');
+        return res.status(200).type('text/xml').send('<Response/>');
+      }
+      await redis.expire(messageKey, MESSAGE_TTL_SECONDS);
+
+      logger.info({ userId, messageId }, 'Received WhatsApp message');
+      res.status(200).type('text/xml').send('<Response/>');
+
+      void processWhatsAppMessage(message);
+      return;
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
+/**
+ * Twilio status callback. Updates the `message:{id}` hash of the inbound message that the
+ * reporting outbound message answered.
+ */
+app.post(
+  '/twilio/callback/',
+  validateTwilioRequest,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { MessageSid, MessageStatus, ErrorCode } = req.body as Record<string, string>;
+      if (!MessageSid || !MessageStatus) {
+        throw new BadRequestError('Status callback is missing MessageSid or MessageStatus');
+      }
+      await recordMessageStatus(MessageSid, MessageStatus, ErrorCode);
+      return res.sendStatus(204);
+    } catch (err: unknown) {
+      return next(err);
+    }
+  },
+);
+
 // Static file serving should come AFTER API routes
 app.use(express.static(path.join(process.cwd(), 'public')));
 
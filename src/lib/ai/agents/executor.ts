@@ -182,6 +182,8 @@ export async function agentExecutor<T extends ZodType>(
       break;
     }
 
+    // Tools can have side effects, so an abandoned node attempt must not run them
+    traceBuffer.signal?.throwIfAborted();
     const toolResults = await Promise.all(
       regularToolCalls
         .filter((toolCall) => !seenToolCallIds.has(toolCall.id))
@@ -198,7 +200,9 @@ export async function agentExecutor<T extends ZodType>(
           }
           try {
             const parsedArgs = toolDef.schema.parse(toolCall.arguments);
-            const result = await Promise.resolve(toolDef.func(parsedArgs));
+            const result = await Promise.resolve(
+              toolDef.func(parsedArgs, { traceBuffer, nodeName: options.nodeName }),
+            );
             // Track tool results for later extraction
             toolResultsList.push({ name: toolDef.name, result });
             return {
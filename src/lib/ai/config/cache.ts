@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+import { logger } from '../../../utils/logger';
+
+/**
+ * How long responses are cached for each node, in seconds. Only nodes listed here are
+ * cached: calls whose output should not change for identical input, e.g. intent
+ * classification or search intent extraction.
+ */
+export const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = {
+  routeIntent: 10 * 60,
+  dailyFact: 24 * 60 * 60,
+  searchProducts: 24 * 60 * 60,
+};
+
+const CacheTtlsSchema = z.record(z.string(), z.number().int().min(0));
+
+let cacheTtls: Record<string, number> | null = null;
+
+/**
+ * Whether `LLM_CACHE` enables the Redis response cache. Caching is opt-in.
+ */
+function isCacheEnabled(): boolean {
+  const backend = process.env.LLM_CACHE ?? 'none';
+  switch (backend) {
+    case 'redis':
+      return true;
+    case 'none':
+      return false;
+    default:
+      logger.warn({ backend }, 'Unknown LLM_CACHE, leaving the response cache disabled');
+      return false;
+  }
+}
+
+/**
+ * Returns the per-node TTLs: `DEFAULT_CACHE_TTL_SECONDS` with the overrides from the
+ * `LLM_CACHE_TTLS` environment variable (JSON, e.g. `{"routeIntent":300,"dailyFact":0}`)
+ * applied. A TTL of 0 disables caching for the node. An invalid override is logged and ignored.
+ */
+function getCacheTtls(): Record<string, number> {
+  if (cacheTtls) {
+    return cacheTtls;
+  }
+
+  cacheTtls = DEFAULT_CACHE_TTL_SECONDS;
+  const raw = process.env.LLM_CACHE_TTLS;
+  if (raw?.trim()) {
+    try {
+      cacheTtls = { ...DEFAULT_CACHE_TTL_SECONDS, ...CacheTtlsSchema.parse(JSON.parse(raw)) };
+    } catch (err: unknown) {
+      logger.warn(
+        { err: err instanceof Error ? err.message : String(err) },
+        'Invalid LLM_CACHE_TTLS, using the default cache TTLs',
+      );
+    }
+  }
+  return cacheTtls;
+}
+
+/**
+ * Returns how long a node's responses are cached, or `null` when they are not cached
+ * (the cache is disabled or the node has no TTL).
+ */
+export function getCacheTtlSeconds(nodeName: string): number | null {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+  const ttlSeconds = getCacheTtls()[nodeName];
+  return ttlSeconds ? ttlSeconds : null;
+}
+
+const DEFAULT_EMBEDDING_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Returns how long query embeddings are cached, or `null` when they are not. Embeddings are
+ * deterministic, so unlike responses they are cached by default, for
+ * `EMBEDDING_CACHE_TTL_SECONDS` (7 days unless set; 0 disables the cache).
+ */
+export function getEmbeddingCacheTtlSeconds(): number | null {
+  const ttlSeconds = Number(
+    process.env.EMBEDDING_CACHE_TTL_SECONDS || DEFAULT_EMBEDDING_CACHE_TTL_SECONDS,
+  );
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds < 0) {
+    logger.warn(
+      { value: process.env.EMBEDDING_CACHE_TTL_SECONDS },
+      'Invalid EMBEDDING_CACHE_TTL_SECONDS, using the default embedding cache TTL',
+    );
+    return DEFAULT_EMBEDDING_CACHE_TTL_SECONDS;
+  }
+  return ttlSeconds > 0 ? Math.floor(ttlSeconds) : null;
+}
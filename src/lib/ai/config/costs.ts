@@ -1,17 +1,94 @@
 /**
  * A centralized map of model costs per million tokens.
+ *
+ * Image inputs are billed as input tokens: providers convert each image to tokens (by size
+ * and detail level) and include them in the prompt token usage they report, so the `input`
+ * price covers them. Embedding models only bill input tokens.
  */
 export const MODEL_COSTS: Record<string, { input: number; output: number }> = {
+  // OpenAI chat and vision
+  'gpt-5': {
+    input: 1.25,
+    output: 10.0,
+  },
   'gpt-5-mini': {
     input: 0.25,
     output: 2.0,
   },
-  'openai/gpt-oss-120b': {
-    input: 0.15,
-    output: 0.75,
+  'gpt-5-nano': {
+    input: 0.05,
+    output: 0.4,
+  },
+  'gpt-4.1': {
+    input: 2.0,
+    output: 8.0,
+  },
+  'gpt-4.1-mini': {
+    input: 0.4,
+    output: 1.6,
+  },
+  'gpt-4o': {
+    input: 2.5,
+    output: 10.0,
   },
   'gpt-4o-mini': {
     input: 0.15,
     output: 0.6,
   },
+  // Groq
+  'llama-3.3-70b-versatile': {
+    input: 0.59,
+    output: 0.79,
+  },
+  'llama-3.1-8b-instant': {
+    input: 0.05,
+    output: 0.08,
+  },
+  'openai/gpt-oss-120b': {
+    input: 0.15,
+    output: 0.75,
+  },
+  'openai/gpt-oss-20b': {
+    input: 0.1,
+    output: 0.5,
+  },
+  'meta-llama/llama-4-scout-17b-16e-instruct': {
+    input: 0.11,
+    output: 0.34,
+  },
+  // OpenAI embeddings
+  'text-embedding-3-small': {
+    input: 0.02,
+    output: 0,
+  },
+  'text-embedding-3-large': {
+    input: 0.13,
+    output: 0,
+  },
+  'text-embedding-ada-002': {
+    input: 0.1,
+    output: 0,
+  },
 };
+
+/**
+ * Calculates the cost of a model call from its token usage.
+ *
+ * @param model - The model that served the call.
+ * @param promptTokens - Input tokens, including image and cached tokens.
+ * @param completionTokens - Output tokens, including reasoning tokens.
+ * @returns The cost in USD, or `null` for models missing from `MODEL_COSTS`.
+ */
+export function calculateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number = 0,
+): number | null {
+  const modelCosts = MODEL_COSTS[model];
+  if (!modelCosts) {
+    return null;
+  }
+  const inputCost = (promptTokens / 1_000_000) * modelCosts.input;
+  const outputCost = (completionTokens / 1_000_000) * modelCosts.output;
+  return inputCost + outputCost;
+}
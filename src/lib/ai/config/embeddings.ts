@@ -0,0 +1,46 @@
+import { logger } from '../../../utils/logger';
+import { BaseEmbeddings } from '../core/embeddings';
+import { LocalEmbeddings } from '../local/embeddings';
+import { OpenAIEmbeddings } from '../openai/embeddings';
+
+export type EmbeddingsProvider = 'openai' | 'local';
+
+/**
+ * Cached embeddings instance shared by tools and scripts.
+ */
+let embeddings: BaseEmbeddings | null = null;
+
+/**
+ * Returns the provider selected by `EMBEDDINGS_PROVIDER`: `openai` (the default) or `local`
+ * for offline feature-hashing embeddings.
+ */
+export function getEmbeddingsProvider(): EmbeddingsProvider {
+  const provider = process.env.EMBEDDINGS_PROVIDER ?? 'openai';
+  switch (provider) {
+    case 'openai':
+    case 'local':
+      return provider;
+    default:
+      logger.warn({ provider }, 'Unknown EMBEDDINGS_PROVIDER, falling back to openai');
+      return 'openai';
+  }
+}
+
+/**
+ * Gets the embeddings instance for the configured provider. OpenAI uses
+ * `OPENAI_EMBEDDING_MODEL` (default `text-embedding-3-small`), like the Cloud Functions that
+ * embed wardrobe items and memories.
+ *
+ * @returns Configured embeddings instance
+ */
+export function getEmbeddings(): BaseEmbeddings {
+  if (!embeddings) {
+    embeddings =
+      getEmbeddingsProvider() === 'local'
+        ? new LocalEmbeddings()
+        : new OpenAIEmbeddings({
+            model: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+          });
+  }
+  return embeddings;
+}
@@ -1,40 +1,117 @@
+import { logger } from '../../../utils/logger';
+import { BaseChatModel } from '../core/base_chat_model';
+import { RoutedChatModel } from '../core/routed_chat_model';
+import { FakeChatModel, FakeChatScript } from '../fake/chat_models';
 import { ChatGroq } from '../groq/chat_models';
 import { ChatOpenAI } from '../openai/chat_models';
+import { getModelChain, ModelKind, ModelSpec } from './models';
 
 /**
  * Cached LLM instances for different use cases.
  * Uses singleton pattern to avoid recreating expensive LLM instances.
  */
-let textLLM: ChatGroq | null = null;
-let visionLLM: ChatOpenAI | null = null;
+let textLLM: BaseChatModel | null = null;
+let visionLLM: BaseChatModel | null = null;
 
 /**
- * Gets or creates a cached text-only LLM instance using Groq API.
- * Uses OpenAI GPT-OSS-120B model optimized for conversational tasks.
+ * Responses served by the fake models when `LLM_PROVIDER=fake`. Scenario scripts add the
+ * responses each node should get before sending a message.
+ */
+export const fakeChatScript = new FakeChatScript();
+
+/**
+ * Whether `LLM_PROVIDER` selects the scripted fake models instead of Groq and OpenAI.
+ */
+function useFakeLLM(): boolean {
+  const provider = process.env.LLM_PROVIDER ?? 'default';
+  switch (provider) {
+    case 'fake':
+      return true;
+    case 'default':
+      return false;
+    default:
+      logger.warn({ provider }, 'Unknown LLM_PROVIDER, falling back to default models');
+      return false;
+  }
+}
+
+/**
+ * Provider model instances keyed by their spec, shared by every node routed to them.
+ */
+const models = new Map<string, BaseChatModel>();
+
+function createModel(spec: ModelSpec): BaseChatModel {
+  const key = JSON.stringify(spec);
+  let model = models.get(key);
+  if (!model) {
+    const { provider, model: name, temperature, maxTokens, reasoning } = spec;
+    const params = {
+      model: name,
+      ...(temperature !== undefined && { temperature }),
+      ...(maxTokens !== undefined && { maxTokens }),
+    };
+    model =
+      provider === 'openai'
+        ? new ChatOpenAI({ ...params, ...(reasoning && { reasoning }) })
+        : new ChatGroq(params);
+    models.set(key, model);
+  }
+  return model;
+}
+
+/**
+ * Returns the models configured for a node in the model registry, primary model first.
+ * Use it for calls made outside `getTextLLM()` / `getVisionLLM()`, e.g. by tools.
+ *
+ * @param nodeName - The registry entry to read, usually the calling graph node.
+ * @param kind - Whether the call needs a text-only or an image-capable model.
+ * @returns The primary model followed by its fallbacks (the fake model with `LLM_PROVIDER=fake`)
+ */
+export function getNodeModels(
+  nodeName: string,
+  kind: ModelKind = 'text',
+): [BaseChatModel, ...BaseChatModel[]] {
+  if (useFakeLLM()) {
+    return [kind === 'text' ? getTextLLM() : getVisionLLM()];
+  }
+  const [primary, ...fallbacks] = getModelChain(nodeName, kind);
+  return [createModel(primary), ...fallbacks.map(createModel)];
+}
+
+/**
+ * Gets or creates a cached text-only LLM. Each call is answered by the model the registry
+ * configures for the calling node (Groq's llama-3.3-70b-versatile by default), falling back
+ * across providers when it fails.
  *
- * @returns Cached ChatGroq instance for text processing
+ * @returns Cached RoutedChatModel for text processing (a FakeChatModel with `LLM_PROVIDER=fake`)
  */
-export function getTextLLM(): ChatGroq {
+export function getTextLLM(): BaseChatModel {
   if (!textLLM) {
-    textLLM = new ChatGroq({
-      model: 'llama-3.3-70b-versatile',
-    });
+    textLLM = useFakeLLM()
+      ? new FakeChatModel({ model: 'fake-text', script: fakeChatScript })
+      : new RoutedChatModel({
+          model: 'text',
+          resolveModels: (nodeName) => getNodeModels(nodeName, 'text'),
+        });
   }
   return textLLM;
 }
 
 /**
- * Gets or creates a cached vision-capable LLM instance using OpenAI API.
- * Uses GPT-5-mini model optimized for image analysis and multimodal tasks.
+ * Gets or creates a cached vision-capable LLM. Each call is answered by the model the
+ * registry configures for the calling node (OpenAI's gpt-5-mini by default), falling back
+ * when it fails.
  *
- * @returns Cached ChatOpenAI instance for vision processing
+ * @returns Cached RoutedChatModel for vision processing (a FakeChatModel with `LLM_PROVIDER=fake`)
  */
-export function getVisionLLM(): ChatOpenAI {
+export function getVisionLLM(): BaseChatModel {
   if (!visionLLM) {
-    visionLLM = new ChatOpenAI({
-      model: 'gpt-5-mini',
-      reasoning: { effort: 'minimal' },
-    });
+    visionLLM = useFakeLLM()
+      ? new FakeChatModel({ model: 'fake-vision', script: fakeChatScript })
+      : new RoutedChatModel({
+          model: 'vision',
+          resolveModels: (nodeName) => getNodeModels(nodeName, 'vision'),
+        });
   }
   return visionLLM;
 }
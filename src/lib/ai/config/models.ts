@@ -0,0 +1,134 @@
+import { z } from 'zod';
+
+import { logger } from '../../../utils/logger';
+
+/**
+ * Whether a call needs a text-only or an image-capable model. Nodes ask for one or the other
+ * through `getTextLLM()` / `getVisionLLM()`.
+ */
+export type ModelKind = 'text' | 'vision';
+
+const ModelSpecSchema = z.object({
+  provider: z.enum(['groq', 'openai']),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  /** OpenAI only */
+  reasoning: z.object({ effort: z.enum(['minimal', 'low', 'medium', 'high']) }).optional(),
+});
+
+const ModelRouteSchema = z.object({
+  primary: ModelSpecSchema,
+  fallbacks: z.array(ModelSpecSchema).default([]),
+});
+
+const NodeRoutesSchema = z.object({
+  text: ModelRouteSchema.optional(),
+  vision: ModelRouteSchema.optional(),
+});
+
+const ModelRegistryOverrideSchema = z.object({
+  text: ModelRouteSchema.optional(),
+  vision: ModelRouteSchema.optional(),
+  nodes: z.record(z.string(), NodeRoutesSchema).optional(),
+});
+
+export type ModelSpec = z.infer<typeof ModelSpecSchema>;
+export type ModelRoute = z.infer<typeof ModelRouteSchema>;
+
+/**
+ * The models used for each kind of call, with per-node overrides keyed by graph node name
+ * (the `nodeName` a node passes to `run`).
+ */
+export type ModelRegistry = {
+  text: ModelRoute;
+  vision: ModelRoute;
+  nodes: Record<string, z.infer<typeof NodeRoutesSchema>>;
+};
+
+const GPT_4O_TOOLS: ModelRoute = {
+  // gpt-4o follows tool-calling instructions more reliably than Groq and gpt-4o-mini
+  primary: { provider: 'openai', model: 'gpt-4o', temperature: 0.7 },
+  fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.7 }],
+};
+
+/**
+ * The built-in registry. Conversational calls go to Groq and fall back to OpenAI when Groq
+ * fails; image analysis goes to OpenAI.
+ */
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  text: {
+    primary: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+    fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+  },
+  vision: {
+    primary: { provider: 'openai', model: 'gpt-5-mini', reasoning: { effort: 'minimal' } },
+    fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+  },
+  nodes: {
+    handleSkinLab: { text: GPT_4O_TOOLS },
+    handleStyleStudio: { text: GPT_4O_TOOLS },
+    handleProductRecommendationConfirmation: { text: GPT_4O_TOOLS },
+    searchProducts: {
+      text: {
+        primary: { provider: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1 },
+        fallbacks: [],
+      },
+    },
+  },
+};
+
+let registry: ModelRegistry | null = null;
+
+/**
+ * Returns the model registry: `DEFAULT_MODEL_REGISTRY` with the overrides from the
+ * `MODEL_REGISTRY` environment variable (JSON) applied. Overridden routes replace the
+ * default route for that kind of call or node. An invalid override is logged and ignored.
+ *
+ * @example
+ * ```bash
+ * MODEL_REGISTRY='{"nodes":{"routeIntent":{"text":{"primary":{"provider":"openai","model":"gpt-4o-mini"}}}}}'
+ * ```
+ */
+export function getModelRegistry(): ModelRegistry {
+  if (!registry) {
+    registry = loadModelRegistry(process.env.MODEL_REGISTRY);
+  }
+  return registry;
+}
+
+function loadModelRegistry(raw: string | undefined): ModelRegistry {
+  if (!raw?.trim()) {
+    return DEFAULT_MODEL_REGISTRY;
+  }
+
+  let override: z.infer<typeof ModelRegistryOverrideSchema>;
+  try {
+    override = ModelRegistryOverrideSchema.parse(JSON.parse(raw));
+  } catch (err: unknown) {
+    logger.warn(
+      { err: err instanceof Error ? err.message : String(err) },
+      'Invalid MODEL_REGISTRY, falling back to default models',
+    );
+    return DEFAULT_MODEL_REGISTRY;
+  }
+
+  const nodes = { ...DEFAULT_MODEL_REGISTRY.nodes };
+  for (const [nodeName, routes] of Object.entries(override.nodes ?? {})) {
+    nodes[nodeName] = { ...nodes[nodeName], ...routes };
+  }
+  return {
+    text: override.text ?? DEFAULT_MODEL_REGISTRY.text,
+    vision: override.vision ?? DEFAULT_MODEL_REGISTRY.vision,
+    nodes,
+  };
+}
+
+/**
+ * Returns the models to try for a node's call, the primary model first.
+ */
+export function getModelChain(nodeName: string, kind: ModelKind): [ModelSpec, ...ModelSpec[]] {
+  const { nodes, ...defaults } = getModelRegistry();
+  const route = nodes[nodeName]?.[kind] ?? defaults[kind];
+  return [route.primary, ...route.fallbacks];
+}
@@ -1,7 +1,10 @@
+import Groq from 'groq-sdk';
 import OpenAI from 'openai';
 import {
   ChatCompletion,
+  ChatCompletionChunk,
   ChatCompletionContentPart,
+  ChatCompletionMessageFunctionToolCall,
   ChatCompletionMessageParam,
   ChatCompletionMessageToolCall,
   ChatCompletionTool,
@@ -13,6 +16,8 @@ import { AssistantMessage, BaseMessage, SystemMessage, TextPart } from './messag
 import { ToolCall, toOpenAIToolSpec, ensureRequiredArrays } from './tools';
 
 export abstract class BaseChatCompletionsModel extends BaseChatModel {
+  protected abstract client: OpenAI | Groq;
+
   protected _buildChatCompletionsParams(
     systemPrompt: SystemMessage,
     msgs: BaseMessage[],
@@ -169,6 +174,90 @@ export abstract class BaseChatCompletionsModel extends BaseChatModel {
     return params;
   }
 
+  /**
+   * Consumes a streamed chat completion, forwarding text deltas as they arrive, and
+   * reassembles the chunks into a regular `ChatCompletion` so the rest of the pipeline
+   * (tool call parsing, tracing, cost accounting) is identical to the non-streaming path.
+   *
+   * @param stream The stream of completion chunks returned by the provider.
+   * @param onDelta Callback invoked with each text delta.
+   * @returns The assembled chat completion.
+   */
+  protected async _collectChatCompletionStream(
+    stream: AsyncIterable<ChatCompletionChunk>,
+    onDelta: (delta: string) => void,
+  ): Promise<ChatCompletion> {
+    let id = '';
+    let created = 0;
+    let model = this.params.model;
+    let content = '';
+    let finishReason: ChatCompletion.Choice['finish_reason'] = 'stop';
+    let usage: ChatCompletion['usage'];
+    const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+    for await (const chunk of stream) {
+      id = chunk.id || id;
+      created = chunk.created || created;
+      model = chunk.model || model;
+      // Groq reports usage on its own extension field of the final chunk
+      const chunkUsage =
+        chunk.usage ?? (chunk as { x_groq?: { usage?: ChatCompletion['usage'] } }).x_groq?.usage;
+      if (chunkUsage) {
+        usage = chunkUsage;
+      }
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        onDelta(choice.delta.content);
+      }
+      for (const tc of choice.delta.tool_calls ?? []) {
+        const existing = toolCalls[tc.index];
+        if (!existing) {
+          toolCalls[tc.index] = {
+            id: tc.id ?? '',
+            type: 'function',
+            function: { name: tc.function?.name ?? '', arguments: tc.function?.arguments ?? '' },
+          };
+          continue;
+        }
+        if (tc.id) existing.id = tc.id;
+        if (tc.function?.name) existing.function.name += tc.function.name;
+        if (tc.function?.arguments) existing.function.arguments += tc.function.arguments;
+      }
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    const assembledToolCalls = toolCalls.filter(Boolean);
+    const completion: ChatCompletion = {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          finish_reason: finishReason,
+          logprobs: null,
+          message: {
+            role: 'assistant',
+            content: content || null,
+            refusal: null,
+            ...(assembledToolCalls.length > 0 ? { tool_calls: assembledToolCalls } : {}),
+          },
+        },
+      ],
+    };
+    if (usage) {
+      completion.usage = usage;
+    }
+    return completion;
+  }
+
   protected _processChatCompletionsResponse(response: ChatCompletion): {
     assistant: AssistantMessage;
     toolCalls: ToolCall[];
@@ -1,10 +1,17 @@
 import 'dotenv/config';
 
-import Groq from 'groq-sdk';
-import OpenAI from 'openai';
+import { createId } from '@paralleldrive/cuid2';
+import { Prisma } from '@prisma/client';
 import { ZodType } from 'zod';
-import { TraceBuffer } from '../../../agent/tracing';
-import { BaseMessage, SystemMessage } from './messages';
+import { getActiveNodeRun, TraceBuffer } from '../../../agent/tracing';
+import { getCacheTtlSeconds } from '../config/cache';
+import { BaseMessage, messageFromJSON, SystemMessage } from './messages';
+import {
+  buildResponseCacheKey,
+  CachedRunOutcome,
+  readCachedResponse,
+  writeCachedResponse,
+} from './response_cache';
 import { ChatModelParams, ModelRunner, RunOutcome } from './runnables';
 import { StructuredOutputRunnable } from './structured_output_runnable';
 import type { Tool } from './tools';
@@ -15,7 +22,6 @@ import type { Tool } from './tools';
  * structured output, and the core logic of running a model.
  */
 export abstract class BaseChatModel implements ModelRunner {
-  protected abstract client: OpenAI | Groq;
   public params: ChatModelParams;
   protected boundTools: Tool[] = [];
   protected structuredOutputSchema: ZodType | null = null;
@@ -55,24 +61,114 @@ export abstract class BaseChatModel implements ModelRunner {
     return new StructuredOutputRunnable(newInstance, schema);
   }
 
+  /**
+   * Whether `run` may answer from the response cache. Models that delegate to other models
+   * or never call a provider turn it off.
+   */
+  protected responseCaching: boolean = true;
+
   /**
    * Runs the model with a given conversation history and returns the outcome.
-   * This method must be implemented by subclasses.
+   *
+   * When the response cache is enabled for the node (see `getCacheTtlSeconds`), identical
+   * calls are answered from Redis instead of the provider. Hits are traced with the original
+   * token usage, zero cost and `cacheHit` set. Replays always go to `_run`.
    *
    * @param systemPrompt The system prompt to guide the model's behavior.
    * @param msgs The array of messages representing the conversation history.
-   * @param graphRunId The ID of the current graph run for tracing purposes.
+   * @param traceBuffer The buffer collecting the run's node and LLM traces.
    * @param nodeName The name of the graph node making this call.
    * @returns A promise that resolves to the outcome of the model run, including
    * the assistant's reply and any tool calls.
    */
-  abstract run(
+  async run(
+    systemPrompt: SystemMessage,
+    msgs: BaseMessage[],
+    traceBuffer: TraceBuffer,
+    nodeName: string,
+  ): Promise<RunOutcome> {
+    // A timed-out or aborted node attempt must not start new calls (or fall back to other models)
+    traceBuffer.signal?.throwIfAborted();
+    const ttlSeconds =
+      this.responseCaching && !traceBuffer.replayResponse ? getCacheTtlSeconds(nodeName) : null;
+    if (!ttlSeconds) {
+      return this._run(systemPrompt, msgs, traceBuffer, nodeName);
+    }
+
+    const cacheKey = buildResponseCacheKey(nodeName, {
+      params: this.params,
+      systemPrompt,
+      messages: msgs,
+      tools: this.boundTools,
+      structuredOutputSchema: this.structuredOutputSchema,
+    });
+    const startTime = new Date();
+    const cached = await readCachedResponse<CachedRunOutcome>(cacheKey);
+    if (cached) {
+      return this._traceCacheHit(cached, cacheKey, msgs, traceBuffer, nodeName, startTime);
+    }
+
+    const outcome = await this._run(systemPrompt, msgs, traceBuffer, nodeName);
+    await writeCachedResponse<CachedRunOutcome>(
+      cacheKey,
+      {
+        assistant: outcome.assistant.toJSON(),
+        toolCalls: outcome.toolCalls,
+        raw: outcome.raw,
+        usage: outcome.usage ?? null,
+      },
+      ttlSeconds,
+    );
+    return outcome;
+  }
+
+  /**
+   * Calls the provider. Implemented by subclasses; callers go through `run`.
+   */
+  protected abstract _run(
     systemPrompt: SystemMessage,
     msgs: BaseMessage[],
     traceBuffer: TraceBuffer,
     nodeName: string,
   ): Promise<RunOutcome>;
 
+  private _traceCacheHit(
+    cached: CachedRunOutcome,
+    cacheKey: string,
+    msgs: BaseMessage[],
+    traceBuffer: TraceBuffer,
+    nodeName: string,
+    startTime: Date,
+  ): RunOutcome {
+    const nodeRun = getActiveNodeRun(traceBuffer, nodeName);
+
+    const endTime = new Date();
+    traceBuffer.llmTraces.push({
+      id: createId(),
+      nodeRunId: nodeRun.id,
+      model: this.params.model,
+      inputMessages: msgs.map((m) => m.toJSON()) as unknown as Prisma.JsonArray,
+      rawRequest: { cacheKey },
+      rawResponse: cached.raw as Prisma.JsonObject,
+      outputMessage: cached.assistant as unknown as Prisma.JsonObject,
+      promptTokens: cached.usage?.promptTokens ?? null,
+      completionTokens: cached.usage?.completionTokens ?? null,
+      totalTokens: cached.usage?.totalTokens ?? null,
+      costUsd: 0,
+      cacheHit: true,
+      startTime,
+      endTime,
+      durationMs: endTime.getTime() - startTime.getTime(),
+    });
+
+    return {
+      assistant: messageFromJSON(cached.assistant),
+      toolCalls: cached.toolCalls,
+      raw: cached.raw,
+      ...(cached.usage && { usage: cached.usage }),
+    };
+  }
+
   protected _clone(): this {
     const newInstance = new (this.constructor as new (params: ChatModelParams) => this)(
       this.params,
@@ -85,4 +181,15 @@ export abstract class BaseChatModel implements ModelRunner {
     }
     return newInstance;
   }
+
+  /**
+   * Returns a copy of `model` with this model's tools and structured output schema bound,
+   * for models that hand their calls on to other models.
+   */
+  protected _bindTo<T extends BaseChatModel>(model: T): T {
+    const newInstance = model._clone();
+    newInstance.boundTools = [...this.boundTools];
+    newInstance.structuredOutputSchema = this.structuredOutputSchema;
+    return newInstance;
+  }
 }
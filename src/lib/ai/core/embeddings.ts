@@ -0,0 +1,168 @@
+import { createId } from '@paralleldrive/cuid2';
+import { createHash } from 'crypto';
+
+import { getActiveNodeRun, TraceContext } from '../../../agent/tracing';
+import { logger } from '../../../utils/logger';
+import { redis } from '../../redis';
+import { getEmbeddingCacheTtlSeconds } from '../config/cache';
+import { calculateCostUsd } from '../config/costs';
+
+const CACHE_KEY_PREFIX = 'embedcache';
+
+export interface EmbeddingsParams {
+  /** The embedding model, stored with each vector as `embeddingModel`. */
+  model: string;
+  /** The most texts sent to the provider in one request. */
+  batchSize?: number;
+}
+
+/**
+ * The vectors for one batch of texts, in input order, and the input tokens the provider
+ * billed for them (`null` when it reports none, e.g. local embeddings).
+ */
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  promptTokens: number | null;
+}
+
+/**
+ * Abstract base class for embedding providers. It splits document batches into requests of
+ * at most `batchSize` texts, caches query embeddings in Redis and, when given a
+ * `TraceContext`, traces each provider request with its token usage and cost; subclasses
+ * only embed a single batch.
+ */
+export abstract class BaseEmbeddings {
+  public params: Required<EmbeddingsParams>;
+
+  /**
+   * Whether `embedQuery` may answer from the Redis cache. Providers that embed locally
+   * turn it off.
+   */
+  protected queryCaching: boolean = true;
+
+  constructor(params: EmbeddingsParams) {
+    this.params = { batchSize: 100, ...params };
+  }
+
+  get model(): string {
+    return this.params.model;
+  }
+
+  /**
+   * Creates an embedding for a single query string. Queries are cached for
+   * `EMBEDDING_CACHE_TTL_SECONDS` (see `getEmbeddingCacheTtlSeconds`), so repeated searches
+   * skip the provider. Cache failures are logged and treated as misses.
+   *
+   * @param query - The text to create an embedding for.
+   * @param trace - The node run to trace the provider request against, if any.
+   * @returns A promise that resolves to the embedding vector.
+   */
+  async embedQuery(query: string, trace?: TraceContext): Promise<number[]> {
+    const ttlSeconds = this.queryCaching ? getEmbeddingCacheTtlSeconds() : null;
+    if (!ttlSeconds) {
+      return this.embedOne(query, trace);
+    }
+
+    const hash = createHash('sha256').update(query).digest('hex');
+    const cacheKey = `${CACHE_KEY_PREFIX}:${this.model}:${hash}`;
+    try {
+      const cached = await redis.get(cacheKey);
+      if (cached) {
+        return JSON.parse(cached.toString()) as number[];
+      }
+    } catch (err: unknown) {
+      logger.warn(
+        { cacheKey, err: err instanceof Error ? err.message : String(err) },
+        'Failed to read embedding cache',
+      );
+    }
+
+    const embedding = await this.embedOne(query, trace);
+    try {
+      await redis.set(cacheKey, JSON.stringify(embedding), { EX: ttlSeconds });
+    } catch (err: unknown) {
+      logger.warn(
+        { cacheKey, err: err instanceof Error ? err.message : String(err) },
+        'Failed to write embedding cache',
+      );
+    }
+    return embedding;
+  }
+
+  /**
+   * Creates embeddings for multiple documents, sending them in batches of `batchSize`.
+   *
+   * @param documents - An array of text documents to create embeddings for.
+   * @param trace - The node run to trace the provider requests against, if any.
+   * @returns A promise that resolves to the embedding vectors, in the order of `documents`.
+   */
+  async embedDocuments(documents: string[], trace?: TraceContext): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < documents.length; i += this.params.batchSize) {
+      const batch = documents.slice(i, i + this.params.batchSize);
+      const vectors = await this.embedBatch(batch, trace);
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `Embedding response contained ${vectors.length} vectors for ${batch.length} inputs`,
+        );
+      }
+      embeddings.push(...vectors);
+    }
+    return embeddings;
+  }
+
+  /**
+   * Embeds one batch of texts. Implemented by subclasses; callers go through `embedQuery`
+   * and `embedDocuments`.
+   */
+  protected abstract _embed(texts: string[]): Promise<EmbeddingBatch>;
+
+  private async embedOne(text: string, trace?: TraceContext): Promise<number[]> {
+    const [first] = await this.embedBatch([text], trace);
+    if (!first) {
+      throw new Error('Embedding response did not contain any data');
+    }
+    return first;
+  }
+
+  /**
+   * Embeds one batch and, with a trace context, records the request as an `LLMTrace` of the
+   * calling node so its cost counts towards the run. Vectors are left out of the trace, and
+   * so is the raw response, which keeps embedding traces out of run replays.
+   */
+  private async embedBatch(texts: string[], trace?: TraceContext): Promise<number[][]> {
+    if (!trace) {
+      return (await this._embed(texts)).embeddings;
+    }
+
+    const nodeRun = getActiveNodeRun(trace.traceBuffer, trace.nodeName);
+    const startTime = new Date();
+    let batch: EmbeddingBatch | undefined;
+    let errorTrace: string | undefined;
+    try {
+      batch = await this._embed(texts);
+      return batch.embeddings;
+    } catch (err: unknown) {
+      errorTrace = err instanceof Error ? (err.stack ?? err.message) : String(err);
+      throw err;
+    } finally {
+      const endTime = new Date();
+      const promptTokens = batch?.promptTokens ?? null;
+      trace.traceBuffer.llmTraces.push({
+        id: createId(),
+        nodeRunId: nodeRun.id,
+        model: this.model,
+        inputMessages: texts,
+        rawRequest: { model: this.model, inputs: texts.length },
+        promptTokens,
+        completionTokens: promptTokens === null ? null : 0,
+        totalTokens: promptTokens,
+        costUsd: promptTokens === null ? null : calculateCostUsd(this.model, promptTokens),
+        ...(errorTrace && { errorTrace }),
+        startTime,
+        endTime,
+        durationMs: endTime.getTime() - startTime.getTime(),
+      });
+    }
+  }
+}
@@ -152,3 +152,39 @@ export class ToolMessage extends BaseMessage {
     return this.meta?.isError === true;
   }
 }
+
+/**
+ * Recreates a message instance from its `toJSON()` representation, e.g. after it was
+ * persisted to the database as part of a graph checkpoint.
+ *
+ * @example
+ * ```typescript
+ * const restored = messageFromJSON(JSON.parse(JSON.stringify(new UserMessage('Hi'))));
+ * restored instanceof UserMessage; // true
+ * ```
+ */
+export function messageFromJSON(json: ReturnType<BaseMessage['toJSON']>): BaseMessage {
+  let message: BaseMessage;
+  switch (json.role) {
+    case 'system':
+      message = new SystemMessage('');
+      break;
+    case 'user':
+      message = new UserMessage(json.content);
+      break;
+    case 'assistant':
+      message = new AssistantMessage('');
+      break;
+    case 'tool':
+      message = new ToolMessage('', json.tool_call_id ?? '', json.name);
+      break;
+  }
+  message.content = json.content;
+  if (json.name !== undefined) {
+    message.name = json.name;
+  }
+  if (json.meta !== undefined) {
+    message.meta = json.meta;
+  }
+  return message;
+}
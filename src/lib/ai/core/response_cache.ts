@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+
+import { ZodType, z } from 'zod';
+
+import { logger } from '../../../utils/logger';
+import { redis } from '../../redis';
+import { BaseMessage, SystemMessage } from './messages';
+import { RunUsage } from './runnables';
+import { Tool, ToolCall, toOpenAIToolSpec } from './tools';
+
+const CACHE_KEY_PREFIX = 'llmcache';
+
+/**
+ * A cached model response, enough to rebuild the `RunOutcome` and trace the hit.
+ */
+export type CachedRunOutcome = {
+  assistant: ReturnType<BaseMessage['toJSON']>;
+  toolCalls: ToolCall[];
+  raw: unknown;
+  usage: RunUsage | null;
+};
+
+/**
+ * Everything that shapes a model's response to a call.
+ */
+export type ResponseCacheKeyParts = {
+  params: unknown;
+  systemPrompt: SystemMessage;
+  messages: BaseMessage[];
+  tools?: Tool[];
+  structuredOutputSchema?: ZodType | null;
+};
+
+/**
+ * Builds the cache key of a call from the model parameters, the prompt, the messages and
+ * the bound tools and output schema. Messages are reduced to what is sent to the provider,
+ * so per-turn metadata (message IDs, timestamps) does not prevent hits.
+ *
+ * @returns A key of the form `llmcache:<nodeName>:<sha256>`.
+ */
+export function buildResponseCacheKey(nodeName: string, parts: ResponseCacheKeyParts): string {
+  const { params, systemPrompt, messages, tools = [], structuredOutputSchema = null } = parts;
+  const normalized = {
+    params,
+    systemPrompt: systemPrompt.content,
+    messages: messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      name: m.name ?? null,
+      tool_call_id: m.tool_call_id ?? null,
+      tool_calls: m.meta?.tool_calls ?? null,
+    })),
+    tools: tools.map(toOpenAIToolSpec),
+    structuredOutput: structuredOutputSchema ? z.toJSONSchema(structuredOutputSchema) : null,
+  };
+  const hash = createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  return `${CACHE_KEY_PREFIX}:${nodeName}:${hash}`;
+}
+
+/**
+ * Reads a cached response. Cache failures are logged and treated as misses, so an
+ * unavailable Redis only costs the provider call.
+ */
+export async function readCachedResponse<T>(key: string): Promise<T | null> {
+  try {
+    const value = await redis.get(key);
+    return value ? (JSON.parse(value) as T) : null;
+  } catch (err: unknown) {
+    logger.warn(
+      { key, err: err instanceof Error ? err.message : String(err) },
+      'Failed to read LLM response cache',
+    );
+    return null;
+  }
+}
+
+/**
+ * Caches a response for `ttlSeconds`. Failures are logged and ignored.
+ */
+export async function writeCachedResponse<T>(
+  key: string,
+  value: T,
+  ttlSeconds: number,
+): Promise<void> {
+  try {
+    await redis.set(key, JSON.stringify(value), { EX: ttlSeconds });
+  } catch (err: unknown) {
+    logger.warn(
+      { key, err: err instanceof Error ? err.message : String(err) },
+      'Failed to write LLM response cache',
+    );
+  }
+}
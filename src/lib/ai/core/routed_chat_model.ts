@@ -0,0 +1,94 @@
+import Groq from 'groq-sdk';
+import OpenAI from 'openai';
+
+import { TraceBuffer } from '../../../agent/tracing';
+import { logger } from '../../../utils/logger';
+import { BaseChatModel } from './base_chat_model';
+import { BaseMessage, SystemMessage } from './messages';
+import { ChatModelParams, RunOutcome } from './runnables';
+
+export interface RoutedChatModelParams extends ChatModelParams {
+  /**
+   * Returns the models to try for a node's call: the primary model first, then its
+   * fallbacks in order.
+   */
+  resolveModels: (nodeName: string) => BaseChatModel[];
+}
+
+/**
+ * A chat model that picks the model answering each call from the calling node, and moves on
+ * to the node's next fallback model when a provider fails (e.g. Groq is down or rate limits).
+ * Each attempt is traced by the model making it, so `LLMTrace` shows the failed attempts and
+ * the model that actually answered.
+ *
+ * @example
+ * ```typescript
+ * const model = new RoutedChatModel({
+ *   model: 'text',
+ *   resolveModels: () => [
+ *     new ChatGroq({ model: 'llama-3.3-70b-versatile' }),
+ *     new ChatOpenAI({ model: 'gpt-4o-mini' }),
+ *   ],
+ * });
+ * ```
+ */
+export class RoutedChatModel extends BaseChatModel {
+  declare params: RoutedChatModelParams;
+  // The models it routes to cache their own responses
+  protected responseCaching = false;
+
+  constructor(params: RoutedChatModelParams) {
+    super(params);
+  }
+
+  protected async _run(
+    systemPrompt: SystemMessage,
+    msgs: BaseMessage[],
+    traceBuffer: TraceBuffer,
+    nodeName: string,
+  ): Promise<RunOutcome> {
+    const models = this.params.resolveModels(nodeName);
+    if (models.length === 0) {
+      throw new Error(`No models configured for node "${nodeName}".`);
+    }
+
+    for (const [index, model] of models.entries()) {
+      const next = models[index + 1];
+      try {
+        const outcome = await this._bindTo(model).run(systemPrompt, msgs, traceBuffer, nodeName);
+        // Providers name the structured output tool differently (e.g. `json` on Groq)
+        const toolCalls = outcome.toolCalls.map((tc) =>
+          tc.name === model.structuredOutputToolName
+            ? { ...tc, name: this.structuredOutputToolName }
+            : tc,
+        );
+        return { ...outcome, toolCalls };
+      } catch (err: unknown) {
+        if (!next || traceBuffer.signal?.aborted || !isProviderError(err)) {
+          throw err;
+        }
+        logger.warn(
+          {
+            nodeName,
+            model: model.params.model,
+            fallbackModel: next.params.model,
+            err: err.message,
+          },
+          'Model call failed, falling back to the next model',
+        );
+      }
+    }
+    throw new Error(`No models configured for node "${nodeName}".`);
+  }
+}
+
+/**
+ * Whether an error came from a provider API (failed requests, timeouts, rate limits, outages)
+ * rather than from our own code or a cancelled request.
+ */
+function isProviderError(err: unknown): err is Error {
+  if (err instanceof OpenAI.APIUserAbortError || err instanceof Groq.APIUserAbortError) {
+    return false;
+  }
+  return err instanceof OpenAI.APIError || err instanceof Groq.APIError;
+}
@@ -83,8 +83,19 @@ export interface RunOutcome {
   toolCalls: ToolCall[];
   /** The raw, unmodified response from the LLM provider for debugging. */
   raw: unknown;
+  /** Token usage reported by the provider, when available. */
+  usage?: RunUsage;
 }
 
+/**
+ * Token usage of a model run.
+ */
+export type RunUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
 /**
  * Defines the interface for a model runner, which is responsible for executing
  * a conversation against an LLM and returning the result.
@@ -1,6 +1,8 @@
 import type { FunctionTool as OpenAIFunctionTool } from 'openai/resources/responses/responses';
 import { z, ZodObject, ZodType } from 'zod';
 
+import type { TraceContext } from '../../../agent/tracing';
+
 type ToolSchema = ZodObject<Record<string, ZodType>>;
 
 /**
@@ -31,14 +33,17 @@ export class Tool<TSchema extends ToolSchema = ToolSchema, TResult = unknown> {
   description: string;
   /** The Zod schema that defines the arguments the tool accepts. */
   schema: TSchema;
-  /** The function to execute when the tool is called. It receives the parsed arguments. */
-  func: (args: z.infer<TSchema>) => TResult | Promise<TResult>;
+  /**
+   * The function to execute when the tool is called. It receives the parsed arguments and
+   * the node run calling the tool, for tracing the model calls it makes (e.g. embeddings).
+   */
+  func: (args: z.infer<TSchema>, context: TraceContext) => TResult | Promise<TResult>;
 
   constructor(config: {
     name: string;
     description: string;
     schema: TSchema;
-    func: (args: z.infer<TSchema>) => TResult | Promise<TResult>;
+    func: (args: z.infer<TSchema>, context: TraceContext) => TResult | Promise<TResult>;
   }) {
     this.name = config.name;
     this.description = config.description;
@@ -0,0 +1,207 @@
+import { createId } from '@paralleldrive/cuid2';
+import { Prisma } from '@prisma/client';
+
+import { BufferedLlmTrace, getActiveNodeRun, TraceBuffer } from '../../../agent/tracing';
+import { BaseChatModel } from '../core/base_chat_model';
+import { AssistantMessage, BaseMessage, SystemMessage } from '../core/messages';
+import { ChatModelParams, RunOutcome } from '../core/runnables';
+import { ToolCall } from '../core/tools';
+
+/**
+ * A scripted model response.
+ *
+ * @example
+ * ```typescript
+ * // Plain text
+ * { content: 'Here is a hint: think silk.' }
+ * // Structured output, returned the way providers return it (as the structured-output tool call)
+ * { structured: { intent: 'vibe_check', missingProfileField: null } }
+ * // A tool call, e.g. for an agentExecutor loop
+ * { toolCalls: [{ name: 'fetchColorAnalysis', arguments: {} }] }
+ * ```
+ */
+export type FakeResponse = {
+  content?: string;
+  structured?: Record<string, unknown>;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+};
+
+/**
+ * A scripted response, or a function computing one from the call, e.g. to echo the user's
+ * message or to assert on the prompt.
+ */
+export type FakeResponder = FakeResponse | ((call: FakeChatCall) => FakeResponse);
+
+/**
+ * Scripted responses keyed by the graph node making the call. A node's responses are used
+ * in order, one per model call.
+ */
+export type FakeScript = Record<string, FakeResponder | FakeResponder[]>;
+
+/**
+ * A model call answered by a `FakeChatModel`.
+ */
+export type FakeChatCall = {
+  nodeName: string;
+  model: string;
+  systemPrompt: SystemMessage;
+  messages: BaseMessage[];
+  tools: string[];
+  structuredOutput: boolean;
+};
+
+/**
+ * The responses a set of fake models serve, shared by every instance created from the same
+ * params (including the copies made by `bind` and `withStructuredOutput`), plus a log of the
+ * calls they answered.
+ */
+export class FakeChatScript {
+  private readonly responses = new Map<string, FakeResponder[]>();
+  /** Every call answered so far, in order. */
+  readonly calls: FakeChatCall[] = [];
+
+  /**
+   * Queues responses behind those already scripted for each node.
+   */
+  add(script: FakeScript): this {
+    for (const [nodeName, responders] of Object.entries(script)) {
+      const queue = this.responses.get(nodeName) ?? [];
+      queue.push(...(Array.isArray(responders) ? responders : [responders]));
+      this.responses.set(nodeName, queue);
+    }
+    return this;
+  }
+
+  /**
+   * Clears the scripted responses and the call log.
+   */
+  reset(): this {
+    this.responses.clear();
+    this.calls.length = 0;
+    return this;
+  }
+
+  /**
+   * Returns the names of nodes that still have unused responses, e.g. to check that a
+   * scenario took the expected path.
+   */
+  pending(): string[] {
+    return [...this.responses].filter(([, queue]) => queue.length > 0).map(([name]) => name);
+  }
+
+  /**
+   * Consumes the next response scripted for the call's node.
+   * @throws {Error} If no response is left for the node.
+   */
+  next(call: FakeChatCall): FakeResponse {
+    const responder = this.responses.get(call.nodeName)?.shift();
+    if (!responder) {
+      throw new Error(`No scripted response left for node "${call.nodeName}".`);
+    }
+    this.calls.push(call);
+    return typeof responder === 'function' ? responder(call) : responder;
+  }
+}
+
+export interface FakeChatModelParams extends ChatModelParams {
+  /** The script answering this model's calls. */
+  script: FakeChatScript;
+}
+
+/**
+ * A chat model that answers from a `FakeChatScript` instead of calling a provider, so the
+ * agent can run deterministically and offline. Calls are traced like real ones, at zero cost.
+ *
+ * @example
+ * ```typescript
+ * const script = new FakeChatScript().add({
+ *   routeIntent: { structured: { intent: 'general', missingProfileField: null } },
+ * });
+ * const model = new FakeChatModel({ model: 'fake', script });
+ * ```
+ */
+export class FakeChatModel extends BaseChatModel {
+  declare params: FakeChatModelParams;
+  // Scripted responses are consumed per call, so they must not be cached
+  protected responseCaching = false;
+
+  constructor(params: FakeChatModelParams) {
+    super(params);
+  }
+
+  protected async _run(
+    systemPrompt: SystemMessage,
+    msgs: BaseMessage[],
+    traceBuffer: TraceBuffer,
+    nodeName: string,
+  ): Promise<RunOutcome> {
+    const nodeRun = getActiveNodeRun(traceBuffer, nodeName);
+
+    const call: FakeChatCall = {
+      nodeName,
+      model: this.params.model,
+      systemPrompt,
+      messages: [...msgs],
+      tools: this.boundTools.map((tool) => tool.name),
+      structuredOutput: this.structuredOutputSchema !== null,
+    };
+
+    const startTime = new Date();
+    const llmTrace: BufferedLlmTrace = {
+      id: createId(),
+      nodeRunId: nodeRun.id,
+      model: this.params.model,
+      inputMessages: msgs.map((m) => m.toJSON()) as unknown as Prisma.JsonArray,
+      rawRequest: {
+        systemPrompt: systemPrompt.toJSON(),
+        tools: call.tools,
+        structuredOutput: call.structuredOutput,
+      } as unknown as Prisma.JsonObject,
+      startTime,
+    };
+
+    let response: FakeResponse;
+    try {
+      response = this.params.script.next(call);
+    } catch (err) {
+      const endTime = new Date();
+      llmTrace.errorTrace = err instanceof Error ? (err.stack ?? err.message) : String(err);
+      llmTrace.endTime = endTime;
+      llmTrace.durationMs = endTime.getTime() - startTime.getTime();
+      traceBuffer.llmTraces.push(llmTrace);
+      throw err;
+    }
+
+    const toolCalls: ToolCall[] = (response.toolCalls ?? []).map((tc) => ({
+      id: `call_${createId()}`,
+      name: tc.name,
+      arguments: tc.arguments,
+    }));
+    if (response.structured) {
+      toolCalls.push({
+        id: `call_${createId()}`,
+        name: this.structuredOutputToolName,
+        arguments: response.structured,
+      });
+    }
+
+    const assistant = new AssistantMessage(response.content ?? '');
+    assistant.meta = { raw: response };
+    if (toolCalls.length > 0) {
+      assistant.meta.tool_calls = toolCalls;
+    }
+
+    const endTime = new Date();
+    llmTrace.rawResponse = response as unknown as Prisma.JsonObject;
+    llmTrace.outputMessage = assistant.toJSON() as Prisma.JsonObject;
+    llmTrace.promptTokens = 0;
+    llmTrace.completionTokens = 0;
+    llmTrace.totalTokens = 0;
+    llmTrace.costUsd = 0;
+    llmTrace.endTime = endTime;
+    llmTrace.durationMs = endTime.getTime() - startTime.getTime();
+    traceBuffer.llmTraces.push(llmTrace);
+
+    return { assistant, toolCalls, raw: response };
+  }
+}
@@ -2,12 +2,12 @@ import { createId } from '@paralleldrive/cuid2';
 import { Prisma } from '@prisma/client';
 import Groq from 'groq-sdk';
 import OpenAI from 'openai';
-import { ChatCompletion } from 'openai/resources/chat/completions';
+import { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
 
 import type { ChatCompletionCreateParamsNonStreaming as GroqChatCompletionParams } from 'groq-sdk/resources/chat/completions';
-import { BufferedLlmTrace, TraceBuffer } from '../../../agent/tracing';
+import { BufferedLlmTrace, getActiveNodeRun, TraceBuffer } from '../../../agent/tracing';
 import { logger } from '../../../utils/logger';
-import { MODEL_COSTS } from '../config/costs';
+import { calculateCostUsd } from '../config/costs';
 import { BaseChatCompletionsModel } from '../core/base_chat_completions_model';
 import { BaseMessage, SystemMessage, TextPart } from '../core/messages';
 import { toOpenAIToolSpec } from '../core/tools';
@@ -53,13 +53,12 @@ export class ChatGroq extends BaseChatCompletionsModel {
     this.params = combinedParams;
   }
 
-  async run(
+  protected async _run(
     systemPrompt: SystemMessage,
     msgs: BaseMessage[],
     traceBuffer: TraceBuffer,
     nodeName: string,
   ): Promise<RunOutcome> {
-    
     // 💡 FIX APPLIED HERE: Correctly constructing the Groq tool specification.
     const addBoundTools = (p: GroqParams): GroqParams => {
       if (this.boundTools.length === 0) return p;
@@ -106,19 +105,19 @@ export class ChatGroq extends BaseChatCompletionsModel {
     const buildParams = () => addBoundTools(this._buildChatCompletionsParams(systemPrompt, msgs));
     let params = buildParams();
 
-    const requestOptions: { maxRetries?: number; timeout?: number } = {};
+    const requestOptions: { maxRetries?: number; timeout?: number; signal?: AbortSignal } = {};
     if (this.params.maxRetries !== undefined) {
       requestOptions.maxRetries = this.params.maxRetries;
     }
     if (this.params.timeout !== undefined) {
       requestOptions.timeout = this.params.timeout;
     }
-
-    const nodeRun = traceBuffer.nodeRuns.find((ne) => ne.nodeName === nodeName && !ne.endTime);
-    if (!nodeRun) {
-      throw new Error(`Could not find an active node execution for nodeName: ${nodeName}`);
+    if (traceBuffer.signal) {
+      requestOptions.signal = traceBuffer.signal;
     }
 
+    const nodeRun = getActiveNodeRun(traceBuffer, nodeName);
+
     const startTime = new Date();
 
     const llmTrace: BufferedLlmTrace = {
@@ -131,8 +130,24 @@ export class ChatGroq extends BaseChatCompletionsModel {
     };
 
     let response: ChatCompletion;
-    const callGroq = async (p: GroqChatCompletionParams) =>
-      (await this.client.chat.completions.create(p, requestOptions)) as ChatCompletion;
+    const callGroq = async (p: GroqChatCompletionParams): Promise<ChatCompletion> => {
+      const { onToken, replayResponse } = traceBuffer;
+      const replayed = replayResponse?.(nodeName) as ChatCompletion | undefined;
+      if (replayed) {
+        return replayed;
+      }
+      if (!onToken) {
+        return (await this.client.chat.completions.create(p, requestOptions)) as ChatCompletion;
+      }
+      const stream = await this.client.chat.completions.create(
+        { ...p, stream: true },
+        requestOptions,
+      );
+      return this._collectChatCompletionStream(
+        stream as unknown as AsyncIterable<ChatCompletionChunk>,
+        (delta) => onToken(nodeName, delta),
+      );
+    };
 
     // Tool information is available in traceBuffer for debugging if needed
 
@@ -205,15 +220,11 @@ export class ChatGroq extends BaseChatCompletionsModel {
 
     const endTime = new Date();
 
-    let costUsd: number | null = null;
-    const modelCosts = MODEL_COSTS[this.params.model];
-    if (modelCosts) {
-      const promptTokens = response.usage?.prompt_tokens ?? 0;
-      const completionTokens = response.usage?.completion_tokens ?? 0;
-      const inputCost = (promptTokens / 1_000_000) * modelCosts.input;
-      const outputCost = (completionTokens / 1_000_000) * modelCosts.output;
-      costUsd = inputCost + outputCost;
-    }
+    const costUsd = calculateCostUsd(
+      this.params.model,
+      response.usage?.prompt_tokens ?? 0,
+      response.usage?.completion_tokens ?? 0,
+    );
 
     llmTrace.rawResponse = response as unknown as Prisma.JsonObject;
     llmTrace.outputMessage = assistant.toJSON() as Prisma.JsonObject;
@@ -229,6 +240,13 @@ export class ChatGroq extends BaseChatCompletionsModel {
       assistant,
       toolCalls,
       raw: response,
+      ...(response.usage && {
+        usage: {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+      }),
     };
   }
 
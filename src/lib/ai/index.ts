@@ -4,14 +4,22 @@
  */
 
 export * from './agents/executor';
+export * from './config/cache';
 export * from './config/costs';
+export * from './config/embeddings';
 export * from './config/llm';
+export * from './config/models';
 export * from './core/base_chat_completions_model';
 export * from './core/base_chat_model';
+export * from './core/embeddings';
 export * from './core/messages';
+export * from './core/response_cache';
+export * from './core/routed_chat_model';
 export * from './core/runnables';
 export * from './core/structured_output_runnable';
 export * from './core/tools';
+export * from './fake/chat_models';
 export * from './groq/chat_models';
+export * from './local/embeddings';
 export * from './openai/chat_models';
 export * from './openai/embeddings';
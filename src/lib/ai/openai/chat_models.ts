@@ -11,8 +11,8 @@ import type {
 import z from 'zod';
 
 import { Prisma } from '@prisma/client';
-import { BufferedLlmTrace, TraceBuffer } from '../../../agent/tracing';
-import { MODEL_COSTS } from '../config/costs';
+import { BufferedLlmTrace, getActiveNodeRun, TraceBuffer } from '../../../agent/tracing';
+import { calculateCostUsd } from '../config/costs';
 import { BaseChatCompletionsModel } from '../core/base_chat_completions_model';
 import { AssistantMessage, BaseMessage, SystemMessage, TextPart } from '../core/messages';
 import { OpenAIChatModelParams, RunOutcome } from '../core/runnables';
@@ -53,7 +53,7 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
     this.params = combinedParams;
   }
 
-  async run(
+  protected async _run(
     systemPrompt: SystemMessage,
     msgs: BaseMessage[],
     traceBuffer: TraceBuffer,
@@ -73,10 +73,7 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
   ): Promise<RunOutcome> {
     const params = this._buildResponsesParams(systemPrompt, msgs);
 
-    const nodeRun = traceBuffer.nodeRuns.find((ne) => ne.nodeName === nodeName && !ne.endTime);
-    if (!nodeRun) {
-      throw new Error(`Could not find an active node execution for nodeName: ${nodeName}`);
-    }
+    const nodeRun = getActiveNodeRun(traceBuffer, nodeName);
 
     const startTime = new Date();
 
@@ -91,7 +88,10 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
 
     let response: Response;
     try {
-      response = await this.client.responses.create(params);
+      const replayed = traceBuffer.replayResponse?.(nodeName) as Response | undefined;
+      response =
+        replayed ??
+        (await this.client.responses.create(params, { signal: traceBuffer.signal ?? null }));
     } catch (err) {
       const endTime = new Date();
       const message = err instanceof Error ? err.message : String(err);
@@ -117,9 +117,14 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
     const endTime = new Date();
     llmTrace.rawResponse = response as unknown as Prisma.JsonObject;
     llmTrace.outputMessage = assistant.toJSON() as Prisma.JsonObject;
-    llmTrace.promptTokens = response.usage?.total_tokens ?? null;
-    llmTrace.completionTokens = 0;
+    llmTrace.promptTokens = response.usage?.input_tokens ?? null;
+    llmTrace.completionTokens = response.usage?.output_tokens ?? null;
     llmTrace.totalTokens = response.usage?.total_tokens ?? null;
+    llmTrace.costUsd = calculateCostUsd(
+      this.params.model,
+      response.usage?.input_tokens ?? 0,
+      response.usage?.output_tokens ?? 0,
+    );
     llmTrace.endTime = endTime;
     llmTrace.durationMs = endTime.getTime() - startTime.getTime();
     traceBuffer.llmTraces.push(llmTrace);
@@ -128,6 +133,13 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
       assistant,
       toolCalls,
       raw: response,
+      ...(response.usage && {
+        usage: {
+          promptTokens: response.usage.input_tokens,
+          completionTokens: response.usage.output_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+      }),
     };
   }
 
@@ -139,10 +151,7 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
   ): Promise<RunOutcome> {
     const params = this._buildChatCompletionsParams(systemPrompt, msgs);
 
-    const nodeRun = traceBuffer.nodeRuns.find((ne) => ne.nodeName === nodeName && !ne.endTime);
-    if (!nodeRun) {
-      throw new Error(`Could not find an active node execution for nodeName: ${nodeName}`);
-    }
+    const nodeRun = getActiveNodeRun(traceBuffer, nodeName);
 
     const startTime = new Date();
 
@@ -157,7 +166,25 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
 
     let response: OpenAI.Chat.Completions.ChatCompletion;
     try {
-      response = await this.client.chat.completions.create(params);
+      const { onToken, replayResponse } = traceBuffer;
+      const replayed = replayResponse?.(nodeName) as
+        | OpenAI.Chat.Completions.ChatCompletion
+        | undefined;
+      if (replayed) {
+        response = replayed;
+      } else if (onToken) {
+        const stream = await this.client.chat.completions.create(
+          { ...params, stream: true, stream_options: { include_usage: true } },
+          { signal: traceBuffer.signal ?? null },
+        );
+        response = await this._collectChatCompletionStream(stream, (delta) =>
+          onToken(nodeName, delta),
+        );
+      } else {
+        response = await this.client.chat.completions.create(params, {
+          signal: traceBuffer.signal ?? null,
+        });
+      }
     } catch (err) {
       const endTime = new Date();
       const message = err instanceof Error ? err.message : String(err);
@@ -173,15 +200,11 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
 
     const endTime = new Date();
 
-    let costUsd: number | null = null;
-    const modelCosts = MODEL_COSTS[this.params.model];
-    if (modelCosts) {
-      const promptTokens = response.usage?.prompt_tokens ?? 0;
-      const completionTokens = response.usage?.completion_tokens ?? 0;
-      const inputCost = (promptTokens / 1_000_000) * modelCosts.input;
-      const outputCost = (completionTokens / 1_000_000) * modelCosts.output;
-      costUsd = inputCost + outputCost;
-    }
+    const costUsd = calculateCostUsd(
+      this.params.model,
+      response.usage?.prompt_tokens ?? 0,
+      response.usage?.completion_tokens ?? 0,
+    );
 
     llmTrace.rawResponse = response as unknown as Prisma.JsonObject;
     llmTrace.outputMessage = assistant.toJSON() as Prisma.JsonObject;
@@ -197,6 +220,13 @@ export class ChatOpenAI extends BaseChatCompletionsModel {
       assistant,
       toolCalls,
       raw: response,
+      ...(response.usage && {
+        usage: {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+      }),
     };
   }
 
@@ -1,9 +1,16 @@
-import { z } from 'zod';
-import { BaseChatModel } from './core/base_chat_model';
-import { SystemMessage, UserMessage, AssistantMessage } from './core/messages';
 import { ProductSearchIntent, ProductSearchIntentSchema } from '../../types/productSearch';
 import { logger } from '../../utils/logger';
-import { TraceBuffer } from '../../agent/tracing';
+import { getCacheTtlSeconds } from './config/cache';
+import { BaseChatModel } from './core/base_chat_model';
+import { SystemMessage, UserMessage } from './core/messages';
+import {
+  buildResponseCacheKey,
+  readCachedResponse,
+  writeCachedResponse,
+} from './core/response_cache';
+
+/** The node whose cache TTL applies to search intents (the `searchProducts` tool). */
+const CACHE_NODE_NAME = 'searchProducts';
 
 /**
  * AI-powered product search intent generator
@@ -165,14 +172,31 @@ Now analyze the user's message and respond with ONLY the JSON intent:
       const groqModel = this.model as any;
 
       if (groqModel.client) {
-        // Use the same model as other functionalities: llama-3.3-70b-versatile
+        // Identical queries get the same intent, so reuse it while the cache entry lives
+        const ttlSeconds = getCacheTtlSeconds(CACHE_NODE_NAME);
+        const cacheKey = ttlSeconds
+          ? buildResponseCacheKey(CACHE_NODE_NAME, {
+              params: this.model.params,
+              systemPrompt: new SystemMessage(this.systemPrompt),
+              messages: [new UserMessage(userMessage)],
+            })
+          : null;
+        const cachedIntent = cacheKey
+          ? await readCachedResponse<ProductSearchIntent>(cacheKey)
+          : null;
+        if (cachedIntent) {
+          logger.debug({ userMessage, cacheKey }, 'Product search intent served from cache');
+          return cachedIntent;
+        }
+
+        // Use the model the registry configures for searchProducts
         const response = await groqModel.client.chat.completions.create({
-          model: 'llama-3.3-70b-versatile',
+          model: this.model.params.model,
           messages: [
             { role: 'system', content: this.systemPrompt },
             { role: 'user', content: userMessage }
           ],
-          temperature: 0.1,
+          temperature: this.model.params.temperature ?? 0.1,
           max_tokens: 500
         });
 
@@ -185,6 +209,9 @@ Now analyze the user's message and respond with ONLY the JSON intent:
           generatedIntent: validatedIntent
         }, 'Generated product search intent');
 
+        if (cacheKey && ttlSeconds) {
+          await writeCachedResponse(cacheKey, validatedIntent, ttlSeconds);
+        }
         return validatedIntent;
       }
     } catch (error) {
@@ -0,0 +1,123 @@
+import type { QuickReplyButton, Replies, Reply, ScoreChange } from '../chat/replies';
+import type { ChannelCapabilities } from './types';
+
+const numberedOptions = (buttons: QuickReplyButton[]): string =>
+  buttons.map((b, i) => `${i + 1}. ${b.text}`).join('\n');
+
+const formatScore = (label: string, category: { score: number; explanation: string }): string =>
+  `*${label}:* ${category.score}/10 — ${category.explanation}`;
+
+/**
+ * Renders a vibe check card as plain text, for channels without rich cards.
+ */
+export function vibeCheckCardToText(
+  reply: Extract<Reply, { reply_type: 'vibe_check_card' }>,
+): string {
+  return [
+    `*Vibe check: ${reply.overall_score}/10*`,
+    reply.comment,
+    formatScore('Fit & silhouette', reply.fit_silhouette),
+    formatScore('Color harmony', reply.color_harmony),
+    formatScore('Styling details', reply.styling_details),
+    formatScore('Context & confidence', reply.context_confidence),
+  ].join('\n\n');
+}
+
+const formatChange = (label: string, score: ScoreChange): string =>
+  `*${label}:* ${score.before} → ${score.after} (${score.change > 0 ? '+' : ''}${score.change})`;
+
+/**
+ * Renders a before/after vibe check card as plain text, for channels without rich cards.
+ */
+export function vibeCheckComparisonCardToText(
+  reply: Extract<Reply, { reply_type: 'vibe_check_comparison_card' }>,
+): string {
+  return [
+    formatChange('Vibe check, before → after', reply.overall),
+    reply.comment,
+    formatChange('Fit & silhouette', reply.fit_silhouette),
+    formatChange('Color harmony', reply.color_harmony),
+    formatChange('Styling details', reply.styling_details),
+    formatChange('Context & confidence', reply.context_confidence),
+  ].join('\n\n');
+}
+
+/**
+ * Renders a color analysis card as plain text, for channels without rich cards.
+ */
+export function colorAnalysisCardToText(
+  reply: Extract<Reply, { reply_type: 'color_analysis_card' }>,
+): string {
+  const colors = reply.top_colors.map((c) => `${c.name} (${c.hex})`).join(', ');
+  return `*${reply.palette_name}*\n\n${reply.description}\n\n*Your top colors:* ${colors}`;
+}
+
+function downgradeButtons(
+  reply: Extract<Reply, { reply_type: 'quick_reply' | 'list_picker' }>,
+  capabilities: ChannelCapabilities,
+): Reply {
+  const { buttons } = reply;
+  if (reply.reply_type === 'quick_reply' && buttons.length <= capabilities.maxQuickReplyButtons) {
+    return reply;
+  }
+  if (buttons.length <= capabilities.maxListItems) {
+    return { reply_type: 'list_picker', reply_text: reply.reply_text, buttons };
+  }
+  if (buttons.length <= capabilities.maxQuickReplyButtons) {
+    return { reply_type: 'quick_reply', reply_text: reply.reply_text, buttons };
+  }
+  return { reply_type: 'text', reply_text: `${reply.reply_text}\n\n${numberedOptions(buttons)}` };
+}
+
+/**
+ * Downgrades a single reply to what the channel can render.
+ */
+function downgradeReply(reply: Reply, capabilities: ChannelCapabilities): Reply {
+  switch (reply.reply_type) {
+    case 'quick_reply':
+    case 'list_picker':
+      return downgradeButtons(reply, capabilities);
+    case 'image':
+    case 'pdf':
+      if (capabilities.media) return reply;
+      return {
+        reply_type: 'text',
+        reply_text: [reply.reply_text, reply.media_url].filter(Boolean).join('\n'),
+      };
+    case 'product_card': {
+      if (capabilities.carousel) return reply;
+      const items = reply.products.map((p, i) =>
+        [`${i + 1}. *${p.name}* — ${p.brand}`, p.reason, p.productLink]
+          .filter(Boolean)
+          .join('\n   '),
+      );
+      return {
+        reply_type: 'text',
+        reply_text: [reply.reply_text, ...items].filter(Boolean).join('\n\n'),
+      };
+    }
+    case 'vibe_check_card':
+      if (capabilities.richCards) return reply;
+      return { reply_type: 'text', reply_text: vibeCheckCardToText(reply) };
+    case 'vibe_check_comparison_card':
+      if (capabilities.richCards) return reply;
+      return { reply_type: 'text', reply_text: vibeCheckComparisonCardToText(reply) };
+    case 'color_analysis_card':
+      if (capabilities.richCards) return reply;
+      return { reply_type: 'text', reply_text: colorAnalysisCardToText(reply) };
+    default:
+      return reply;
+  }
+}
+
+/**
+ * Adapts replies to a channel's capabilities, e.g. product carousels become numbered text
+ * and button lists that are too long become list pickers or numbered text.
+ *
+ * @param replies - The replies produced by the agent
+ * @param capabilities - What the target channel can render
+ * @returns Replies the channel can render as-is
+ */
+export function adaptReplies(replies: Replies, capabilities: ChannelCapabilities): Replies {
+  return replies.map((reply) => downgradeReply(reply, capabilities));
+}
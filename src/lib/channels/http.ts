@@ -0,0 +1,41 @@
+import { randomUUID } from 'crypto';
+
+import type { Replies } from '../../agent/state';
+import { BadRequestError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { ChatRequest, chatRequestToMessageInput } from '../chat/types';
+import { redis } from '../redis';
+import type { Channel, DeliveryTarget, ReceivedMessage } from './types';
+
+/**
+ * The app API (`/api/chat`, `/api/chat/stream`). Replies are returned in the HTTP response
+ * by the route, so delivery only marks the message as delivered.
+ */
+export class HttpChannel implements Channel<ChatRequest> {
+  readonly name = 'http' as const;
+  readonly capabilities = {
+    maxQuickReplyButtons: Number.POSITIVE_INFINITY,
+    maxListItems: Number.POSITIVE_INFINITY,
+    media: true,
+    carousel: true,
+    richCards: true,
+  };
+
+  receive(request: ChatRequest): ReceivedMessage {
+    if (!request.userId) {
+      throw new BadRequestError('userId is required');
+    }
+    const messageId = String(request.messageId || `msg_${randomUUID()}`);
+    return {
+      userId: String(request.userId),
+      messageId,
+      input: chatRequestToMessageInput(request, messageId),
+    };
+  }
+
+  async send(target: DeliveryTarget, replies: Replies): Promise<void> {
+    logger.debug({ userId: target.userId }, 'HTTP delivery mode: collecting replies for response');
+    await redis.hSet(`message:${target.messageId}`, { status: 'delivered' });
+    logger.debug({ userId: target.userId, replyCount: replies.length }, 'Replies ready for HTTP');
+  }
+}
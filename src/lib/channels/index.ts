@@ -0,0 +1,26 @@
+import { HttpChannel } from './http';
+import type { Channel, ChannelName } from './types';
+import { WhatsAppChannel } from './whatsapp';
+
+export { adaptReplies } from './downgrade';
+export { HttpChannel } from './http';
+export type {
+  Channel,
+  ChannelCapabilities,
+  ChannelName,
+  DeliveryTarget,
+  ReceivedMessage,
+} from './types';
+export { WhatsAppChannel } from './whatsapp';
+
+const channels = {
+  http: new HttpChannel(),
+  whatsapp: new WhatsAppChannel(),
+} satisfies Record<ChannelName, Channel<never>>;
+
+/**
+ * Returns the channel registered under `name`.
+ */
+export function getChannel<TName extends ChannelName>(name: TName): (typeof channels)[TName] {
+  return channels[name];
+}
@@ -0,0 +1,65 @@
+import type { Replies } from '../../agent/state';
+import type { MessageInput } from '../chat/types';
+
+/**
+ * Names of the surfaces the agent can talk to.
+ */
+export type ChannelName = 'http' | 'whatsapp';
+
+/**
+ * What a channel can render. Replies using a capability the channel lacks are downgraded
+ * by `adaptReplies` before `send` is called, so handler nodes never need to know the channel.
+ */
+export interface ChannelCapabilities {
+  /** Maximum buttons in a `quick_reply`. Longer button lists become a list picker or numbered text. */
+  maxQuickReplyButtons: number;
+  /** Maximum options in a `list_picker`. `0` means list pickers are unsupported. */
+  maxListItems: number;
+  /** Whether images and documents can be sent. Otherwise media becomes a text link. */
+  media: boolean;
+  /** Whether `product_card` carousels are supported. Otherwise they become numbered text. */
+  carousel: boolean;
+  /**
+   * Whether `vibe_check_card`, `vibe_check_comparison_card` and `color_analysis_card` are
+   * supported. Otherwise they become text.
+   */
+  richCards: boolean;
+}
+
+/**
+ * A normalized inbound message.
+ */
+export interface ReceivedMessage {
+  /** The user identifier the agent runs for (`WaId`) */
+  userId: string;
+  /** The inbound message identifier (`MessageSid`) */
+  messageId: string;
+  input: MessageInput;
+}
+
+/**
+ * Where the replies of a turn go.
+ */
+export interface DeliveryTarget {
+  /** The inbound message the replies answer */
+  messageId: string;
+  /** The user identifier (`WaId`) */
+  userId: string;
+  /** The channel-specific sender address from the inbound message (`From`) */
+  address: string;
+}
+
+/**
+ * A messaging surface: turns inbound payloads into `MessageInput` and delivers `Replies`.
+ */
+export interface Channel<TPayload = unknown> {
+  readonly name: ChannelName;
+  readonly capabilities: ChannelCapabilities;
+  /**
+   * Normalizes an inbound payload.
+   * @throws {BadRequestError} If the payload is not a valid message.
+   */
+  receive(payload: TPayload): ReceivedMessage;
+  /** Delivers replies that were already adapted to the channel's capabilities. */
+  send(target: DeliveryTarget, replies: Replies): Promise<void>;
+}
@@ -0,0 +1,259 @@
+import type { Replies } from '../../agent/state';
+import { BadRequestError } from '../../utils/errors';
+import {
+  generateColorAnalysisImage,
+  generateVibeCheckComparisonImage,
+  generateVibeCheckImage,
+} from '../../utils/imageGenerator';
+import { logger } from '../../utils/logger';
+import {
+  getOrCreateContent,
+  getTwilioClient,
+  linkOutboundMessage,
+  TwilioContentTypes,
+  twilioFormToMessageInput,
+  TwilioMessageParams,
+} from '../twilio';
+import {
+  colorAnalysisCardToText,
+  vibeCheckCardToText,
+  vibeCheckComparisonCardToText,
+} from './downgrade';
+import type { Channel, DeliveryTarget, ReceivedMessage } from './types';
+
+/**
+ * WhatsApp via Twilio: renders agent replies into WhatsApp messages and sends them through
+ * the Twilio REST API.
+ *
+ * Mapping per reply type:
+ * - `text` and the image upload requests become plain text messages
+ * - `quick_reply` becomes a `twilio/quick-reply` template
+ * - `list_picker` becomes a `twilio/list-picker` template
+ * - `image` and `pdf` become media messages captioned with `reply_text`
+ * - `product_card` becomes one media message per product with name, brand, reason and link
+ * - `vibe_check_card`, `vibe_check_comparison_card` and `color_analysis_card` are rendered to
+ *   an image with `src/utils/imageGenerator.ts`, falling back to a text summary if rendering fails
+ */
+
+const MAX_BODY_LENGTH = 1600;
+const MAX_QUICK_REPLY_BUTTONS = 3;
+const MAX_LIST_ITEMS = 10;
+const MAX_BUTTON_TITLE_LENGTH = 20;
+const MAX_LIST_ITEM_LENGTH = 24;
+const MAX_PRODUCT_CARDS = 5;
+
+/** An outbound message before the recipient is known. */
+type WhatsAppMessage = Omit<TwilioMessageParams, 'to' | 'statusCallback'>;
+
+type Reply = Replies[number];
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+
+/**
+ * Twilio only accepts publicly reachable media URLs, so relative upload paths are resolved
+ * against `SERVER_URL` and data URLs are dropped.
+ */
+function toPublicMediaUrl(url: string): string | null {
+  if (url.startsWith('data:')) {
+    return null;
+  }
+  if (url.startsWith('/')) {
+    const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
+    return serverUrl ? `${serverUrl}${url}` : null;
+  }
+  return url;
+}
+
+function textMessages(text: string): WhatsAppMessage[] {
+  const messages: WhatsAppMessage[] = [];
+  for (let i = 0; i < text.length; i += MAX_BODY_LENGTH) {
+    messages.push({ body: text.slice(i, i + MAX_BODY_LENGTH) });
+  }
+  return messages;
+}
+
+function mediaMessage(url: string, caption?: string): WhatsAppMessage[] {
+  const mediaUrl = toPublicMediaUrl(url);
+  if (!mediaUrl) {
+    logger.warn({ url: url.slice(0, 64) }, 'Skipping media that is not publicly reachable');
+    return caption ? textMessages(caption) : [];
+  }
+  return [{ mediaUrl, ...(caption ? { body: truncate(caption, MAX_BODY_LENGTH) } : {}) }];
+}
+
+async function templateMessage(types: TwilioContentTypes): Promise<WhatsAppMessage[]> {
+  return [{ contentSid: await getOrCreateContent(types) }];
+}
+
+function buttonTemplate(reply: Extract<Reply, { buttons: unknown }>): TwilioContentTypes {
+  const body = truncate(reply.reply_text, 1024);
+  if (reply.reply_type === 'quick_reply') {
+    return {
+      'twilio/text': { body },
+      'twilio/quick-reply': {
+        body,
+        actions: reply.buttons.map((b) => ({
+          title: truncate(b.text, MAX_BUTTON_TITLE_LENGTH),
+          id: b.id,
+        })),
+      },
+    };
+  }
+  return {
+    'twilio/text': { body },
+    'twilio/list-picker': {
+      body,
+      button: 'Options',
+      items: reply.buttons.slice(0, MAX_LIST_ITEMS).map((b) => ({
+        item: truncate(b.text, MAX_LIST_ITEM_LENGTH),
+        id: b.id,
+      })),
+    },
+  };
+}
+
+async function renderVibeCheckCard(
+  reply: Extract<Reply, { reply_type: 'vibe_check_card' }>,
+  whatsappId: string,
+): Promise<WhatsAppMessage[]> {
+  try {
+    const imageUrl = await generateVibeCheckImage(whatsappId, {
+      overall_score: reply.overall_score,
+      fit_silhouette: reply.fit_silhouette,
+      color_harmony: reply.color_harmony,
+      styling_details: reply.styling_details,
+      context_confidence: reply.context_confidence,
+      userImageUrl: reply.user_image_url,
+      comment: reply.comment,
+    });
+    return mediaMessage(imageUrl, reply.comment);
+  } catch (err: unknown) {
+    logger.warn({ whatsappId, err }, 'Failed to render vibe check card, sending text instead');
+    return textMessages(vibeCheckCardToText(reply));
+  }
+}
+
+async function renderVibeCheckComparisonCard(
+  reply: Extract<Reply, { reply_type: 'vibe_check_comparison_card' }>,
+  whatsappId: string,
+): Promise<WhatsAppMessage[]> {
+  try {
+    const imageUrl = await generateVibeCheckComparisonImage(whatsappId, {
+      overall: reply.overall,
+      fit_silhouette: reply.fit_silhouette,
+      color_harmony: reply.color_harmony,
+      styling_details: reply.styling_details,
+      context_confidence: reply.context_confidence,
+      beforeImageUrl: reply.before_image_url,
+      afterImageUrl: reply.after_image_url,
+    });
+    return mediaMessage(imageUrl, reply.comment);
+  } catch (err: unknown) {
+    logger.warn({ whatsappId, err }, 'Failed to render comparison card, sending text instead');
+    return textMessages(vibeCheckComparisonCardToText(reply));
+  }
+}
+
+async function renderColorAnalysisCard(
+  reply: Extract<Reply, { reply_type: 'color_analysis_card' }>,
+  whatsappId: string,
+): Promise<WhatsAppMessage[]> {
+  try {
+    const imageUrl = await generateColorAnalysisImage(whatsappId, {
+      palette_name: reply.palette_name,
+      colors_suited: reply.top_colors,
+      colors_to_wear: { clothing: [], jewelry: [] },
+      colors_to_avoid: [],
+      userImageUrl: reply.user_image_url,
+    });
+    return mediaMessage(imageUrl, `*${reply.palette_name}*\n\n${reply.description}`);
+  } catch (err: unknown) {
+    logger.warn({ whatsappId, err }, 'Failed to render color analysis card, sending text instead');
+    return textMessages(colorAnalysisCardToText(reply));
+  }
+}
+
+/**
+ * Renders a single reply into the WhatsApp messages that represent it.
+ *
+ * @param reply - The agent reply to render
+ * @param whatsappId - The recipient's WhatsApp ID, used to store generated card images
+ */
+export async function renderWhatsAppReply(
+  reply: Reply,
+  whatsappId: string,
+): Promise<WhatsAppMessage[]> {
+  switch (reply.reply_type) {
+    case 'text':
+    case 'color_analysis_image_upload_request':
+    case 'vibe_check_image_upload_request':
+      return textMessages(reply.reply_text);
+    case 'quick_reply':
+    case 'list_picker':
+      return templateMessage(buttonTemplate(reply));
+    case 'image':
+    case 'pdf':
+      return mediaMessage(reply.media_url, reply.reply_text);
+    case 'product_card': {
+      const intro = reply.reply_text ? textMessages(reply.reply_text) : [];
+      const cards = reply.products.slice(0, MAX_PRODUCT_CARDS).flatMap((p) => {
+        const caption = [`*${p.name}* — ${p.brand}`, p.reason, p.productLink]
+          .filter(Boolean)
+          .join('\n');
+        return mediaMessage(p.imageUrl, caption);
+      });
+      return [...intro, ...cards];
+    }
+    case 'vibe_check_card':
+      return renderVibeCheckCard(reply, whatsappId);
+    case 'vibe_check_comparison_card':
+      return renderVibeCheckComparisonCard(reply, whatsappId);
+    case 'color_analysis_card':
+      return renderColorAnalysisCard(reply, whatsappId);
+  }
+}
+
+/**
+ * The WhatsApp channel. Inbound payloads are Twilio webhook forms; outbound messages are
+ * linked to the inbound message so Twilio status callbacks update its `message:{id}` hash.
+ */
+export class WhatsAppChannel implements Channel<Record<string, string>> {
+  readonly name = 'whatsapp' as const;
+  readonly capabilities = {
+    maxQuickReplyButtons: MAX_QUICK_REPLY_BUTTONS,
+    maxListItems: MAX_LIST_ITEMS,
+    media: true,
+    carousel: true,
+    richCards: true,
+  };
+
+  receive(form: Record<string, string>): ReceivedMessage {
+    const input = twilioFormToMessageInput(form);
+    if (!input.MessageSid || !input.WaId) {
+      throw new BadRequestError('Twilio webhook is missing MessageSid or WaId');
+    }
+    return { userId: input.WaId, messageId: input.MessageSid, input };
+  }
+
+  async send(target: DeliveryTarget, replies: Replies): Promise<void> {
+    const client = getTwilioClient();
+    const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
+    const statusCallback = serverUrl ? `${serverUrl}/twilio/callback/` : undefined;
+    const { messageId, userId: whatsappId, address } = target;
+
+    let count = 0;
+    for (const reply of replies) {
+      for (const message of await renderWhatsAppReply(reply, whatsappId)) {
+        const { sid } = await client.sendMessage({
+          ...message,
+          to: address,
+          ...(statusCallback ? { statusCallback } : {}),
+        });
+        await linkOutboundMessage(sid, messageId);
+        count += 1;
+      }
+    }
+    logger.info({ whatsappId, messageId, count }, 'Sent WhatsApp replies');
+  }
+}
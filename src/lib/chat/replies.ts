@@ -0,0 +1,242 @@
+import { z } from 'zod';
+
+/**
+ * The reply schema: the single source of truth for every reply variant the agent's nodes
+ * produce and clients receive. `sendReply` validates replies against it before they are
+ * persisted or delivered, and `npm run generate:reply-schema` derives the JSON Schema and
+ * TypeScript types in `packages/reply-schema` from it for frontend clients.
+ */
+
+// ================================
+// Building blocks
+// ================================
+
+export const QuickReplyButtonSchema = z
+  .object({
+    text: z.string().min(1).describe('Display text for the button'),
+    id: z.string().min(1).describe('Identifier sent back as the button payload when tapped'),
+  })
+  .meta({ id: 'QuickReplyButton', description: 'A tappable button' });
+
+export const ProductRecommendationSchema = z
+  .object({
+    name: z.string(),
+    brand: z.string(),
+    imageUrl: z.string(),
+    productLink: z.string(),
+    reason: z.string().optional().describe('Why the product was recommended'),
+  })
+  .meta({ id: 'ProductRecommendation', description: 'A recommended product' });
+
+export const ScoringCategorySchema = z
+  .object({
+    score: z.number().min(0).max(10),
+    explanation: z.string(),
+  })
+  .meta({
+    id: 'ScoringCategory',
+    description: 'A vibe check score out of 10 with its explanation',
+  });
+
+export const ScoreChangeSchema = z
+  .object({
+    before: z.number().min(0).max(10),
+    after: z.number().min(0).max(10),
+    change: z.number().describe('`after` minus `before`'),
+  })
+  .meta({
+    id: 'ScoreChange',
+    description: 'A vibe check score out of 10 before and after the user changed their outfit',
+  });
+
+export const ColorWithHexSchema = z
+  .object({
+    name: z.string(),
+    hex: z.string(),
+  })
+  .meta({ id: 'ColorWithHex' });
+
+export const CelebritySchema = z
+  .object({
+    name: z.string(),
+    imageUrl: z.string(),
+  })
+  .meta({ id: 'Celebrity' });
+
+export const SeasonalPaletteSchema = z
+  .enum([
+    'LIGHT_SPRING',
+    'WARM_SPRING',
+    'CLEAR_SPRING',
+    'LIGHT_SUMMER',
+    'COOL_SUMMER',
+    'SOFT_SUMMER',
+    'SOFT_AUTUMN',
+    'WARM_AUTUMN',
+    'DEEP_AUTUMN',
+    'COOL_WINTER',
+    'CLEAR_WINTER',
+    'DEEP_WINTER',
+  ])
+  .meta({ id: 'SeasonalPalette' });
+
+// ================================
+// Reply variants
+// ================================
+
+const TextReplySchema = z
+  .object({
+    reply_type: z.literal('text'),
+    reply_text: z.string().min(1),
+  })
+  .meta({ id: 'TextReply', description: 'Plain text message' });
+
+const QuickReplySchema = z
+  .object({
+    reply_type: z.literal('quick_reply'),
+    reply_text: z.string().min(1),
+    buttons: z.array(QuickReplyButtonSchema).min(1),
+  })
+  .meta({ id: 'QuickReply', description: 'Text with quick reply buttons' });
+
+const ListPickerReplySchema = z
+  .object({
+    reply_type: z.literal('list_picker'),
+    reply_text: z.string().min(1),
+    buttons: z.array(QuickReplyButtonSchema).min(1),
+  })
+  .meta({ id: 'ListPickerReply', description: 'Text with a list of options to pick from' });
+
+const ImageReplySchema = z
+  .object({
+    reply_type: z.literal('image'),
+    media_url: z.string().min(1),
+    reply_text: z.string().optional(),
+  })
+  .meta({ id: 'ImageReply', description: 'Image with an optional caption' });
+
+const ColorAnalysisImageUploadRequestSchema = z
+  .object({
+    reply_type: z.literal('color_analysis_image_upload_request'),
+    reply_text: z.string().min(1),
+  })
+  .meta({
+    id: 'ColorAnalysisImageUploadRequest',
+    description: 'Asks the user to upload a photo for color analysis',
+  });
+
+const VibeCheckImageUploadRequestSchema = z
+  .object({
+    reply_type: z.literal('vibe_check_image_upload_request'),
+    reply_text: z.string().min(1),
+  })
+  .meta({
+    id: 'VibeCheckImageUploadRequest',
+    description: 'Asks the user to upload an outfit photo for a vibe check',
+  });
+
+const ProductCardReplySchema = z
+  .object({
+    reply_type: z.literal('product_card'),
+    products: z.array(ProductRecommendationSchema).min(1),
+    reply_text: z.string().optional(),
+  })
+  .meta({ id: 'ProductCardReply', description: 'Carousel of recommended products' });
+
+const PdfReplySchema = z
+  .object({
+    reply_type: z.literal('pdf'),
+    media_url: z.string().min(1),
+    reply_text: z.string().optional(),
+  })
+  .meta({ id: 'PdfReply', description: 'PDF document with an optional caption' });
+
+const ColorAnalysisCardReplySchema = z
+  .object({
+    reply_type: z.literal('color_analysis_card'),
+    palette_name: SeasonalPaletteSchema,
+    description: z.string(),
+    top_colors: z.array(ColorWithHexSchema),
+    two_color_combos: z.array(z.array(ColorWithHexSchema)),
+    user_image_url: z.string().nullable(),
+    color_twin: z.array(CelebritySchema),
+  })
+  .meta({ id: 'ColorAnalysisCardReply', description: 'Color analysis result card' });
+
+const VibeCheckCardReplySchema = z
+  .object({
+    reply_type: z.literal('vibe_check_card'),
+    comment: z.string(),
+    fit_silhouette: ScoringCategorySchema,
+    color_harmony: ScoringCategorySchema,
+    styling_details: ScoringCategorySchema,
+    context_confidence: ScoringCategorySchema,
+    overall_score: z.number().min(0).max(10),
+    recommendations: z.array(z.string()),
+    user_image_url: z.string().nullable(),
+  })
+  .meta({ id: 'VibeCheckCardReply', description: 'Vibe check result card' });
+
+const DimensionChangeSchema = ScoreChangeSchema.extend({
+  explanation: z.string().describe('Explanation of the `after` score'),
+}).meta({ id: 'DimensionChange', description: 'A vibe check dimension before and after' });
+
+const VibeCheckComparisonCardReplySchema = z
+  .object({
+    reply_type: z.literal('vibe_check_comparison_card'),
+    comment: z.string(),
+    overall: ScoreChangeSchema,
+    fit_silhouette: DimensionChangeSchema,
+    color_harmony: DimensionChangeSchema,
+    styling_details: DimensionChangeSchema,
+    context_confidence: DimensionChangeSchema,
+    recommendations: z.array(z.string()),
+    before_image_url: z.string().nullable(),
+    after_image_url: z.string().nullable(),
+  })
+  .meta({
+    id: 'VibeCheckComparisonCardReply',
+    description: 'Before/after vibe check card comparing a follow-up photo with the earlier check',
+  });
+
+export const ReplySchema = z
+  .discriminatedUnion('reply_type', [
+    TextReplySchema,
+    QuickReplySchema,
+    ListPickerReplySchema,
+    ImageReplySchema,
+    ColorAnalysisImageUploadRequestSchema,
+    VibeCheckImageUploadRequestSchema,
+    ProductCardReplySchema,
+    PdfReplySchema,
+    ColorAnalysisCardReplySchema,
+    VibeCheckCardReplySchema,
+    VibeCheckComparisonCardReplySchema,
+  ])
+  .meta({ id: 'Reply', description: 'A single reply, rendered according to its reply_type' });
+
+export const RepliesSchema = z
+  .array(ReplySchema)
+  .describe('The replies that make up one agent response, in display order');
+
+export type QuickReplyButton = z.infer<typeof QuickReplyButtonSchema>;
+export type ProductRecommendation = z.infer<typeof ProductRecommendationSchema>;
+export type ScoringCategory = z.infer<typeof ScoringCategorySchema>;
+export type ScoreChange = z.infer<typeof ScoreChangeSchema>;
+
+/**
+ * Standard reply structure for agent responses.
+ * Defines the format for all message types the agent can send back to users.
+ */
+export type Reply = z.infer<typeof ReplySchema>;
+
+/**
+ * Array of reply structures that define a complete agent response.
+ * Multiple replies allow for complex interactions like image + text + quick replies.
+ */
+export type Replies = Reply[];
+
+/**
+ * All reply type discriminators.
+ */
+export type ReplyType = Reply['reply_type'];
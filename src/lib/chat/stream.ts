@@ -0,0 +1,76 @@
+import type { Response } from 'express';
+
+import type { GraphState } from '../../agent/state';
+import type { ResponseMetadata } from './types';
+
+/**
+ * Helpers for the Server-Sent Events variant of the chat API (`/api/chat/stream`).
+ *
+ * A streamed turn emits, in order:
+ * - `node_start` / `node_end` as the agent graph moves through its nodes
+ * - `token` for each text delta produced by a model while a node is running
+ * - `replies` exactly once with the final replies (same payload as `/api/chat`)
+ * - `error` instead of `replies` if the run failed
+ */
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Union of all events written to the chat event stream.
+ */
+export type ChatStreamEvent =
+  | { event: 'node_start'; data: { node: string } }
+  | { event: 'node_end'; data: { node: string; duration_ms: number } }
+  | { event: 'token'; data: { node: string; delta: string } }
+  | {
+      event: 'replies';
+      data: {
+        replies: NonNullable<GraphState['deliveredReplies']>;
+        pending: GraphState['pending'];
+        metadata: ResponseMetadata;
+      };
+    }
+  | { event: 'error'; data: { message: string; statusCode: number } };
+
+/**
+ * Prepares the response for Server-Sent Events and starts a heartbeat so that
+ * proxies do not close the connection during long-running nodes.
+ *
+ * @param res - The Express response to stream to
+ * @returns A function that stops the heartbeat and ends the stream
+ */
+export function openEventStream(res: Response): () => void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable response buffering on nginx-style proxies
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(': keep-alive\n\n');
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) {
+      res.end();
+    }
+  };
+}
+
+/**
+ * Writes a single event to the stream. Writes after the client disconnected are dropped.
+ *
+ * @param res - The Express response opened with `openEventStream`
+ * @param event - The event to send
+ */
+export function writeStreamEvent(res: Response, event: ChatStreamEvent): void {
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+  res.write(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
@@ -5,6 +5,8 @@
  * and responses through the HTTP API endpoint.
  */
 
+import type { QuickReplyButton, Replies, Reply } from './replies';
+
 // ================================
 // Request Types
 // ================================
@@ -107,78 +109,7 @@ export interface MessageInput {
 // Response Types
 // ================================
 
-/**
- * Represents a quick reply button in a response.
- */
-export interface QuickReplyButton {
-  /** Display text for the button */
-  text: string;
-  /** Unique identifier for the button */
-  id: string;
-}
-
-/**
- * Union type for different reply formats with clear UI expectations.
- *
- * Each reply type indicates exactly what the frontend should render:
- * - 'text_only': Plain text message
- * - 'text_with_buttons': Text message with action buttons below
- * - 'buttons_only': Just buttons (no text), implies quick reply interface
- * - 'image_with_caption': Image with optional caption text
- * - 'carousel': Multiple items/cards (for future use)
- */
-export type Reply =
-  | {
-      /** Plain text message - render as simple text bubble */
-      reply_type: 'text_only';
-      /** The text content to display */
-      reply_text: string;
-      /** Expected user action: 'continue' | 'wait' | 'input_required' */
-      expected_action?: 'continue' | 'wait' | 'input_required';
-    }
-  | {
-      /** Text with interactive buttons - render text above button row */
-      reply_type: 'text_with_buttons';
-      /** Main message text */
-      reply_text: string;
-      /** Action buttons for user interaction */
-      buttons: QuickReplyButton[];
-      /** Expected user action: 'button_click' | 'input_required' */
-      expected_action?: 'button_click' | 'input_required';
-    }
-  | {
-      /** Quick reply buttons only - render as floating/quick reply buttons */
-      reply_type: 'buttons_only';
-      /** No text content (buttons imply the message) */
-      reply_text?: string;
-      /** Quick reply buttons */
-      buttons: QuickReplyButton[];
-      /** Expected user action: 'button_click' */
-      expected_action?: 'button_click';
-    }
-  | {
-      /** Image with optional caption - render as media message */
-      reply_type: 'image_with_caption';
-      /** Image URL */
-      media_url: string;
-      /** Optional caption text below image */
-      reply_text?: string;
-      /** Expected user action: 'continue' | 'feedback' */
-      expected_action?: 'continue' | 'feedback';
-    }
-  | {
-      /** Multiple items carousel - for future use */
-      reply_type: 'carousel';
-      /** Carousel items (structure TBD) */
-      items: any[];
-      /** Expected user action: 'item_select' */
-      expected_action?: 'item_select';
-    };
-
-/**
- * Array of replies that make up a complete response.
- */
-export type Replies = Reply[];
+export type { QuickReplyButton, Replies, Reply, ReplyType } from './replies';
 
 /**
  * Response metadata providing context about the conversation state.
@@ -199,11 +130,15 @@ export interface ResponseMetadata {
 /**
  * Response structure for the /api/chat endpoint.
  *
- * Frontend should handle each reply based on its reply_type:
- * - text_only: Simple text display
- * - text_with_buttons: Text + button grid below
- * - buttons_only: Quick reply buttons (floating/suggested)
- * - image_with_caption: Media display with caption
+ * Frontend should handle each reply based on its reply_type (see `./replies` and the
+ * generated `packages/reply-schema` for the full shapes):
+ * - text: Simple text display
+ * - quick_reply / list_picker: Text + buttons or an option list
+ * - image / pdf: Media display with optional caption
+ * - color_analysis_image_upload_request / vibe_check_image_upload_request: Text + photo upload prompt
+ * - product_card: Product carousel
+ * - color_analysis_card / vibe_check_card: Result cards
+ * - vibe_check_comparison_card: Before/after scores of a follow-up vibe check
  */
 export interface ChatResponse {
   /** Array of reply messages with clear UI expectations */
@@ -260,8 +195,8 @@ export function validateChatRequest(request: ChatRequest): string[] {
 /**
  * Type guard to check if a reply is text-only.
  */
-export function isTextOnlyReply(reply: Reply): reply is Extract<Reply, { reply_type: 'text_only' }> {
-  return reply.reply_type === 'text_only';
+export function isTextOnlyReply(reply: Reply): reply is Extract<Reply, { reply_type: 'text' }> {
+  return reply.reply_type === 'text';
 }
 
 /**
@@ -324,19 +259,18 @@ export const EXAMPLE_CHAT_RESPONSE: ChatResponse = {
   replies: [
     // Text-only greeting
     {
-      reply_type: 'text_only',
-      reply_text: 'Hello! I\'m your personal stylist. What can I help you with today?',
-      expected_action: 'input_required'
+      reply_type: 'text',
+      reply_text: 'Hello! I\'m your personal stylist. What can I help you with today?'
     },
     // Quick reply buttons
     {
-      reply_type: 'buttons_only',
+      reply_type: 'quick_reply',
+      reply_text: 'Pick one to get started:',
       buttons: [
         { text: 'Find outfit ideas', id: 'outfit_ideas' },
         { text: 'Style my photo', id: 'style_photo' },
         { text: 'Color analysis', id: 'color_analysis' }
-      ],
-      expected_action: 'button_click'
+      ]
     }
   ],
   pending: null
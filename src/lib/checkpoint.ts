@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from './prisma';
+
+/**
+ * @file Checkpointers persist the state of a `StateGraph` run after every completed node,
+ * so a crashed or aborted run can be resumed from the last completed node and later runs
+ * can pick up state left behind by earlier ones.
+ */
+
+/**
+ * A snapshot of a graph run taken right after a node completed.
+ */
+export interface Checkpoint<TState> {
+  /** The graph run this checkpoint belongs to */
+  runId: string;
+  /** Monotonically increasing step number within the run, starting at 1 */
+  step: number;
+  /** The node that just completed */
+  node: string;
+  /** The node that will run next (`END` once the run finished) */
+  next: string;
+  /** The full state after the node's update was merged */
+  state: TState;
+  createdAt: Date;
+}
+
+/**
+ * Storage backend for graph checkpoints.
+ */
+export interface Checkpointer<TState> {
+  /** Persists a checkpoint. Called by the graph after every completed node. */
+  put(checkpoint: Checkpoint<TState>): Promise<void>;
+  /** Returns the most recent checkpoint of a run, or `null` if none exists. */
+  getLatest(runId: string): Promise<Checkpoint<TState> | null>;
+  /**
+   * Deletes a finished run's intermediate checkpoints, keeping its latest one and those
+   * taken after any of `keepNodes`.
+   */
+  compact(runId: string, keepNodes?: string[]): Promise<void>;
+  /** Deletes checkpoints taken before `cutoff` and returns how many were removed. */
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
+
+/**
+ * Converts graph state to and from a JSON-safe representation for durable storage.
+ */
+export interface StateSerializer<TState> {
+  serialize(state: TState): Prisma.InputJsonValue;
+  deserialize(value: Prisma.JsonValue): TState;
+}
+
+/**
+ * Keeps checkpoints in process memory. Useful for local development and scripts;
+ * checkpoints are lost on restart.
+ */
+export class MemoryCheckpointer<TState> implements Checkpointer<TState> {
+  private readonly checkpoints = new Map<string, Checkpoint<TState>[]>();
+
+  async put(checkpoint: Checkpoint<TState>): Promise<void> {
+    const runCheckpoints = this.checkpoints.get(checkpoint.runId) ?? [];
+    runCheckpoints.push({ ...checkpoint, state: { ...checkpoint.state } });
+    this.checkpoints.set(checkpoint.runId, runCheckpoints);
+  }
+
+  async getLatest(runId: string): Promise<Checkpoint<TState> | null> {
+    const runCheckpoints = this.checkpoints.get(runId);
+    return runCheckpoints?.[runCheckpoints.length - 1] ?? null;
+  }
+
+  async compact(runId: string, keepNodes: string[] = []): Promise<void> {
+    const runCheckpoints = this.checkpoints.get(runId);
+    if (!runCheckpoints) {
+      return;
+    }
+    const latest = runCheckpoints[runCheckpoints.length - 1];
+    this.checkpoints.set(
+      runId,
+      runCheckpoints.filter((c) => c === latest || keepNodes.includes(c.node)),
+    );
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [runId, runCheckpoints] of this.checkpoints) {
+      const kept = runCheckpoints.filter((c) => c.createdAt >= cutoff);
+      deleted += runCheckpoints.length - kept.length;
+      if (kept.length > 0) {
+        this.checkpoints.set(runId, kept);
+      } else {
+        this.checkpoints.delete(runId);
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Stores checkpoints in the `GraphCheckpoint` table, keyed by graph run and step.
+ */
+export class PostgresCheckpointer<TState> implements Checkpointer<TState> {
+  constructor(private readonly serializer: StateSerializer<TState>) {}
+
+  async put(checkpoint: Checkpoint<TState>): Promise<void> {
+    await prisma.graphCheckpoint.create({
+      data: {
+        graphRunId: checkpoint.runId,
+        step: checkpoint.step,
+        node: checkpoint.node,
+        next: checkpoint.next,
+        state: this.serializer.serialize(checkpoint.state),
+        createdAt: checkpoint.createdAt,
+      },
+    });
+  }
+
+  async getLatest(runId: string): Promise<Checkpoint<TState> | null> {
+    const row = await prisma.graphCheckpoint.findFirst({
+      where: { graphRunId: runId },
+      orderBy: { step: 'desc' },
+    });
+    if (!row) {
+      return null;
+    }
+    return {
+      runId: row.graphRunId,
+      step: row.step,
+      node: row.node,
+      next: row.next,
+      state: this.serializer.deserialize(row.state),
+      createdAt: row.createdAt,
+    };
+  }
+
+  async compact(runId: string, keepNodes: string[] = []): Promise<void> {
+    const latest = await prisma.graphCheckpoint.findFirst({
+      where: { graphRunId: runId },
+      orderBy: { step: 'desc' },
+      select: { step: true },
+    });
+    if (!latest) {
+      return;
+    }
+    await prisma.graphCheckpoint.deleteMany({
+      where: { graphRunId: runId, step: { lt: latest.step }, node: { notIn: keepNodes } },
+    });
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const { count } = await prisma.graphCheckpoint.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+    return count;
+  }
+}
@@ -1,19 +1,36 @@
 import { createId } from '@paralleldrive/cuid2';
 import type { BufferedNodeRun, TraceBuffer } from '../agent/tracing';
+import type { Checkpointer } from './checkpoint';
 
 /**
  * @file A custom, lightweight implementation of a state graph inspired by LangGraph.
- * It supports nodes, edges, and conditional edges to build and run stateful, cyclical graphs.
+ * It supports nodes, edges, conditional edges and parallel fan-out/join edges to build
+ * and run stateful, cyclical graphs. Nodes can declare a policy with a timeout, retries
+ * and a fallback node to degrade to when all attempts fail.
  */
 
 export const START = 'START' as const;
 export const END = 'END' as const;
 
+/**
+ * Passed to every node attempt alongside the state.
+ */
+export interface NodeContext {
+  /**
+   * Fires when the attempt times out or the run is aborted. Nodes with side effects should
+   * check it before writing, so an abandoned attempt does not write after its retry.
+   */
+  signal: AbortSignal;
+}
+
 /**
  * Represents a function that can be executed as a node in the graph.
  * It receives the current state and returns a partial state to be merged.
  */
-type NodeFunction<TState> = (state: TState) => Promise<Partial<TState>> | Partial<TState>;
+type NodeFunction<TState> = (
+  state: TState,
+  context: NodeContext,
+) => Promise<Partial<TState>> | Partial<TState>;
 
 /**
  * A function that resolves a string key to determine the next node in a conditional edge.
@@ -33,6 +50,84 @@ interface ConditionalEdge<TState> extends Edge {
   targets: Record<string, string>;
 }
 
+/**
+ * Merges the value a parallel branch wrote to a state field into the value accumulated so far.
+ */
+export type Reducer<TValue> = (current: TValue, update: TValue) => TValue;
+
+/**
+ * Per-field reducers used when joining parallel branches.
+ */
+export type StateReducers<TState> = { [K in keyof TState]?: Reducer<TState[K]> };
+
+interface ParallelEdge<TState> extends Edge {
+  branches: string[];
+  join: string;
+  reducers: StateReducers<TState>;
+}
+
+type GraphEdge<TState> = DirectEdge | ConditionalEdge<TState> | ParallelEdge<TState>;
+
+/**
+ * Controls how a node is executed: how long an attempt may take, how often it is retried and
+ * where the run continues once every attempt failed.
+ */
+export interface NodePolicy<TState> {
+  /**
+   * Maximum duration of a single attempt. Timed-out attempts fail with a `NodeTimeoutError`,
+   * which also fires the attempt's `NodeContext.signal`.
+   */
+  timeoutMs?: number;
+  /** Number of additional attempts after the first one fails. Defaults to 0. */
+  retries?: number;
+  /** Delay before the first retry, doubled for every following retry. Defaults to 0. */
+  backoffMs?: number;
+  /**
+   * Node to continue with once all attempts failed, instead of failing the run. The fallback
+   * node then follows its own outgoing edge.
+   */
+  fallback?: {
+    node: string;
+    /** Patches the state before the fallback node runs, e.g. to select an apology reply. */
+    update?: (state: TState, error: unknown) => Partial<TState>;
+  };
+}
+
+/**
+ * Thrown when a node attempt exceeds the `timeoutMs` of its policy.
+ */
+export class NodeTimeoutError extends Error {
+  constructor(nodeName: string, timeoutMs: number) {
+    super(`Node "${nodeName}" timed out after ${timeoutMs}ms.`);
+    this.name = 'NodeTimeoutError';
+  }
+}
+
+/**
+ * Receives progress notifications while the graph is executing, e.g. to stream them to a client.
+ */
+export interface GraphListener {
+  /** Called right before a node starts executing. */
+  onNodeStart?: (nodeName: string) => void;
+  /** Called after a node has finished executing successfully. */
+  onNodeEnd?: (nodeName: string, durationMs: number) => void;
+}
+
+/**
+ * Per-invocation options shared by `invoke` and `resume`.
+ */
+export interface InvokeConfig {
+  signal?: AbortSignal;
+  /** The graph run ID. Required for tracing and checkpointing. */
+  runId?: string;
+  listener?: GraphListener;
+  /**
+   * Stops the run right before any of these nodes would execute and returns the state as
+   * it is at that point, e.g. to inspect a run without its side-effecting final nodes.
+   */
+  interruptBefore?: string[];
+}
+
 /**
  * A class for building and running stateful graphs.
  * The graph is defined by a set of nodes and edges, and it processes data
@@ -40,20 +135,34 @@ interface ConditionalEdge<TState> extends Edge {
  */
 export class StateGraph<TState extends object> {
   private readonly nodes = new Map<string, NodeFunction<TState>>();
-  private readonly edges = new Map<string, DirectEdge | ConditionalEdge<TState>>();
+  private readonly policies = new Map<string, NodePolicy<TState>>();
+  private readonly edges = new Map<string, GraphEdge<TState>>();
   private startNode = '';
 
   /**
    * Adds a node to the graph.
    * @param name - The unique identifier for the node.
    * @param node - The function to execute for this node.
+   * @param policy - Optional timeout, retry and fallback behaviour for this node.
    * @returns The `StateGraph` instance for chaining.
    */
-  addNode(name: string, node: NodeFunction<TState>): this {
+  addNode(name: string, node: NodeFunction<TState>, policy?: NodePolicy<TState>): this {
     if (this.nodes.has(name)) {
       throw new Error(`Node "${name}" is already defined.`);
     }
+    if (
+      policy?.retries !== undefined &&
+      (!Number.isInteger(policy.retries) || policy.retries < 0)
+    ) {
+      throw new Error(`Node "${name}" must have a non-negative integer retry count.`);
+    }
+    if (policy?.timeoutMs !== undefined && policy.timeoutMs <= 0) {
+      throw new Error(`Node "${name}" must have a positive timeout.`);
+    }
     this.nodes.set(name, node);
+    if (policy) {
+      this.policies.set(name, policy);
+    }
     return this;
   }
 
@@ -100,100 +209,597 @@ export class StateGraph<TState extends object> {
   }
 
   /**
-   * Compiles the graph into an executable object.
-   * @returns An object with an `invoke` method to run the graph.
+   * Adds a parallel edge: after `source` completes, all `branches` run concurrently on the
+   * same state, their updates are merged and execution continues at `join`.
+   *
+   * A field changed by a single branch is taken as-is. A field changed by several branches
+   * is combined with its reducer (applied in branch order, starting from the pre-fan-out
+   * value); without a reducer this is an error. Branch nodes must not have edges of their own.
+   *
+   * For checkpointing, the branches are part of the `source` step: a run interrupted while
+   * branches execute resumes by re-running `source`.
+   *
+   * @param source - The name of the node to fan out from.
+   * @param branches - The nodes to run concurrently.
+   * @param join - The node to continue with once all branches have completed.
+   * @param reducers - Optional per-field reducers for merging branch updates.
+   * @returns The `StateGraph` instance for chaining.
    */
-  compile() {
-    if (!this.startNode) {
-      throw new Error('Graph must have a starting point defined with `addEdge(START, ...)`.');
+  addParallelEdges(
+    source: string,
+    branches: string[],
+    join: string,
+    reducers: StateReducers<TState> = {},
+  ): this {
+    if (this.edges.has(source)) {
+      throw new Error(`An edge from "${source}" is already defined.`);
+    }
+    if (branches.length < 2) {
+      throw new Error(`Parallel edge from "${source}" needs at least two branches.`);
+    }
+    if (new Set(branches).size !== branches.length) {
+      throw new Error(`Parallel edge from "${source}" has duplicate branches.`);
+    }
+    if (branches.includes(join)) {
+      throw new Error(`Join node "${join}" cannot also be a branch of "${source}".`);
     }
+    this.edges.set(source, { source, branches, join, reducers });
+    return this;
+  }
+
+  /**
+   * Compiles the graph into an executable object.
+   * @param options - Optional compile options, including a checkpointer that persists state after every node.
+   * @returns An object with `invoke` and `resume` methods to run the graph.
+   */
+  compile(options: { checkpointer?: Checkpointer<TState> } = {}) {
+    this.validate();
+    const { checkpointer } = options;
 
     return {
+      /** Renders the compiled graph as a Mermaid flowchart. */
+      toMermaid: () => this.toMermaid(),
+      /** Renders the compiled graph in Graphviz DOT format. */
+      toDot: () => this.toDot(),
+
       /**
        * Executes the graph with a given initial state.
        * @param initialState - The initial state to begin execution with.
-       * @param config - Optional configuration, including an AbortSignal.
+       * @param config - Optional configuration, including an AbortSignal and a progress listener.
        * @returns A promise that resolves with the final state of the graph.
        */
-      invoke: async (
-        initialState: TState,
-        config: { signal?: AbortSignal; runId?: string } = {},
+      invoke: (initialState: TState, config: InvokeConfig = {}): Promise<TState> =>
+        this.execute(this.startNode, { ...initialState }, 0, config, checkpointer),
+
+      /**
+       * Resumes a run from its latest checkpoint, continuing with the node after the last
+       * completed one. Returns the checkpointed state as-is if the run had already finished.
+       * @param runId - The graph run to resume.
+       * @param config - Optional configuration, including an AbortSignal and a progress listener.
+       * @param prepareState - Optional hook to patch the restored state (e.g. re-attach non-serializable fields).
+       * @returns A promise that resolves with the final state of the graph.
+       */
+      resume: async (
+        runId: string,
+        config: Omit<InvokeConfig, 'runId'> = {},
+        prepareState: (state: TState) => TState = (state) => state,
       ): Promise<TState> => {
-        let currentNodeName = this.startNode;
-        let currentState = { ...initialState };
-        const { signal, runId: graphRunId } = config;
-
-        while (currentNodeName !== END) {
-          if (signal?.aborted) {
-            const error = new Error('Graph execution aborted');
-            error.name = 'AbortError';
-            throw error;
-          }
-
-          const currentNode = this.nodes.get(currentNodeName);
-          if (!currentNode) {
-            throw new Error(`Node "${currentNodeName}" not found.`);
-          }
-
-          const startTime = new Date();
-          const nodeRunId = createId();
-
-          const traceCandidate = (currentState as { traceBuffer?: TraceBuffer }).traceBuffer;
-          const traceBuffer: TraceBuffer | null =
-            graphRunId && traceCandidate ? traceCandidate : null;
-          let nodeRunEntry: BufferedNodeRun | null = null;
-          if (traceBuffer) {
-            nodeRunEntry = {
-              id: nodeRunId,
-              nodeName: currentNodeName,
-              startTime,
-              createdAt: startTime,
-              updatedAt: startTime,
-            };
-            traceBuffer.nodeRuns.push(nodeRunEntry);
-          }
-
-          let stateUpdate: Partial<TState> | undefined;
-          try {
-            stateUpdate = await currentNode(currentState);
-          } catch (e) {
-            // Rethrow the error to be handled by the global graph run handler.
-            // The node execution will be left in a pending state (no endTime), which is expected.
-            throw e;
-          }
-
-          if (nodeRunEntry) {
-            const endTime = new Date();
-            nodeRunEntry.endTime = endTime;
-            nodeRunEntry.durationMs = endTime.getTime() - startTime.getTime();
-            nodeRunEntry.updatedAt = endTime;
-          }
-          if (stateUpdate !== undefined) {
-            currentState = { ...currentState, ...stateUpdate };
-          }
-
-          const edge = this.edges.get(currentNodeName);
-          if (!edge) {
-            throw new Error(
-              `No edge found from node "${currentNodeName}". All nodes must have an outgoing edge.`,
-            );
-          }
-
-          if ('target' in edge) {
-            currentNodeName = edge.target;
-          } else {
-            const targetKey = edge.resolver(currentState);
-            const nextNode = edge.targets[targetKey];
-            if (!nextNode) {
-              throw new Error(
-                `Conditional edge from "${currentNodeName}" resolved to "${targetKey}", which is not a valid target.`,
-              );
-            }
-            currentNodeName = nextNode;
-          }
+        if (!checkpointer) {
+          throw new Error('Cannot resume a run on a graph compiled without a checkpointer.');
+        }
+        const checkpoint = await checkpointer.getLatest(runId);
+        if (!checkpoint) {
+          throw new Error(`No checkpoint found for run "${runId}".`);
+        }
+        const state = prepareState(checkpoint.state);
+        if (checkpoint.next === END) {
+          return state;
         }
-        return currentState;
+        return this.execute(
+          checkpoint.next,
+          state,
+          checkpoint.step,
+          { ...config, runId },
+          checkpointer,
+        );
       },
     };
   }
+
+  /**
+   * Verifies the graph structure: every edge points at an existing node, every node has
+   * an outgoing edge, every node is reachable from the start and every node can reach `END`.
+   * All problems are reported together.
+   * @throws {Error} If the graph is invalid.
+   */
+  validate(): void {
+    if (!this.startNode) {
+      throw new Error('Graph must have a starting point defined with `addEdge(START, ...)`.');
+    }
+
+    const problems: string[] = [];
+    const isTarget = (name: string) => name === END || this.nodes.has(name);
+
+    if (!this.nodes.has(this.startNode)) {
+      problems.push(`Start node "${this.startNode}" does not exist.`);
+    }
+
+    const branchNodes = new Set<string>();
+    for (const edge of this.edges.values()) {
+      if ('branches' in edge) {
+        edge.branches.forEach((branch) => branchNodes.add(branch));
+      }
+    }
+
+    for (const [source, edge] of this.edges) {
+      if (!this.nodes.has(source)) {
+        problems.push(`Edge source "${source}" does not exist.`);
+      }
+      for (const target of this.edgeTargets(edge)) {
+        if (!isTarget(target)) {
+          problems.push(`Edge from "${source}" points to unknown node "${target}".`);
+        }
+      }
+    }
+
+    for (const [name, policy] of this.policies) {
+      if (!policy.fallback) continue;
+      if (!this.nodes.has(policy.fallback.node)) {
+        problems.push(`Fallback of "${name}" points to unknown node "${policy.fallback.node}".`);
+      }
+      if (branchNodes.has(name)) {
+        problems.push(`Parallel branch "${name}" cannot declare a fallback node.`);
+      }
+    }
+
+    for (const name of this.nodes.keys()) {
+      if (branchNodes.has(name)) {
+        if (this.edges.has(name)) {
+          problems.push(`Parallel branch "${name}" must not have its own outgoing edge.`);
+        }
+      } else if (!this.edges.has(name)) {
+        problems.push(`Node "${name}" has no outgoing edge.`);
+      }
+    }
+
+    // Forward reachability from the start node
+    const successors = new Map<string, string[]>();
+    for (const [source, edge] of this.edges) {
+      successors.set(source, this.edgeTargets(edge));
+      if ('branches' in edge) {
+        edge.branches.forEach((branch) => successors.set(branch, [edge.join]));
+      }
+    }
+    for (const [name, policy] of this.policies) {
+      if (policy.fallback) {
+        successors.set(name, [...(successors.get(name) ?? []), policy.fallback.node]);
+      }
+    }
+    const reachable = traverse([this.startNode], (name) => successors.get(name) ?? []);
+    for (const name of this.nodes.keys()) {
+      if (!reachable.has(name)) {
+        problems.push(`Node "${name}" is not reachable from the start node.`);
+      }
+    }
+
+    // Backward reachability from END
+    const predecessors = new Map<string, string[]>();
+    for (const [source, targets] of successors) {
+      for (const target of targets) {
+        predecessors.set(target, [...(predecessors.get(target) ?? []), source]);
+      }
+    }
+    const reachesEnd = traverse([END], (name) => predecessors.get(name) ?? []);
+    for (const name of this.nodes.keys()) {
+      if (reachable.has(name) && !reachesEnd.has(name)) {
+        problems.push(`Node "${name}" can never reach END.`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid graph:\n- ${problems.join('\n- ')}`);
+    }
+  }
+
+  /**
+   * Renders the graph as a Mermaid flowchart. Conditional edges are dotted and labelled
+   * with their resolver keys, fallback edges are labelled `on error` and parallel edges
+   * are drawn thick.
+   * @returns The Mermaid source.
+   */
+  toMermaid(): string {
+    const id = (name: string) =>
+      name === START ? '__start__' : name === END ? '__end__' : name.replace(/[^\w]/g, '_');
+    const lines = ['flowchart TD', `  ${id(START)}([START])`, `  ${id(END)}([END])`];
+    for (const name of this.nodes.keys()) {
+      lines.push(`  ${id(name)}[${name}]`);
+    }
+    lines.push(`  ${id(START)} --> ${id(this.startNode)}`);
+
+    for (const [source, edge] of this.edges) {
+      if ('target' in edge) {
+        lines.push(`  ${id(source)} --> ${id(edge.target)}`);
+      } else if ('branches' in edge) {
+        for (const branch of edge.branches) {
+          lines.push(`  ${id(source)} ==> ${id(branch)}`);
+          lines.push(`  ${id(branch)} ==> ${id(edge.join)}`);
+        }
+      } else {
+        for (const [target, keys] of groupConditionalTargets(edge.targets)) {
+          lines.push(`  ${id(source)} -.->|${keys.join(' / ')}| ${id(target)}`);
+        }
+      }
+    }
+    for (const [name, policy] of this.policies) {
+      if (policy.fallback) {
+        lines.push(`  ${id(name)} -.->|on error| ${id(policy.fallback.node)}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Renders the graph in Graphviz DOT format. Conditional edges are dashed and labelled
+   * with their resolver keys, fallback edges are dotted red and parallel edges are bold.
+   * @returns The DOT source.
+   */
+  toDot(): string {
+    const q = (name: string) => JSON.stringify(name);
+    const lines = [
+      'digraph StateGraph {',
+      '  rankdir=TB;',
+      '  node [shape=box, style=rounded, fontname="Helvetica"];',
+      `  ${q(START)} [shape=oval];`,
+      `  ${q(END)} [shape=oval];`,
+    ];
+    for (const name of this.nodes.keys()) {
+      lines.push(`  ${q(name)};`);
+    }
+    lines.push(`  ${q(START)} -> ${q(this.startNode)};`);
+
+    for (const [source, edge] of this.edges) {
+      if ('target' in edge) {
+        lines.push(`  ${q(source)} -> ${q(edge.target)};`);
+      } else if ('branches' in edge) {
+        for (const branch of edge.branches) {
+          lines.push(`  ${q(source)} -> ${q(branch)} [style=bold];`);
+          lines.push(`  ${q(branch)} -> ${q(edge.join)} [style=bold];`);
+        }
+      } else {
+        for (const [target, keys] of groupConditionalTargets(edge.targets)) {
+          lines.push(`  ${q(source)} -> ${q(target)} [style=dashed, label=${q(keys.join('\n'))}];`);
+        }
+      }
+    }
+    for (const [name, policy] of this.policies) {
+      if (policy.fallback) {
+        lines.push(
+          `  ${q(name)} -> ${q(policy.fallback.node)} [style=dotted, color=red, label="on error"];`,
+        );
+      }
+    }
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private edgeTargets(edge: GraphEdge<TState>): string[] {
+    if ('target' in edge) {
+      return [edge.target];
+    }
+    if ('branches' in edge) {
+      return [...edge.branches];
+    }
+    return [...new Set(Object.values(edge.targets))];
+  }
+
+  private async execute(
+    startNodeName: string,
+    initialState: TState,
+    initialStep: number,
+    config: InvokeConfig,
+    checkpointer: Checkpointer<TState> | undefined,
+  ): Promise<TState> {
+    let currentNodeName = startNodeName;
+    let currentState = initialState;
+    let step = initialStep;
+    const { runId: graphRunId } = config;
+
+    while (currentNodeName !== END) {
+      throwIfAborted(config.signal);
+      if (config.interruptBefore?.includes(currentNodeName)) {
+        break;
+      }
+
+      const { update: stateUpdate, fallback } = await this.runNode(
+        currentNodeName,
+        currentState,
+        config,
+      );
+      if (stateUpdate !== undefined) {
+        currentState = { ...currentState, ...stateUpdate };
+      }
+
+      const completedNodeName = currentNodeName;
+      const edge = this.edges.get(currentNodeName);
+      if (fallback) {
+        currentNodeName = fallback;
+      } else if (edge && 'branches' in edge) {
+        throwIfAborted(config.signal);
+        currentState = await this.runBranches(edge, currentState, config);
+        currentNodeName = edge.join;
+      } else {
+        currentNodeName = this.resolveNext(currentNodeName, currentState);
+      }
+
+      step += 1;
+      if (checkpointer && graphRunId) {
+        await checkpointer.put({
+          runId: graphRunId,
+          step,
+          node: completedNodeName,
+          next: currentNodeName,
+          state: currentState,
+          createdAt: new Date(),
+        });
+      }
+    }
+    return currentState;
+  }
+
+  /**
+   * Executes a single node according to its policy. Every attempt is recorded as its own
+   * `NodeRun` in the state's trace buffer and reported to the listener. When all attempts
+   * fail and the policy declares a fallback, the returned `fallback` names the node to
+   * continue with and `update` holds the fallback's state patch.
+   */
+  private async runNode(
+    nodeName: string,
+    state: TState,
+    config: InvokeConfig,
+  ): Promise<{ update: Partial<TState> | undefined; fallback?: string }> {
+    const node = this.nodes.get(nodeName);
+    if (!node) {
+      throw new Error(`Node "${nodeName}" not found.`);
+    }
+    const policy = this.policies.get(nodeName) ?? {};
+    const maxAttempts = (policy.retries ?? 0) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { update: await this.runAttempt(nodeName, node, state, attempt, policy, config) };
+      } catch (err) {
+        if (config.signal?.aborted || (err instanceof Error && err.name === 'AbortError')) {
+          throw err;
+        }
+        if (attempt < maxAttempts) {
+          await sleep((policy.backoffMs ?? 0) * 2 ** (attempt - 1), config.signal);
+          continue;
+        }
+        if (!policy.fallback) {
+          throw err;
+        }
+        const { node: fallbackNode, update } = policy.fallback;
+        return { update: update?.(state, err), fallback: fallbackNode };
+      }
+    }
+  }
+
+  /**
+   * Executes one attempt of a node, enforcing the policy's timeout. Each attempt gets its own
+   * abort signal, fired on timeout or when the run is aborted, and its own copy of the trace
+   * buffer carrying that signal and the attempt's `NodeRun` ID, so model calls of an abandoned
+   * attempt are cancelled and traced against that attempt rather than its retry.
+   */
+  private async runAttempt(
+    nodeName: string,
+    node: NodeFunction<TState>,
+    state: TState,
+    attempt: number,
+    policy: NodePolicy<TState>,
+    config: InvokeConfig,
+  ): Promise<Partial<TState> | undefined> {
+    const { runId: graphRunId, listener } = config;
+
+    const startTime = new Date();
+    const nodeRunId = createId();
+
+    const traceCandidate = (state as { traceBuffer?: TraceBuffer }).traceBuffer;
+    const traceBuffer: TraceBuffer | null = graphRunId && traceCandidate ? traceCandidate : null;
+    let nodeRunEntry: BufferedNodeRun | null = null;
+    if (traceBuffer) {
+      nodeRunEntry = {
+        id: nodeRunId,
+        nodeName,
+        attempt,
+        startTime,
+        createdAt: startTime,
+        updatedAt: startTime,
+      };
+      traceBuffer.nodeRuns.push(nodeRunEntry);
+    }
+    listener?.onNodeStart?.(nodeName);
+
+    const controller = new AbortController();
+    const onRunAbort = () => controller.abort(config.signal?.reason);
+    config.signal?.addEventListener('abort', onRunAbort, { once: true });
+    const attemptTraceBuffer: TraceBuffer | undefined = traceCandidate && {
+      ...traceCandidate,
+      signal: controller.signal,
+      ...(nodeRunEntry && { nodeRunId }),
+    };
+    const attemptState = attemptTraceBuffer ? { ...state, traceBuffer: attemptTraceBuffer } : state;
+
+    let stateUpdate: Partial<TState> | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const execution = Promise.resolve(node(attemptState, { signal: controller.signal }));
+      stateUpdate = policy.timeoutMs
+        ? await Promise.race([
+            execution,
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => {
+                const error = new NodeTimeoutError(nodeName, policy.timeoutMs!);
+                controller.abort(error);
+                reject(error);
+              }, policy.timeoutMs);
+            }),
+          ])
+        : await execution;
+    } catch (err) {
+      // Close the failed attempt so the next one gets a fresh, active NodeRun. Without a
+      // policy the error still fails the run, to be handled by the global graph run handler.
+      if (nodeRunEntry) {
+        const endTime = new Date();
+        nodeRunEntry.endTime = endTime;
+        nodeRunEntry.durationMs = endTime.getTime() - startTime.getTime();
+        nodeRunEntry.updatedAt = endTime;
+        nodeRunEntry.errorTrace = err instanceof Error ? (err.stack ?? err.message) : String(err);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      config.signal?.removeEventListener('abort', onRunAbort);
+    }
+
+    // Nodes often return `{ ...state, ...changes }`; keep the run's own trace buffer in the state
+    const update = stateUpdate as { traceBuffer?: TraceBuffer } | undefined;
+    if (update && traceCandidate && update.traceBuffer === attemptTraceBuffer) {
+      update.traceBuffer = traceCandidate;
+    }
+
+    const endTime = new Date();
+    if (nodeRunEntry) {
+      nodeRunEntry.endTime = endTime;
+      nodeRunEntry.durationMs = endTime.getTime() - startTime.getTime();
+      nodeRunEntry.updatedAt = endTime;
+    }
+    listener?.onNodeEnd?.(nodeName, endTime.getTime() - startTime.getTime());
+    return stateUpdate;
+  }
+
+  /**
+   * Runs the branches of a parallel edge concurrently and merges their updates.
+   * Each branch gets its own shallow copy of the state and its own `NodeRun`.
+   */
+  private async runBranches(
+    edge: ParallelEdge<TState>,
+    state: TState,
+    config: InvokeConfig,
+  ): Promise<TState> {
+    const updates: (Partial<TState> | undefined)[] = await Promise.all(
+      edge.branches.map(
+        async (branch) => (await this.runNode(branch, { ...state }, config)).update,
+      ),
+    );
+
+    const merged: TState = { ...state };
+    const writers = new Map<keyof TState, string>();
+    updates.forEach((update, index) => {
+      if (!update) return;
+      const branch = edge.branches[index]!;
+      for (const key of Object.keys(update) as (keyof TState)[]) {
+        const value = update[key] as TState[keyof TState];
+        // Nodes commonly return `{ ...state, ...changes }`, so only count fields that changed
+        if (value === state[key]) continue;
+
+        const reducer = edge.reducers[key];
+        const previousWriter = writers.get(key);
+        if (reducer) {
+          merged[key] = reducer(merged[key], value);
+        } else if (previousWriter) {
+          throw new Error(
+            `Parallel branches "${previousWriter}" and "${branch}" both updated "${String(key)}" ` +
+              `without a reducer.`,
+          );
+        } else {
+          merged[key] = value;
+        }
+        writers.set(key, branch);
+      }
+    });
+    return merged;
+  }
+
+  private resolveNext(nodeName: string, state: TState): string {
+    const edge = this.edges.get(nodeName);
+    if (!edge) {
+      throw new Error(
+        `No edge found from node "${nodeName}". All nodes must have an outgoing edge.`,
+      );
+    }
+
+    if ('target' in edge) {
+      return edge.target;
+    }
+    if ('branches' in edge) {
+      return edge.join;
+    }
+    const targetKey = edge.resolver(state);
+    const nextNode = edge.targets[targetKey];
+    if (!nextNode) {
+      throw new Error(
+        `Conditional edge from "${nodeName}" resolved to "${targetKey}", which is not a valid target.`,
+      );
+    }
+    return nextNode;
+  }
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    const error = new Error('Graph execution aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting early with an `AbortError` if the signal fires.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const error = new Error('Graph execution aborted');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Collects all nodes reachable from `roots` by repeatedly following `next`.
+ */
+function traverse(roots: string[], next: (name: string) => string[]): Set<string> {
+  const seen = new Set<string>(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighbour of next(current)) {
+      if (!seen.has(neighbour)) {
+        seen.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Groups a conditional edge's resolver keys by target node, so each target is drawn once.
+ */
+function groupConditionalTargets(targets: Record<string, string>): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const [key, target] of Object.entries(targets)) {
+    grouped.set(target, [...(grouped.get(target) ?? []), key]);
+  }
+  return grouped;
 }
@@ -0,0 +1,76 @@
+import { InternalServerError } from '../utils/errors';
+
+/**
+ * @file Minimal Cloud Storage client for the objects the `imageUpload` function archives
+ * (`Media.gcsUri`). It calls the JSON API with the Cloud Run service account's token from
+ * the metadata server, so it only works on Google Cloud; elsewhere every call fails and
+ * callers treat the object as unavailable.
+ */
+
+const METADATA_TOKEN_URL =
+  'http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/token';
+const STORAGE_API_URL = 'https://storage.googleapis.com/storage/v1';
+const METADATA_TIMEOUT_MS = 2000;
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  const response = await fetch(METADATA_TOKEN_URL, {
+    headers: { 'Metadata-Flavor': 'Google' },
+    signal: AbortSignal.timeout(METADATA_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new InternalServerError(`Metadata server returned ${response.status}`);
+  }
+
+  const { access_token, expires_in } = (await response.json()) as {
+    access_token: string;
+    expires_in: number;
+  };
+  // Refresh a minute before the token expires
+  cachedToken = { value: access_token, expiresAt: Date.now() + (expires_in - 60) * 1000 };
+  return access_token;
+}
+
+/**
+ * Splits a `gs://bucket/path/to/object` URI into its JSON API object URL.
+ */
+function objectUrl(gcsUri: string): string {
+  const match = gcsUri.match(/^gs:\/\/([^/]+)\/(.+)$/);
+  if (!match || !match[1] || !match[2]) {
+    throw new InternalServerError(`Invalid GCS URI: ${gcsUri}`);
+  }
+  return `${STORAGE_API_URL}/b/${encodeURIComponent(match[1])}/o/${encodeURIComponent(match[2])}`;
+}
+
+/**
+ * Downloads an object's contents.
+ */
+export async function downloadGcsObject(gcsUri: string): Promise<Buffer> {
+  const token = await getAccessToken();
+  const response = await fetch(`${objectUrl(gcsUri)}?alt=media`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new InternalServerError(`Failed to download ${gcsUri}: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Deletes an object. Objects that are already gone count as deleted.
+ */
+export async function deleteGcsObject(gcsUri: string): Promise<void> {
+  const token = await getAccessToken();
+  const response = await fetch(objectUrl(gcsUri), {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new InternalServerError(`Failed to delete ${gcsUri}: ${response.status}`);
+  }
+}
@@ -0,0 +1,150 @@
+import { CloudTasksClient, type protos } from '@google-cloud/tasks';
+import { TaskType } from '@prisma/client';
+
+import { InternalServerError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { redis } from './redis';
+
+/**
+ * @file Task queue backends. A backend only delivers a task to its handler; the `Task` row
+ * (and its QUEUED → IN_PROGRESS → COMPLETED/FAILED lifecycle) is owned by `queueTask` and the
+ * handlers in `functions/src`, so both backends behave identically from the app's point of view.
+ */
+
+/**
+ * Redis keys shared with the worker in `functions/src/worker.ts`. Keep them in sync.
+ */
+export const TASK_QUEUE_READY_KEY = 'tasks:ready';
+export const TASK_QUEUE_SCHEDULED_KEY = 'tasks:scheduled';
+
+/**
+ * A task ready to be handed to a queue backend. Its `Task` row already exists.
+ */
+export interface QueuedTask {
+  /** The `Task.taskId` the handler looks up */
+  taskId: string;
+  type: TaskType;
+  /** Logical queue name, e.g. `memory-extraction` */
+  queueName: string;
+  /** Name of the function that handles the task, e.g. `storeMemories` */
+  functionName: string;
+  payload: Record<string, string>;
+  /** When the task should run; omitted for immediate tasks */
+  scheduleTime?: Date;
+}
+
+/**
+ * Delivers queued tasks to their handlers.
+ */
+export interface TaskQueue {
+  readonly name: string;
+  /** Whether tasks can actually run in this environment. */
+  readonly enabled: boolean;
+  enqueue(task: QueuedTask): Promise<void>;
+}
+
+/**
+ * Google Cloud Tasks backend: each task becomes an HTTP request to its Cloud Function.
+ * Function URLs are derived from `PROJECT_ID` and `CLOUD_FUNCTION_REGION`, or from
+ * `FUNCTIONS_BASE_URL` (e.g. a local functions-framework) when set.
+ */
+export class CloudTasksQueue implements TaskQueue {
+  readonly name = 'cloud-tasks';
+  private client: CloudTasksClient | undefined;
+
+  private readonly projectId = process.env.PROJECT_ID || 'broadway-chatbot';
+  private readonly functionRegion = process.env.CLOUD_FUNCTION_REGION || 'asia-south2';
+  private readonly tasksRegion = process.env.CLOUD_TASKS_REGION || 'asia-south1';
+  private readonly serviceAccountEmail = process.env.CLOUD_TASKS_SERVICE_ACCOUNT;
+
+  /**
+   * Cloud Tasks is not reachable from local development.
+   */
+  get enabled(): boolean {
+    return process.env.NODE_ENV !== 'development';
+  }
+
+  async enqueue(task: QueuedTask): Promise<void> {
+    if (!this.projectId) {
+      throw new InternalServerError('Missing required environment variables for Cloud Tasks');
+    }
+
+    this.client ??= new CloudTasksClient();
+    const functionUrl = this.functionUrl(task.functionName);
+    const parent = this.client.queuePath(this.projectId, this.tasksRegion, task.queueName);
+
+    const request: protos.google.cloud.tasks.v2.ITask = {
+      httpRequest: {
+        httpMethod: 'POST' as const,
+        url: functionUrl,
+        body: Buffer.from(JSON.stringify(task.payload)),
+        headers: { 'Content-Type': 'application/json' },
+        ...(this.serviceAccountEmail && {
+          oidcToken: {
+            serviceAccountEmail: this.serviceAccountEmail,
+            audience: functionUrl,
+          },
+        }),
+      },
+      name: `${parent}/tasks/${task.taskId}`,
+    };
+
+    if (task.scheduleTime) {
+      const milliseconds = task.scheduleTime.getTime();
+      request.scheduleTime = {
+        seconds: Math.floor(milliseconds / 1000),
+        nanos: (milliseconds % 1000) * 1_000_000,
+      };
+    }
+
+    const [response] = await this.client.createTask({ parent, task: request });
+    logger.info({ taskName: response.name, type: task.type }, `Queued ${task.type} task`);
+  }
+
+  private functionUrl(functionName: string): string {
+    const baseUrl =
+      process.env.FUNCTIONS_BASE_URL ||
+      `https://${this.functionRegion}-${this.projectId}.cloudfunctions.net`;
+    return `${baseUrl.replace(/\/$/, '')}/${functionName}`;
+  }
+}
+
+/**
+ * Redis backend for local development and tests. Immediate tasks are pushed onto a list and
+ * scheduled ones onto a sorted set scored by their run time; `npm run worker` in `functions/`
+ * promotes due tasks and runs the same handlers the Cloud Functions use, in-process.
+ */
+export class RedisTaskQueue implements TaskQueue {
+  readonly name = 'redis';
+  readonly enabled = true;
+
+  async enqueue(task: QueuedTask): Promise<void> {
+    const job = JSON.stringify({ taskId: task.taskId, type: task.type, queue: task.queueName });
+
+    if (task.scheduleTime && task.scheduleTime.getTime() > Date.now()) {
+      await redis.zAdd(TASK_QUEUE_SCHEDULED_KEY, {
+        score: task.scheduleTime.getTime(),
+        value: job,
+      });
+    } else {
+      await redis.lPush(TASK_QUEUE_READY_KEY, job);
+    }
+    logger.info({ taskId: task.taskId, type: task.type }, `Queued ${task.type} task`);
+  }
+}
+
+/**
+ * Creates the task queue configured via `TASK_QUEUE_BACKEND` (`cloud-tasks` by default, or `redis`).
+ */
+export function createTaskQueue(): TaskQueue {
+  const kind = process.env.TASK_QUEUE_BACKEND ?? 'cloud-tasks';
+  switch (kind) {
+    case 'redis':
+      return new RedisTaskQueue();
+    case 'cloud-tasks':
+      return new CloudTasksQueue();
+    default:
+      logger.warn({ kind }, 'Unknown TASK_QUEUE_BACKEND, falling back to cloud-tasks');
+      return new CloudTasksQueue();
+  }
+}
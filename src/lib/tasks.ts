@@ -1,82 +1,73 @@
 import 'dotenv/config';
 
-import { CloudTasksClient, type protos } from '@google-cloud/tasks';
 import { createId as cuid } from '@paralleldrive/cuid2';
-import { TaskType } from '@prisma/client';
-import { InternalServerError } from '../utils/errors';
+import { Task, TaskType } from '@prisma/client';
+import { ServiceUnavailableError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { prisma } from './prisma';
+import { createTaskQueue } from './taskQueue';
 
 type TaskPayload = {
   userId: string;
   [key: string]: string;
 };
 
-const client = new CloudTasksClient();
+const taskQueue = createTaskQueue();
 
-const PROJECT_ID = process.env.PROJECT_ID || 'broadway-chatbot';
-const CLOUD_FUNCTION_REGION = process.env.CLOUD_FUNCTION_REGION || 'asia-south2';
-const CLOUD_TASKS_REGION = process.env.CLOUD_TASKS_REGION || 'asia-south1';
-
-const WARDROBE_FUNCTION_URL = `https://${CLOUD_FUNCTION_REGION}-${PROJECT_ID}.cloudfunctions.net/indexWardrobe`;
-const MEMORY_FUNCTION_URL = `https://${CLOUD_FUNCTION_REGION}-${PROJECT_ID}.cloudfunctions.net/storeMemories`;
-const IMAGE_UPLOAD_FUNCTION_URL = `https://${CLOUD_FUNCTION_REGION}-${PROJECT_ID}.cloudfunctions.net/imageUpload`;
-const FEEDBACK_FUNCTION_URL = `https://${CLOUD_FUNCTION_REGION}-${PROJECT_ID}.cloudfunctions.net/sendFeedbackRequest`;
+/**
+ * The queue and function that handle each task type.
+ */
+const TASK_DESTINATIONS: Record<TaskType, { queueName: string; functionName: string }> = {
+  SCHEDULE_WARDROBE_INDEX: { queueName: 'wardrobe-index', functionName: 'indexWardrobe' },
+  EMBED_WARDROBE_ITEM: { queueName: 'wardrobe-embedding', functionName: 'embedWardrobeItem' },
+  PROCESS_MEMORIES: { queueName: 'memory-extraction', functionName: 'storeMemories' },
+  UPLOAD_IMAGES: { queueName: 'image-upload', functionName: 'imageUpload' },
+  SEND_FEEDBACK_REQUEST: { queueName: 'feedback-request', functionName: 'sendFeedbackRequest' },
+};
 
-const SERVICE_ACCOUNT_EMAIL = process.env.CLOUD_TASKS_SERVICE_ACCOUNT;
+/**
+ * Hands a recorded task to the configured queue backend (see `createTaskQueue`). If that
+ * fails the task is marked FAILED so it shows up in the admin task console.
+ */
+async function deliverTask(
+  taskId: string,
+  taskType: TaskType,
+  payload: TaskPayload,
+  scheduleTime?: Date,
+): Promise<void> {
+  try {
+    await taskQueue.enqueue({
+      taskId,
+      type: taskType,
+      ...TASK_DESTINATIONS[taskType],
+      payload,
+      ...(scheduleTime && { scheduleTime }),
+    });
+  } catch (err: unknown) {
+    const lastError = err instanceof Error ? err.message : String(err);
+    await prisma.task
+      .update({ where: { taskId }, data: { status: 'FAILED', lastError } })
+      .catch(() => undefined);
+    throw err;
+  }
+}
 
 /**
- * A generic task queuing function.
- * @param queueName The name of the Cloud Tasks queue.
- * @param functionUrl The URL of the Cloud Function to invoke.
- * @param payload The payload to send to the Cloud Function.
+ * A generic task queuing function. Records the task in the database, then delivers it to
+ * the function that handles its type.
  * @param taskType The type of the task to record in the database.
+ * @param payload The payload to send to the function.
  */
 
 async function queueTask(
-  queueName: string,
-  functionUrl: string,
-  payload: TaskPayload,
   taskType: TaskType,
+  payload: TaskPayload,
   options: { scheduleTime?: Date } = {},
 ): Promise<void> {
-  if (!PROJECT_ID || !functionUrl) {
-    throw new InternalServerError('Missing required environment variables for Cloud Tasks');
-  }
-
-  const parent = client.queuePath(PROJECT_ID, CLOUD_TASKS_REGION, queueName);
   const taskId = cuid();
-  const taskName = `${parent}/tasks/${taskId}`;
-
-  const task: protos.google.cloud.tasks.v2.ITask = {
-    httpRequest: {
-      httpMethod: 'POST' as const,
-      url: functionUrl,
-      body: Buffer.from(JSON.stringify(payload)),
-      headers: { 'Content-Type': 'application/json' },
-      ...(SERVICE_ACCOUNT_EMAIL && {
-        oidcToken: {
-          serviceAccountEmail: SERVICE_ACCOUNT_EMAIL,
-          audience: functionUrl,
-        },
-      }),
-    },
-    name: taskName,
-  };
-
-  if (options.scheduleTime) {
-    const milliseconds = options.scheduleTime.getTime();
-    task.scheduleTime = {
-      seconds: Math.floor(milliseconds / 1000),
-      nanos: (milliseconds % 1000) * 1_000_000,
-    };
-  }
-
-  const [response] = await client.createTask({ parent, task });
-  logger.info({ taskName: response.name, type: taskType }, `Queued ${taskType} task`);
-
   const runAt = options.scheduleTime ?? new Date();
 
+  // The row must exist before the task is delivered, since handlers look it up by taskId
   await prisma.task.create({
     data: {
       taskId: taskId,
@@ -86,6 +77,32 @@ async function queueTask(
       runAt,
     },
   });
+
+  await deliverTask(taskId, taskType, payload, options.scheduleTime);
+}
+
+/**
+ * Re-enqueues an existing task with a fresh attempt budget, e.g. a dead-lettered task from
+ * the admin task console. The task gets a new `taskId` because Cloud Tasks refuses to reuse
+ * the name of a recently run task; `lastError` is kept until the next attempt finishes.
+ * @param id The `Task.id` (not `taskId`) of the task to re-enqueue.
+ */
+export async function requeueTask(id: string): Promise<Task> {
+  if (!taskQueue.enabled) {
+    throw new ServiceUnavailableError(
+      `Task queue ${taskQueue.name} is disabled in this environment`,
+    );
+  }
+
+  const taskId = cuid();
+  const task = await prisma.task.update({
+    where: { id },
+    data: { taskId, status: 'QUEUED', attempts: 0, runAt: new Date() },
+  });
+
+  logger.info({ id, taskId, type: task.type }, `Re-enqueued ${task.type} task`);
+  await deliverTask(taskId, task.type, task.payload as TaskPayload);
+  return task;
 }
 
 function runTaskInBackground(taskType: TaskType, runner: () => Promise<void>): void {
@@ -100,69 +117,79 @@ function runTaskInBackground(taskType: TaskType, runner: () => Promise<void>): v
 }
 
 /**
- * Queues a task to index wardrobe from a message by calling the cloud function.
+ * Queues a task to index wardrobe from a message.
  * @param messageId The ID of the message to process.
  */
 export function queueWardrobeIndex(userId: string, messageId: string): void {
-  if (process.env.NODE_ENV === 'development') {
-    logger.debug({ userId, messageId }, 'Skipping wardrobe index queueing in development');
+  if (!taskQueue.enabled) {
+    logger.debug({ userId, messageId }, 'Skipping wardrobe index queueing, task queue disabled');
     return;
   }
 
   runTaskInBackground(TaskType.SCHEDULE_WARDROBE_INDEX, () =>
-    queueTask(
-      'wardrobe-index',
-      WARDROBE_FUNCTION_URL,
-      { userId, messageId },
-      TaskType.SCHEDULE_WARDROBE_INDEX,
-    ),
+    queueTask(TaskType.SCHEDULE_WARDROBE_INDEX, { userId, messageId }),
+  );
+}
+
+/**
+ * Queues a task to rebuild the search document and embedding of a wardrobe item after it
+ * was added or edited through the wardrobe API.
+ * @param itemId The ID of the wardrobe item to re-embed.
+ */
+export function queueWardrobeItemEmbedding(userId: string, itemId: string): void {
+  if (!taskQueue.enabled) {
+    logger.debug(
+      { userId, itemId },
+      'Skipping wardrobe item embedding queueing, task queue disabled',
+    );
+    return;
+  }
+
+  runTaskInBackground(TaskType.EMBED_WARDROBE_ITEM, () =>
+    queueTask(TaskType.EMBED_WARDROBE_ITEM, { userId, itemId }),
   );
 }
 
 /**
- * Queues a task to extract and save memories for a user by calling the cloud function.
+ * Queues a task to extract and save memories for a user.
  * @param userId The ID of the user to process.
  */
 export function queueMemoryExtraction(userId: string, conversationId: string): void {
-  if (process.env.NODE_ENV === 'development') {
-    logger.debug({ userId, conversationId }, 'Skipping memory extraction queueing in development');
+  if (!taskQueue.enabled) {
+    logger.debug(
+      { userId, conversationId },
+      'Skipping memory extraction queueing, task queue disabled',
+    );
     return;
   }
 
   runTaskInBackground(TaskType.PROCESS_MEMORIES, () =>
-    queueTask(
-      'memory-extraction',
-      MEMORY_FUNCTION_URL,
-      { userId, conversationId },
-      TaskType.PROCESS_MEMORIES,
-    ),
+    queueTask(TaskType.PROCESS_MEMORIES, { userId, conversationId }),
   );
 }
 
 /**
- * Queues a task to upload images for a user by calling the cloud function.
+ * Queues a task to upload images for a user.
  * @param userId The ID of the user to process.
  * @param messageId The ID of the message containing the images.
  */
 export function queueImageUpload(userId: string, messageId: string): void {
-  if (process.env.NODE_ENV === 'development') {
-    logger.debug({ userId, messageId }, 'Skipping image upload queueing in development');
+  if (!taskQueue.enabled) {
+    logger.debug({ userId, messageId }, 'Skipping image upload queueing, task queue disabled');
     return;
   }
 
   runTaskInBackground(TaskType.UPLOAD_IMAGES, () =>
-    queueTask(
-      'image-upload',
-      IMAGE_UPLOAD_FUNCTION_URL,
-      { userId, messageId },
-      TaskType.UPLOAD_IMAGES,
-    ),
+    queueTask(TaskType.UPLOAD_IMAGES, { userId, messageId }),
   );
 }
 
 export function queueFeedbackRequest(userId: string, conversationId: string): void {
-  if (process.env.NODE_ENV === 'development') {
-    logger.debug({ userId, conversationId }, 'Skipping feedback request queueing in development');
+  if (!taskQueue.enabled) {
+    logger.debug(
+      { userId, conversationId },
+      'Skipping feedback request queueing, task queue disabled',
+    );
     return;
   }
 
@@ -170,12 +197,6 @@ export function queueFeedbackRequest(userId: string, conversationId: string): vo
   const scheduleTime = new Date(Date.now() + delayMs);
 
   runTaskInBackground(TaskType.SEND_FEEDBACK_REQUEST, () =>
-    queueTask(
-      'feedback-request',
-      FEEDBACK_FUNCTION_URL,
-      { userId, conversationId },
-      TaskType.SEND_FEEDBACK_REQUEST,
-      { scheduleTime },
-    ),
+    queueTask(TaskType.SEND_FEEDBACK_REQUEST, { userId, conversationId }, { scheduleTime }),
   );
 }
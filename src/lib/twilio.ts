@@ -0,0 +1,324 @@
+import 'dotenv/config';
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { InternalServerError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { MessageInput } from './chat/types';
+import { redis } from './redis';
+
+/**
+ * @file Twilio REST helpers for the WhatsApp channel: a minimal client for the Messages and
+ * Content APIs, a local stand-in for development, webhook signature validation, inbound
+ * payload mapping and delivery status tracking.
+ */
+
+const TWILIO_HTTP_TIMEOUT_MS = Number(process.env.TWILIO_HTTP_TIMEOUT_MS || 10_000);
+const CONTENT_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const SID_MAPPING_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+/**
+ * Parameters for sending a single outbound message.
+ * Exactly one of `body`, `mediaUrl` or `contentSid` drives the message content.
+ */
+export interface TwilioMessageParams {
+  to: string;
+  body?: string;
+  mediaUrl?: string;
+  contentSid?: string;
+  contentVariables?: Record<string, string>;
+  statusCallback?: string;
+}
+
+/**
+ * A message as returned by the Messages API.
+ */
+export interface TwilioMessage {
+  sid: string;
+  status: string;
+}
+
+/**
+ * A Content API template definition, e.g. `{ 'twilio/quick-reply': { body, actions } }`.
+ */
+export type TwilioContentTypes = Record<string, Record<string, unknown>>;
+
+/**
+ * The subset of the Twilio API used by the WhatsApp channel.
+ */
+export interface TwilioClient {
+  /** Sends a WhatsApp message from the configured sender. */
+  sendMessage(params: TwilioMessageParams): Promise<TwilioMessage>;
+  /** Creates a content template and returns its `HX...` SID. */
+  createContent(friendlyName: string, types: TwilioContentTypes): Promise<string>;
+}
+
+/**
+ * Talks to the Twilio REST API with the account credentials from the environment.
+ */
+export class RestTwilioClient implements TwilioClient {
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string,
+  ) {}
+
+  async sendMessage(params: TwilioMessageParams): Promise<TwilioMessage> {
+    const form = new URLSearchParams({ From: this.from, To: params.to });
+    if (params.body) form.set('Body', params.body);
+    if (params.mediaUrl) form.set('MediaUrl', params.mediaUrl);
+    if (params.contentSid) form.set('ContentSid', params.contentSid);
+    if (params.contentVariables) {
+      form.set('ContentVariables', JSON.stringify(params.contentVariables));
+    }
+    if (params.statusCallback) form.set('StatusCallback', params.statusCallback);
+
+    const response = await this.request(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      { method: 'POST', body: form },
+    );
+    const message = (await response.json()) as { sid: string; status: string };
+    return { sid: message.sid, status: message.status };
+  }
+
+  async createContent(friendlyName: string, types: TwilioContentTypes): Promise<string> {
+    const response = await this.request('https://content.twilio.com/v1/Content', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ friendly_name: friendlyName, language: 'en', types }),
+    });
+    const content = (await response.json()) as { sid: string };
+    return content.sid;
+  }
+
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    const auth = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Basic ${auth}` },
+      signal: AbortSignal.timeout(TWILIO_HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = await response.text();
+      throw new InternalServerError(`Twilio request failed with ${response.status}: ${detail}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Local stand-in for Twilio that records outbound messages instead of sending them.
+ * Used in development and scripts when no Twilio credentials are configured.
+ */
+export class LocalTwilioClient implements TwilioClient {
+  readonly sent: (TwilioMessageParams & TwilioMessage)[] = [];
+  readonly contents = new Map<string, { friendlyName: string; types: TwilioContentTypes }>();
+
+  async sendMessage(params: TwilioMessageParams): Promise<TwilioMessage> {
+    const message = { sid: `SM${randomBytes(16).toString('hex')}`, status: 'queued' };
+    this.sent.push({ ...params, ...message });
+    logger.info({ to: params.to, sid: message.sid }, 'Local Twilio stand-in recorded message');
+    return message;
+  }
+
+  async createContent(friendlyName: string, types: TwilioContentTypes): Promise<string> {
+    const sid = `HX${randomBytes(16).toString('hex')}`;
+    this.contents.set(sid, { friendlyName, types });
+    return sid;
+  }
+}
+
+let client: TwilioClient | undefined;
+
+/**
+ * Returns the Twilio client configured via `TWILIO_CLIENT` (`rest` by default, or `local`).
+ * Falls back to the local stand-in when credentials are missing.
+ */
+export function getTwilioClient(): TwilioClient {
+  if (client) {
+    return client;
+  }
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_FROM } = process.env;
+  const kind = process.env.TWILIO_CLIENT ?? 'rest';
+  if (kind === 'rest' && TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN) {
+    client = new RestTwilioClient(
+      TWILIO_ACCOUNT_SID,
+      TWILIO_AUTH_TOKEN,
+      TWILIO_WHATSAPP_FROM || 'whatsapp:+14155238886',
+    );
+  } else {
+    if (kind === 'rest') {
+      logger.warn('Twilio credentials missing, using the local Twilio stand-in');
+    }
+    client = new LocalTwilioClient();
+  }
+  return client;
+}
+
+/**
+ * Replaces the Twilio client, e.g. with a `LocalTwilioClient` in scripts.
+ */
+export function setTwilioClient(twilioClient: TwilioClient): void {
+  client = twilioClient;
+}
+
+/**
+ * Returns the SID of a content template with the given definition, creating it on first use.
+ * Templates are cached in Redis by the hash of their definition.
+ */
+export async function getOrCreateContent(types: TwilioContentTypes): Promise<string> {
+  const hash = createHash('sha1').update(JSON.stringify(types)).digest('hex');
+  const cacheKey = `twilio:content:${hash}`;
+  const cached = await redis.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  const sid = await getTwilioClient().createContent(`broadway_${hash.slice(0, 16)}`, types);
+  await redis.set(cacheKey, sid, { EX: CONTENT_CACHE_TTL_SECONDS });
+  return sid;
+}
+
+/**
+ * Computes the `X-Twilio-Signature` of a webhook request: the base64 HMAC-SHA1 of the full
+ * URL followed by every POST parameter name and value, sorted by name.
+ *
+ * @param authToken - The Twilio auth token
+ * @param url - The full URL Twilio called, including query string
+ * @param params - The form parameters of the request
+ */
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return createHmac('sha1', authToken).update(payload, 'utf8').digest('base64');
+}
+
+/**
+ * Checks a webhook signature in constant time.
+ */
+export function isValidTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Maps an inbound Twilio WhatsApp webhook form into the agent's `MessageInput`.
+ * List picker selections arrive as `ListId`/`ListTitle` and are mapped onto the
+ * button fields so routing treats them like quick replies.
+ *
+ * @param form - The urlencoded webhook payload
+ */
+export function twilioFormToMessageInput(form: Record<string, string>): MessageInput {
+  const messageSid = form.MessageSid ?? form.SmsMessageSid ?? '';
+  const input: MessageInput = {
+    ...form,
+    MessageSid: messageSid,
+    SmsSid: form.SmsSid ?? messageSid,
+    SmsMessageSid: form.SmsMessageSid ?? messageSid,
+    AccountSid: form.AccountSid ?? '',
+    From: form.From ?? '',
+    To: form.To ?? '',
+    Body: form.Body ?? '',
+    NumMedia: form.NumMedia ?? '0',
+    NumSegments: form.NumSegments ?? '1',
+    SmsStatus: form.SmsStatus ?? 'received',
+    ApiVersion: form.ApiVersion ?? '2010-04-01',
+    WaId: form.WaId ?? (form.From ?? '').replace(/^whatsapp:\+?/, ''),
+  };
+  if (form.ListId && !form.ButtonPayload) {
+    input.ButtonPayload = form.ListId;
+    input.ButtonText = form.ListTitle ?? form.ListId;
+    input.MessageType = 'interactive';
+  }
+  return input;
+}
+
+/**
+ * Returns the `Authorization` header needed to download media hosted by Twilio,
+ * or an empty object for any other URL.
+ */
+export function twilioMediaAuthHeaders(url: string): Record<string, string> {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN } = process.env;
+  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !/^https:\/\/api\.twilio\.com\//.test(url)) {
+    return {};
+  }
+  const auth = Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64');
+  return { Authorization: `Basic ${auth}` };
+}
+
+// ================================
+// Delivery status tracking
+// ================================
+
+/**
+ * Order of Twilio message statuses. A callback never moves a message hash backwards, since
+ * callbacks for the several outbound messages of one reply arrive out of order.
+ */
+const STATUS_RANK: Record<string, number> = {
+  accepted: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  read: 5,
+};
+const FAILED_STATUSES = new Set(['failed', 'undelivered', 'canceled']);
+
+/**
+ * Remembers which inbound message an outbound message answers, so its status callbacks can
+ * update the `message:{id}` hash.
+ */
+export async function linkOutboundMessage(outboundSid: string, messageId: string): Promise<void> {
+  await redis.set(`twilio:sid:${outboundSid}`, messageId, { EX: SID_MAPPING_TTL_SECONDS });
+}
+
+/**
+ * Applies a Twilio status callback to the `message:{id}` hash of the inbound message the
+ * outbound message answers. Failures always win; other statuses only move forward.
+ *
+ * @param outboundSid - The `MessageSid` of the outbound message
+ * @param status - The reported `MessageStatus`
+ * @param errorCode - The reported `ErrorCode`, if any
+ * @returns The inbound message ID, or `null` if the SID is unknown
+ */
+export async function recordMessageStatus(
+  outboundSid: string,
+  status: string,
+  errorCode?: string,
+): Promise<string | null> {
+  const messageId = await redis.get(`twilio:sid:${outboundSid}`);
+  if (!messageId) {
+    logger.debug({ outboundSid, status }, 'Status callback for unknown Twilio message');
+    return null;
+  }
+  const messageKey = `message:${messageId}`;
+  const fields: Record<string, string> = { [`twilio:${outboundSid}`]: status };
+
+  const current = await redis.hGet(messageKey, 'status');
+  const isFailure = FAILED_STATUSES.has(status);
+  const currentRank = current !== null && current !== undefined ? STATUS_RANK[current] : undefined;
+  const nextRank = STATUS_RANK[status];
+  const currentIsFailure = !!current && FAILED_STATUSES.has(current);
+  if (
+    isFailure ||
+    (!currentIsFailure && nextRank !== undefined && (currentRank ?? -1) < nextRank)
+  ) {
+    fields.status = status;
+  }
+  if (errorCode) {
+    fields.errorCode = errorCode;
+  }
+  await redis.hSet(messageKey, fields);
+  logger.debug({ messageId, outboundSid, status }, 'Recorded Twilio delivery status');
+  return messageId;
+}
@@ -0,0 +1,140 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../utils/logger';
+import { prisma } from './prisma';
+
+/**
+ * Dimension of the `embedding` columns. Both embedding providers produce vectors of this size,
+ * and the ANN indexes require it to be fixed.
+ */
+export const EMBEDDING_DIM = 1536;
+
+/**
+ * Tables with an indexed `embedding` column.
+ */
+export type VectorTable = 'Memory' | 'WardrobeItem' | 'Product';
+
+/**
+ * How vectors are compared. Each metric needs an ANN index built with its operator class
+ * (see `scripts/createVectorIndexes.ts`); the migrations build cosine indexes.
+ */
+export type DistanceMetric = 'cosine' | 'l2' | 'inner_product';
+
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+  cosine: '<=>',
+  l2: '<->',
+  inner_product: '<#>',
+};
+
+export const DISTANCE_OPERATOR_CLASSES: Record<DistanceMetric, string> = {
+  cosine: 'vector_cosine_ops',
+  l2: 'vector_l2_ops',
+  inner_product: 'vector_ip_ops',
+};
+
+/**
+ * Returns the metric selected by `VECTOR_DISTANCE_METRIC`: `cosine` (the default), `l2` or
+ * `inner_product`.
+ */
+export function getDistanceMetric(): DistanceMetric {
+  const metric = process.env.VECTOR_DISTANCE_METRIC ?? 'cosine';
+  switch (metric) {
+    case 'cosine':
+    case 'l2':
+    case 'inner_product':
+      return metric;
+    default:
+      logger.warn({ metric }, 'Unknown VECTOR_DISTANCE_METRIC, falling back to cosine');
+      return 'cosine';
+  }
+}
+
+/**
+ * Converts a distance to a similarity in [0, 1] (for normalized embeddings), higher meaning
+ * closer, so scores read the same whatever the metric.
+ */
+export function distanceToSimilarity(distance: number, metric: DistanceMetric): number {
+  switch (metric) {
+    case 'cosine':
+      return Math.max(0, 1 - distance);
+    case 'l2':
+      // Normalized vectors are at most 2 apart
+      return Math.max(0, 1 - distance / 2);
+    case 'inner_product':
+      // pgvector returns the negative inner product
+      return Math.max(0, -distance);
+  }
+}
+
+/**
+ * Formats an embedding as a pgvector literal, to be bound as a query parameter.
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+export type NearestNeighborsOptions<T> = {
+  table: VectorTable;
+  /** Columns returned for each row. */
+  columns: readonly (keyof T & string)[];
+  embedding: number[];
+  /** Extra conditions, e.g. `Prisma.sql\`"userId" = ${userId}\``. */
+  where?: Prisma.Sql[];
+  limit: number;
+  metric?: DistanceMetric;
+};
+
+export type Neighbor<T> = T & { distance: number; similarity: number };
+
+/**
+ * Returns the rows of a table whose embedding is closest to `embedding`, closest first. The
+ * query is ordered by the metric's distance operator so Postgres can use the table's ANN
+ * index. Iterative index scans are enabled so filtered queries (e.g. one user's memories)
+ * still return up to `limit` rows.
+ */
+export async function nearestNeighbors<T extends object>(
+  options: NearestNeighborsOptions<T>,
+): Promise<Neighbor<T>[]> {
+  const { table, columns, embedding, where = [], limit, metric = getDistanceMetric() } = options;
+  if (embedding.length !== EMBEDDING_DIM) {
+    throw new Error(`Expected a ${EMBEDDING_DIM}-dimensional embedding, got ${embedding.length}`);
+  }
+
+  const vector = toVectorLiteral(embedding);
+  const distance = Prisma.sql`"embedding" ${Prisma.raw(DISTANCE_OPERATORS[metric])} ${vector}::vector`;
+  const conditions = [Prisma.sql`"embedding" IS NOT NULL`, ...where];
+
+  const [, , rows] = await prisma.$transaction([
+    prisma.$executeRaw`SET LOCAL hnsw.iterative_scan = strict_order`,
+    prisma.$executeRaw`SET LOCAL ivfflat.iterative_scan = relaxed_order`,
+    prisma.$queryRaw<(T & { distance: number })[]>`
+      SELECT ${Prisma.raw(columns.map((column) => `"${column}"`).join(', '))},
+             (${distance})::float8 AS "distance"
+      FROM "public".${Prisma.raw(`"${table}"`)}
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${distance}
+      LIMIT ${limit}
+    `,
+  ]);
+
+  // IVFFlat's relaxed order can return rows slightly out of order
+  return rows
+    .sort((a, b) => a.distance - b.distance)
+    .map((row) => ({ ...row, similarity: distanceToSimilarity(row.distance, metric) }));
+}
+
+/**
+ * Whether any row matching `where` has an embedding, so callers can skip embedding the query.
+ */
+export async function hasEmbeddings(
+  table: VectorTable,
+  where: Prisma.Sql[] = [],
+): Promise<boolean> {
+  const conditions = [Prisma.sql`"embedding" IS NOT NULL`, ...where];
+  const rows = await prisma.$queryRaw<{ exists: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM "public".${Prisma.raw(`"${table}"`)} WHERE ${Prisma.join(conditions, ' AND ')}
+    ) AS "exists"
+  `;
+  return rows[0]?.exists ?? false;
+}
@@ -0,0 +1,237 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+import { prisma } from '../lib/prisma';
+import { isValidTwilioSignature } from '../lib/twilio';
+import { UserAuthService } from '../services/userAuthService';
+import { ForbiddenError, InternalServerError, UnauthorizedError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Returns the public origin (protocol and host) the server is reached at. Behind ngrok or
+ * Cloud Run it differs from the one Express sees, so `SERVER_URL` takes precedence; without
+ * it the origin the request was made to is used.
+ */
+export function getPublicOrigin(req: Request): string {
+  const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
+  return serverUrl || `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Builds the URL Twilio signed.
+ */
+function getWebhookUrl(req: Request): string {
+  return `${getPublicOrigin(req)}${req.originalUrl}`;
+}
+
+/**
+ * Express middleware validating the `X-Twilio-Signature` header of Twilio webhooks.
+ * Validation can be disabled with `TWILIO_VALIDATE_WEBHOOK=false` for local tunnelling.
+ *
+ * @param req - Express request with the urlencoded webhook payload
+ * @param _res - Express response object (unused)
+ * @param next - Express next function
+ * @throws {UnauthorizedError} When the signature is missing or does not match
+ */
+export const validateTwilioRequest = (req: Request, _res: Response, next: NextFunction) => {
+  if (process.env.TWILIO_VALIDATE_WEBHOOK === 'false') {
+    return next();
+  }
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    return next(new InternalServerError('TWILIO_AUTH_TOKEN is not configured'));
+  }
+
+  const signature = req.get('X-Twilio-Signature');
+  const url = getWebhookUrl(req);
+  const params = (req.body ?? {}) as Record<string, string>;
+  if (!signature || !isValidTwilioSignature(authToken, url, params, signature)) {
+    logger.warn(
+      { url, hasSignature: !!signature },
+      'Rejected Twilio webhook with invalid signature',
+    );
+    return next(new UnauthorizedError('Invalid Twilio signature'));
+  }
+
+  next();
+};
+
+/**
+ * Session cookies set by the admin dashboard's Auth.js (NextAuth) login, which stores its
+ * sessions in `AdminSession`.
+ */
+const ADMIN_SESSION_COOKIES = [
+  '__Secure-authjs.session-token',
+  'authjs.session-token',
+  '__Secure-next-auth.session-token',
+  'next-auth.session-token',
+];
+
+function getAdminSessionToken(req: Request): string | undefined {
+  const bearerToken = getBearerToken(req);
+  if (bearerToken) {
+    return bearerToken;
+  }
+
+  const cookies = new Map(
+    (req.get('Cookie') ?? '').split(';').map((cookie) => {
+      const [name = '', ...value] = cookie.trim().split('=');
+      return [name, decodeURIComponent(value.join('='))] as const;
+    }),
+  );
+  return ADMIN_SESSION_COOKIES.map((name) => cookies.get(name)).find(Boolean);
+}
+
+/**
+ * Express middleware for admin-only endpoints. Accepts an admin dashboard session token as
+ * a bearer token or session cookie, and requires the admin to still be on the `AdminWhitelist`.
+ * The authenticated admin is available as `res.locals.admin`.
+ *
+ * @throws {UnauthorizedError} When the session is missing, unknown or expired
+ * @throws {ForbiddenError} When the admin is no longer whitelisted
+ */
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  const sessionToken = getAdminSessionToken(req);
+  if (!sessionToken) {
+    return next(new UnauthorizedError('Admin session required'));
+  }
+
+  try {
+    const session = await prisma.adminSession.findUnique({
+      where: { sessionToken },
+      include: { admin: true },
+    });
+    if (!session || session.expires < new Date()) {
+      return next(new UnauthorizedError('Admin session is invalid or expired'));
+    }
+
+    const whitelisted = await prisma.adminWhitelist.findUnique({
+      where: { email: session.admin.email },
+    });
+    if (!whitelisted) {
+      logger.warn(
+        { adminId: session.admin.id },
+        'Rejected admin request from non-whitelisted admin',
+      );
+      return next(new ForbiddenError('Admin access revoked'));
+    }
+
+    res.locals.admin = session.admin;
+    next();
+  } catch (err: unknown) {
+    next(err);
+  }
+};
+
+/**
+ * Returns the token of an `Authorization: Bearer <token>` header, if any.
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || undefined;
+  }
+  return undefined;
+}
+
+const userAuthService = new UserAuthService();
+
+/**
+ * Express middleware for a user's own data endpoints (`/api/users/:userId/...`). Requires a
+ * user session token (see `UserAuthService`) as a bearer token, issued to the same user as
+ * `:userId`. The authenticated user is available as `res.locals.user`.
+ *
+ * @throws {UnauthorizedError} When the session is missing, unknown or expired
+ * @throws {ForbiddenError} When the session belongs to another user
+ */
+export const requireUserSession = async (
+  req: Request<{ userId: string }>,
+  res: Response,
+  next: NextFunction,
+) => {
+  const sessionToken = getBearerToken(req);
+  if (!sessionToken) {
+    return next(new UnauthorizedError('User session required'));
+  }
+
+  try {
+    const user = await userAuthService.getSessionUser(sessionToken);
+    if (!user) {
+      return next(new UnauthorizedError('User session is invalid or expired'));
+    }
+    if (user.whatsappId !== req.params.userId) {
+      logger.warn({ userId: user.id }, "Rejected request for another user's data");
+      return next(new ForbiddenError('Session does not belong to this user'));
+    }
+
+    res.locals.user = user;
+    next();
+  } catch (err: unknown) {
+    next(err);
+  }
+};
+
+/**
+ * Express middleware for the chat endpoints. A bearer user session is optional, but when one
+ * is sent it must belong to the `userId` in the body, and existing WhatsApp users can only be
+ * reached with one. The signed-in user is available as `res.locals.user`; without it the chat
+ * runs unauthenticated and personal-data actions are refused.
+ *
+ * @throws {UnauthorizedError} When the session is invalid, or missing for a WhatsApp user
+ * @throws {ForbiddenError} When the session belongs to another user
+ */
+export const authenticateChatUser = async (req: Request, res: Response, next: NextFunction) => {
+  const userId = (req.body as { userId?: unknown } | undefined)?.userId;
+  if (!userId) {
+    // The route rejects the request itself
+    return next();
+  }
+
+  try {
+    const sessionToken = getBearerToken(req);
+    if (!sessionToken) {
+      if (await userAuthService.isWhatsAppUser(String(userId))) {
+        return next(new UnauthorizedError('User session required'));
+      }
+      return next();
+    }
+
+    const user = await userAuthService.getSessionUser(sessionToken);
+    if (!user) {
+      return next(new UnauthorizedError('User session is invalid or expired'));
+    }
+    if (user.whatsappId !== String(userId)) {
+      logger.warn({ userId: user.id }, 'Rejected chat message sent as another user');
+      return next(new ForbiddenError('Session does not belong to this user'));
+    }
+
+    res.locals.user = user;
+    next();
+  } catch (err: unknown) {
+    next(err);
+  }
+};
+
+/**
+ * Express middleware for endpoints only the app's backend may call. Requires the shared
+ * `APP_AUTH_SECRET` as a bearer token.
+ *
+ * @throws {UnauthorizedError} When the secret is missing or does not match
+ */
+export const requireAppClient = (req: Request, _res: Response, next: NextFunction) => {
+  const secret = process.env.APP_AUTH_SECRET;
+  if (!secret) {
+    return next(new InternalServerError('APP_AUTH_SECRET is not configured'));
+  }
+
+  const token = getBearerToken(req);
+  // Comparing digests keeps the comparison constant-time regardless of the token's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!token || !timingSafeEqual(digest(token), digest(secret))) {
+    logger.warn('Rejected app client request with invalid secret');
+    return next(new UnauthorizedError('Invalid app credentials'));
+  }
+
+  next();
+};
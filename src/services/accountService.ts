@@ -0,0 +1,407 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { DataRequest, DataRequestType, Prisma, User } from '@prisma/client';
+import { extension as extFromMime } from 'mime-types';
+
+import { prisma } from '../lib/prisma';
+import { redis } from '../lib/redis';
+import { deleteGcsObject, downloadGcsObject } from '../lib/storage';
+import { AccountDeletionSchema } from '../types/account';
+import { ArchiveEntry, createTarGz } from '../utils/archive';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { localUploadPath, userUploadDir } from '../utils/paths';
+import { parseRequest } from '../utils/validation';
+
+/**
+ * Redis key prefixes holding per-user state: the rate limiter (`user:<whatsappId>`), webhook
+ * deduplication and delivery status (`message:<MessageSid>`) and pending This or That images
+ * (`thisOrThat:<userId>`).
+ */
+const USER_STATE_KEY_PREFIX = 'user';
+const MESSAGE_KEY_PREFIX = 'message';
+const THIS_OR_THAT_KEY_PREFIX = 'thisOrThat';
+
+export type AccountExport = {
+  filename: string;
+  archive: Buffer;
+};
+
+export type AccountDeletionResult = {
+  requestId: string;
+  status: DataRequest['status'];
+  details: AccountDeletionDetails;
+};
+
+type AccountDeletionDetails = {
+  rows: Record<string, number>;
+  redisKeys: number;
+  localFiles: number;
+  gcsObjects: number;
+  /** Stored media that could not be removed and needs manual cleanup */
+  remainingMedia: string[];
+};
+
+type StoredImage = { url: string; gcsUri: string | null; mimeType: string | null };
+
+/**
+ * Account Service
+ * Self-service data export and account deletion. Every request is recorded as a
+ * `DataRequest` (kept after the account is gone, with only a hash of the WhatsApp ID), so
+ * support can show when and how a user's data was exported or erased.
+ */
+export class AccountService {
+  /**
+   * Bundles everything stored about a user into a `.tar.gz`: one JSON file per kind of
+   * record plus the images they sent, read from local uploads or Cloud Storage. Graph
+   * checkpoints and raw provider payloads are left out; they repeat the conversation.
+   */
+  async exportAccount(whatsappId: string): Promise<AccountExport> {
+    const user = await this.getUser(whatsappId);
+    const request = await this.startRequest(user, DataRequestType.EXPORT);
+
+    try {
+      const userId = user.id;
+      const [
+        conversations,
+        memories,
+        wardrobe,
+        savedOutfits,
+        vibeChecks,
+        colorAnalyses,
+        sharedCards,
+        tasks,
+        graphRuns,
+      ] = await Promise.all([
+        prisma.conversation.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+          include: {
+            messages: { orderBy: { createdAt: 'asc' }, include: { media: true } },
+            feedback: true,
+          },
+        }),
+        prisma.memory.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.wardrobeItem.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.savedOutfit.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+          include: { items: { select: { id: true, name: true } } },
+        }),
+        prisma.vibeCheck.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.colorAnalysis.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.sharedCard.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.task.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        prisma.graphRun.findMany({
+          where: { userId },
+          orderBy: { startTime: 'asc' },
+          omit: { initialState: true, finalState: true },
+          include: {
+            nodeRuns: {
+              orderBy: { startTime: 'asc' },
+              include: { llmTraces: { omit: { rawRequest: true, rawResponse: true } } },
+            },
+          },
+        }),
+      ]);
+
+      const images: Record<string, StoredImage> = {};
+      for (const media of conversations.flatMap((c) => c.messages.flatMap((m) => m.media))) {
+        images[`images/messages/${media.id}`] = {
+          url: media.serverUrl,
+          gcsUri: media.gcsUri,
+          mimeType: media.mimeType,
+        };
+      }
+      for (const item of wardrobe) {
+        if (item.imageUrl) {
+          images[`images/wardrobe/${item.id}`] = {
+            url: item.imageUrl,
+            gcsUri: null,
+            mimeType: null,
+          };
+        }
+      }
+
+      // Share cards are stored in the database, so they are added as-is
+      const entries: ArchiveEntry[] = sharedCards.map((card) => ({
+        name: `images/shared/${card.slug}.png`,
+        data: Buffer.from(card.image),
+      }));
+      const missingImages: string[] = [];
+      for (const [name, image] of Object.entries(images)) {
+        const data = await this.readImage(image);
+        if (!data) {
+          missingImages.push(image.url);
+          continue;
+        }
+        const ext = path.extname(new URL(image.url, 'http://localhost').pathname) || '';
+        const fallbackExt = image.mimeType ? extFromMime(image.mimeType) : false;
+        entries.push({ name: ext ? `${name}${ext}` : `${name}.${fallbackExt || 'bin'}`, data });
+      }
+
+      const records: Record<string, unknown> = {
+        'profile.json': user,
+        'conversations.json': conversations,
+        'memories.json': memories,
+        'wardrobe.json': wardrobe,
+        'saved_outfits.json': savedOutfits,
+        'vibe_checks.json': vibeChecks,
+        'color_analyses.json': colorAnalyses,
+        'shared_cards.json': sharedCards.map(({ image: _image, ...card }) => card),
+        'tasks.json': tasks,
+        'graph_runs.json': graphRuns,
+      };
+      const counts = {
+        conversations: conversations.length,
+        messages: conversations.reduce((sum, c) => sum + c.messages.length, 0),
+        memories: memories.length,
+        wardrobeItems: wardrobe.length,
+        savedOutfits: savedOutfits.length,
+        vibeChecks: vibeChecks.length,
+        colorAnalyses: colorAnalyses.length,
+        sharedCards: sharedCards.length,
+        tasks: tasks.length,
+        graphRuns: graphRuns.length,
+        images: entries.length,
+      };
+
+      const manifest = {
+        exportedAt: new Date().toISOString(),
+        requestId: request.id,
+        counts,
+        missingImages,
+      };
+      const archive = await createTarGz([
+        { name: 'manifest.json', data: toJsonBuffer(manifest) },
+        ...Object.entries(records).map(([name, value]) => ({ name, data: toJsonBuffer(value) })),
+        ...entries,
+      ]);
+
+      await this.finishRequest(request.id, { counts, missingImages });
+      logger.info({ userId, requestId: request.id, bytes: archive.length }, 'Account exported');
+
+      const date = new Date().toISOString().slice(0, 10);
+      return { filename: `broadway-data-${date}.tar.gz`, archive };
+    } catch (err: unknown) {
+      await this.failRequest(request.id, err);
+      throw err;
+    }
+  }
+
+  /**
+   * Deletes an account: every database row (through the cascading relations on `User`), the
+   * user's Redis keys, their local uploads and the copies archived in Cloud Storage. Media
+   * that cannot be removed is listed in the `DataRequest`, which is then marked FAILED for
+   * follow-up; the account itself is gone either way.
+   */
+  async deleteAccount(whatsappId: string, body: unknown): Promise<AccountDeletionResult> {
+    parseRequest(AccountDeletionSchema, body);
+    const user = await this.getUser(whatsappId);
+    const request = await this.startRequest(user, DataRequestType.DELETION);
+    const userId = user.id;
+
+    let details: AccountDeletionDetails;
+    let gcsUris: string[];
+    let messageSids: string[];
+    try {
+      const [counts, messages, media, runs] = await Promise.all([
+        prisma.user.findUniqueOrThrow({
+          where: { id: userId },
+          select: {
+            _count: {
+              select: {
+                conversations: true,
+                memories: true,
+                wardrobe: true,
+                savedOutfits: true,
+                vibeChecks: true,
+                colorAnalyses: true,
+                sharedCards: true,
+                tasks: true,
+                graphRuns: true,
+              },
+            },
+          },
+        }),
+        prisma.message.count({ where: { conversation: { userId } } }),
+        prisma.media.findMany({
+          where: { message: { conversation: { userId } }, gcsUri: { not: null } },
+          select: { gcsUri: true },
+        }),
+        prisma.$queryRaw<{ sid: string }[]>`
+          SELECT DISTINCT "initialState"->'input'->>'MessageSid' AS "sid"
+          FROM "public"."GraphRun"
+          WHERE "userId" = ${userId} AND "initialState"->'input'->>'MessageSid' IS NOT NULL
+        `,
+      ]);
+      gcsUris = media.flatMap((m) => (m.gcsUri ? [m.gcsUri] : []));
+      messageSids = runs.map((run) => run.sid);
+
+      await prisma.user.delete({ where: { id: userId } });
+      details = {
+        rows: { ...counts._count, messages, users: 1 },
+        redisKeys: 0,
+        localFiles: 0,
+        gcsObjects: 0,
+        remainingMedia: [],
+      };
+    } catch (err: unknown) {
+      await this.failRequest(request.id, err);
+      throw err;
+    }
+
+    details.redisKeys = await this.deleteRedisKeys(user, messageSids);
+    details.localFiles = await this.deleteLocalUploads(user, details.remainingMedia);
+    for (const gcsUri of gcsUris) {
+      try {
+        await deleteGcsObject(gcsUri);
+        details.gcsObjects++;
+      } catch (err: unknown) {
+        logger.warn(
+          { userId, gcsUri, err: err instanceof Error ? err.message : String(err) },
+          'Failed to delete archived media',
+        );
+        details.remainingMedia.push(gcsUri);
+      }
+    }
+
+    let status: DataRequest['status'];
+    if (details.remainingMedia.length > 0) {
+      await this.failRequest(
+        request.id,
+        new Error(`${details.remainingMedia.length} media files could not be deleted`),
+        details,
+      );
+      status = 'FAILED';
+    } else {
+      await this.finishRequest(request.id, details);
+      status = 'COMPLETED';
+    }
+
+    logger.info({ userId, requestId: request.id, status, details }, 'Account deleted');
+    return { requestId: request.id, status, details };
+  }
+
+  private async getUser(whatsappId: string): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { whatsappId } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private startRequest(user: User, type: DataRequestType): Promise<DataRequest> {
+    return prisma.dataRequest.create({
+      data: {
+        userId: user.id,
+        whatsappIdHash: createHash('sha256').update(user.whatsappId).digest('hex'),
+        type,
+      },
+    });
+  }
+
+  private async finishRequest(id: string, details: object): Promise<void> {
+    await prisma.dataRequest.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        details: details as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  private async failRequest(id: string, err: unknown, details?: object): Promise<void> {
+    await prisma.dataRequest
+      .update({
+        where: { id },
+        data: {
+          status: 'FAILED',
+          error: err instanceof Error ? err.message : String(err),
+          ...(details && { details: details as Prisma.InputJsonValue }),
+          completedAt: new Date(),
+        },
+      })
+      .catch((updateErr: unknown) => {
+        logger.error(
+          { id, err: updateErr instanceof Error ? updateErr.message : String(updateErr) },
+          'Failed to record data request failure',
+        );
+      });
+  }
+
+  /**
+   * Reads an image from the uploads directory when it is served from there, otherwise from
+   * its Cloud Storage copy. Returns null when neither is available.
+   */
+  private async readImage(image: StoredImage): Promise<Buffer | null> {
+    const localPath = localUploadPath(image.url);
+    if (localPath) {
+      try {
+        return await fs.readFile(localPath);
+      } catch {
+        // Uploads do not survive Cloud Run instance restarts; fall back to the archived copy
+      }
+    }
+    if (image.gcsUri) {
+      try {
+        return await downloadGcsObject(image.gcsUri);
+      } catch (err: unknown) {
+        logger.warn(
+          { gcsUri: image.gcsUri, err: err instanceof Error ? err.message : String(err) },
+          'Failed to download archived media for export',
+        );
+      }
+    }
+    return null;
+  }
+
+  private async deleteRedisKeys(user: User, messageSids: string[]): Promise<number> {
+    try {
+      const keys = [
+        `${USER_STATE_KEY_PREFIX}:${user.whatsappId}`,
+        ...messageSids.map((sid) => `${MESSAGE_KEY_PREFIX}:${sid}`),
+      ];
+      for await (const batch of redis.scanIterator({
+        MATCH: `${THIS_OR_THAT_KEY_PREFIX}:${user.id}*`,
+        COUNT: 100,
+      })) {
+        keys.push(...batch);
+      }
+      return await redis.del(keys);
+    } catch (err: unknown) {
+      // Every key expires on its own within a day, so a failure here is logged only
+      logger.warn(
+        { userId: user.id, err: err instanceof Error ? err.message : String(err) },
+        'Failed to delete Redis keys of deleted account',
+      );
+      return 0;
+    }
+  }
+
+  private async deleteLocalUploads(user: User, remaining: string[]): Promise<number> {
+    const dir = userUploadDir(user.whatsappId);
+    try {
+      const files = await fs.readdir(dir);
+      await fs.rm(dir, { recursive: true, force: true });
+      return files.length;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      logger.warn(
+        { userId: user.id, dir, err: err instanceof Error ? err.message : String(err) },
+        'Failed to delete local uploads',
+      );
+      remaining.push(dir);
+      return 0;
+    }
+  }
+}
+
+function toJsonBuffer(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,176 @@
+import { Prisma, User } from '@prisma/client';
+
+import { getEmbeddings } from '../lib/ai';
+import { prisma } from '../lib/prisma';
+import { toVectorLiteral } from '../lib/vectorSearch';
+import {
+  MemoryListQuery,
+  MemoryListQuerySchema,
+  MemoryUpdate,
+  MemoryUpdateSchema,
+} from '../types/memories';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { parseRequest } from '../utils/validation';
+
+/**
+ * Columns returned to clients. The embedding itself is internal to `fetchRelevantMemories`.
+ */
+export const MEMORY_SELECT = {
+  id: true,
+  memory: true,
+  embeddingAt: true,
+  createdAt: true,
+} satisfies Prisma.MemorySelect;
+
+export type MemoryView = Prisma.MemoryGetPayload<{ select: typeof MEMORY_SELECT }>;
+
+export type MemoryListResult = {
+  memories: MemoryView[];
+  nextCursor: string | null;
+};
+
+export type MemoryExport = {
+  exportedAt: string;
+  memories: MemoryView[];
+};
+
+/**
+ * Memory Service
+ * Lets users see and correct what the assistant remembers about them. Memories are extracted
+ * from conversations by the `storeMemories` function and recalled by `fetchRelevantMemories`;
+ * edits are re-embedded immediately so recall follows the corrected wording.
+ */
+export class MemoryService {
+  /**
+   * Lists a user's memories, newest first.
+   */
+  async listMemories(whatsappId: string, query: unknown): Promise<MemoryListResult> {
+    const user = await this.getUser(whatsappId);
+    const { limit, cursor }: MemoryListQuery = parseRequest(MemoryListQuerySchema, query);
+
+    const memories = await prisma.memory.findMany({
+      where: { userId: user.id },
+      select: MEMORY_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = memories.length > limit;
+    const page = hasMore ? memories.slice(0, limit) : memories;
+    return { memories: page, nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null };
+  }
+
+  /**
+   * Returns all of a user's memories, oldest first, for download.
+   */
+  async exportMemories(whatsappId: string): Promise<MemoryExport> {
+    const user = await this.getUser(whatsappId);
+    const memories = await prisma.memory.findMany({
+      where: { userId: user.id },
+      select: MEMORY_SELECT,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    return { exportedAt: new Date().toISOString(), memories };
+  }
+
+  /**
+   * Rewrites a memory and replaces its embedding.
+   * @throws {NotFoundError} If the memory does not exist or belongs to another user.
+   */
+  async updateMemory(whatsappId: string, memoryId: string, body: unknown): Promise<MemoryView> {
+    const user = await this.getUser(whatsappId);
+    const { memory }: MemoryUpdate = parseRequest(MemoryUpdateSchema, body);
+    await this.findMemory(user.id, memoryId);
+
+    const updated = await rewriteMemory(memoryId, memory);
+    logger.info({ userId: user.id, memoryId }, 'Memory updated');
+    return updated;
+  }
+
+  /**
+   * Forgets a single memory.
+   * @throws {NotFoundError} If the memory does not exist or belongs to another user.
+   */
+  async deleteMemory(whatsappId: string, memoryId: string): Promise<void> {
+    const user = await this.getUser(whatsappId);
+    const count = await forgetMemories(user.id, [memoryId]);
+    if (count === 0) {
+      throw new NotFoundError('Memory not found');
+    }
+  }
+
+  /**
+   * Forgets everything the assistant remembers about a user.
+   * @returns The number of memories deleted.
+   */
+  async deleteAllMemories(whatsappId: string): Promise<number> {
+    const user = await this.getUser(whatsappId);
+    const { count } = await prisma.memory.deleteMany({ where: { userId: user.id } });
+    logger.info({ userId: user.id, count }, 'All memories deleted');
+    return count;
+  }
+
+  private async getUser(whatsappId: string): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { whatsappId } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async findMemory(userId: string, memoryId: string): Promise<MemoryView> {
+    const memory = await prisma.memory.findFirst({
+      where: { id: memoryId, userId },
+      select: MEMORY_SELECT,
+    });
+    if (!memory) {
+      throw new NotFoundError('Memory not found');
+    }
+    return memory;
+  }
+}
+
+/**
+ * Deletes memories by ID, ignoring any that belong to another user. Shared by the API and the
+ * `handleMemories` chat node, which works with internal user IDs.
+ *
+ * @returns The number of memories deleted.
+ */
+export async function forgetMemories(userId: string, memoryIds: string[]): Promise<number> {
+  if (memoryIds.length === 0) {
+    return 0;
+  }
+  const { count } = await prisma.memory.deleteMany({
+    where: { id: { in: memoryIds }, userId },
+  });
+  logger.info({ userId, memoryIds, count }, 'Memories forgotten');
+  return count;
+}
+
+/**
+ * Replaces a memory's text and embedding. Callers check that the memory belongs to the user.
+ */
+export async function rewriteMemory(memoryId: string, memory: string): Promise<MemoryView> {
+  const embedder = getEmbeddings();
+  const [embedding] = await embedder.embedDocuments([memory]);
+  if (!embedding) {
+    throw new Error('Embedding response did not contain any data');
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.memory.update({
+      where: { id: memoryId },
+      data: {
+        memory,
+        embeddingModel: embedder.model,
+        embeddingDim: embedding.length,
+        embeddingAt: new Date(),
+      },
+      select: MEMORY_SELECT,
+    }),
+    prisma.$executeRaw`UPDATE "Memory" SET embedding = ${toVectorLiteral(embedding)}::vector WHERE id = ${memoryId}`,
+  ]);
+  return updated;
+}
@@ -0,0 +1,511 @@
+import { Prisma, WardrobeItemCategory } from '@prisma/client';
+
+import { ColorWithHex, getPaletteData, isValidPalette } from '../data/seasonalPalettes';
+import { prisma } from '../lib/prisma';
+import {
+  colorDistance,
+  colorNameToHex,
+  hexToHsl,
+  hueDifference,
+  isNeutralColor,
+} from '../utils/colors';
+import { BadRequestError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const WEATHER_OPTIONS = ['hot', 'warm', 'mild', 'cool', 'cold', 'rainy'] as const;
+export type Weather = (typeof WEATHER_OPTIONS)[number];
+
+export interface OutfitRequest {
+  /** Free-text occasion, e.g. "office", "beach wedding" */
+  occasion?: string | undefined;
+  weather?: Weather | undefined;
+  /** Number of outfits to return (default 3) */
+  limit?: number | undefined;
+}
+
+export interface OutfitItem {
+  id: string;
+  name: string;
+  category: WardrobeItemCategory;
+  type: string;
+  mainColor: string;
+  secondaryColor: string | null;
+  imageUrl: string | null;
+}
+
+export interface OutfitSuggestion {
+  items: OutfitItem[];
+  /** Color harmony out of 10, against the user's palette when they have one */
+  harmonyScore: number;
+  /** Overall ranking score (0–1) combining occasion/weather fit and harmony */
+  score: number;
+  notes: string[];
+}
+
+export interface OutfitBuildResult {
+  outfits: OutfitSuggestion[];
+  paletteName: string | null;
+  /** Categories the wardrobe lacks to complete a look for the request */
+  missing: WardrobeItemCategory[];
+}
+
+export interface SaveOutfitInput {
+  itemIds: string[];
+  name?: string | undefined;
+  occasion?: string | undefined;
+  weather?: Weather | undefined;
+  notes?: string | undefined;
+}
+
+export interface SavedOutfitView {
+  id: string;
+  name: string;
+  occasion: string | null;
+  weather: string | null;
+  harmonyScore: number | null;
+  notes: string | null;
+  items: OutfitItem[];
+  createdAt: Date;
+}
+
+// ============================================================================
+// SCORING TABLES
+// ============================================================================
+
+const CANDIDATE_ITEM_SELECT = {
+  id: true,
+  name: true,
+  category: true,
+  type: true,
+  subtype: true,
+  mainColor: true,
+  secondaryColor: true,
+  attributes: true,
+  keywords: true,
+  imageUrl: true,
+} satisfies Prisma.WardrobeItemSelect;
+
+type Candidate = Prisma.WardrobeItemGetPayload<{ select: typeof CANDIDATE_ITEM_SELECT }>;
+type RankedCandidate = { item: Candidate; fit: number };
+type Palette = { name: string | null; colors: ColorWithHex[] };
+
+const OCCASION_SYNONYMS: Record<string, string[]> = {
+  work: ['office', 'business', 'formal', 'smart', 'professional'],
+  office: ['work', 'business', 'smart', 'professional'],
+  party: ['evening', 'night', 'festive', 'cocktail'],
+  wedding: ['formal', 'festive', 'ethnic', 'traditional', 'evening'],
+  date: ['evening', 'smart', 'night'],
+  gym: ['athletic', 'sport', 'activewear', 'workout'],
+  travel: ['casual', 'comfortable', 'vacation'],
+  vacation: ['travel', 'casual', 'resort', 'beach'],
+  beach: ['vacation', 'resort', 'summer', 'swim'],
+  casual: ['everyday', 'weekend', 'relaxed'],
+  formal: ['business', 'evening', 'wedding'],
+};
+
+const WEATHER_SEASONS: Record<Weather, string[]> = {
+  hot: ['summer'],
+  warm: ['summer', 'spring'],
+  mild: ['spring', 'fall', 'autumn'],
+  cool: ['fall', 'autumn', 'winter'],
+  cold: ['winter'],
+  rainy: ['monsoon', 'rain', 'fall', 'autumn'],
+};
+
+const WARM_MATERIALS = [
+  'wool',
+  'fleece',
+  'cashmere',
+  'knit',
+  'tweed',
+  'corduroy',
+  'velvet',
+  'down',
+];
+const LIGHT_MATERIALS = ['linen', 'chiffon', 'mesh', 'seersucker', 'voile'];
+const RAIN_UNFRIENDLY = ['suede', 'canvas', 'satin'];
+
+/** Weather in which a look needs an outer layer. */
+const LAYERED_WEATHER: Weather[] = ['cool', 'cold', 'rainy'];
+
+/** Candidates kept per category when enumerating combinations. */
+const CANDIDATES_PER_CATEGORY = 4;
+
+// ============================================================================
+// ITEM FIT
+// ============================================================================
+
+const attributeText = (item: Candidate, key: string): string => {
+  const attributes = (item.attributes ?? {}) as Record<string, unknown>;
+  const value = attributes[key];
+  return typeof value === 'string' ? value.toLowerCase() : '';
+};
+
+const itemText = (item: Candidate): string =>
+  [
+    item.name,
+    item.type,
+    item.subtype,
+    attributeText(item, 'occasion'),
+    attributeText(item, 'style'),
+    ...item.keywords,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+function occasionFit(item: Candidate, occasion: string | undefined): number {
+  if (!occasion) return 0.7;
+  const tokens = occasion
+    .toLowerCase()
+    .split(/[\s,/]+/)
+    .filter((token) => token.length > 2);
+  const expanded = new Set(tokens.flatMap((token) => [token, ...(OCCASION_SYNONYMS[token] ?? [])]));
+  const text = itemText(item);
+  if ([...expanded].some((token) => text.includes(token))) return 1;
+  return attributeText(item, 'occasion') ? 0.3 : 0.6;
+}
+
+function weatherFit(item: Candidate, weather: Weather | undefined): number {
+  if (!weather) return 0.7;
+  const season = attributeText(item, 'season');
+  const material = attributeText(item, 'material');
+
+  let fit: number;
+  if (!season) fit = 0.7;
+  else if (season.includes('all')) fit = 0.9;
+  else if (WEATHER_SEASONS[weather].some((s) => season.includes(s))) fit = 1;
+  else fit = 0.4;
+
+  if (
+    (weather === 'hot' || weather === 'warm') &&
+    WARM_MATERIALS.some((m) => material.includes(m))
+  ) {
+    fit -= 0.3;
+  }
+  if (
+    (weather === 'cool' || weather === 'cold') &&
+    LIGHT_MATERIALS.some((m) => material.includes(m))
+  ) {
+    fit -= 0.2;
+  }
+  if (weather === 'rainy' && RAIN_UNFRIENDLY.some((m) => material.includes(m))) {
+    fit -= 0.3;
+  }
+  return Math.max(0, Math.min(1, fit));
+}
+
+// ============================================================================
+// COLOR HARMONY
+// ============================================================================
+
+/**
+ * How well a color suits the palette: neutrals always work, other colors score by their
+ * distance to the closest palette color.
+ */
+function paletteFit(colorName: string, palette: Palette): number {
+  if (isNeutralColor(colorName)) return 0.75;
+  const hex = colorNameToHex(colorName);
+  const closest = Math.min(...palette.colors.map((c) => colorDistance(hex, c.hex)));
+  return Math.max(0, Math.min(1, 1 - (closest - 0.05) / 0.25));
+}
+
+/**
+ * How well the non-neutral colors of an outfit work together, from their hue relationships.
+ */
+function pairingFit(colorNames: string[]): { fit: number; accents: string[] } {
+  const accents: { name: string; hue: number }[] = [];
+  for (const name of colorNames) {
+    if (isNeutralColor(name)) continue;
+    const { h, s } = hexToHsl(colorNameToHex(name));
+    // Washed-out colors behave like neutrals
+    if (s < 0.2) continue;
+    if (!accents.some((a) => hueDifference(a.hue, h) < 15)) accents.push({ name, hue: h });
+  }
+
+  if (accents.length <= 1) return { fit: 1, accents: accents.map((a) => a.name) };
+
+  const pairScores: number[] = [];
+  accents.forEach((a, i) => {
+    for (const b of accents.slice(i + 1)) {
+      const diff = hueDifference(a.hue, b.hue);
+      if (diff <= 40)
+        pairScores.push(1); // analogous
+      else if (diff >= 150)
+        pairScores.push(0.9); // complementary
+      else if (diff >= 100 && diff <= 140)
+        pairScores.push(0.75); // triadic
+      else pairScores.push(0.45);
+    }
+  });
+  const mean = pairScores.reduce((sum, s) => sum + s, 0) / pairScores.length;
+  return { fit: accents.length > 3 ? mean * 0.8 : mean, accents: accents.map((a) => a.name) };
+}
+
+/**
+ * Scores an outfit's color harmony out of 10 and explains the main reasons.
+ */
+function scoreHarmony(
+  items: Pick<Candidate, 'category' | 'mainColor'>[],
+  palette: Palette | null,
+): { harmonyScore: number; notes: string[] } {
+  const notes: string[] = [];
+  const { fit: pairing, accents } = pairingFit(items.map((i) => i.mainColor));
+
+  if (accents.length === 0) notes.push('Neutral palette that is easy to wear');
+  else if (accents.length === 1) notes.push(`${accents[0]} adds a pop of color to neutrals`);
+  else if (pairing >= 0.9) notes.push(`${accents.join(' and ')} work well together`);
+  else if (pairing < 0.6) notes.push(`${accents.join(', ')} compete with each other`);
+
+  let score = pairing;
+  if (palette && palette.colors.length > 0) {
+    const fits = items.map((item) => ({ item, fit: paletteFit(item.mainColor, palette) }));
+    const paletteScore = fits.reduce((sum, f) => sum + f.fit, 0) / fits.length;
+    score = 0.6 * paletteScore + 0.4 * pairing;
+
+    const label = palette.name ? palette.name.replace(/_/g, ' ').toLowerCase() : 'color';
+    for (const { item, fit } of fits) {
+      if (fit >= 0.8 && !isNeutralColor(item.mainColor)) {
+        notes.push(`${item.mainColor} is in your ${label} palette`);
+      } else if (fit < 0.3 && item.category !== 'SHOES' && item.category !== 'BOTTOM') {
+        notes.push(`${item.mainColor} is outside your palette; keep it away from your face`);
+      }
+    }
+  }
+
+  return { harmonyScore: Math.round(score * 100) / 10, notes };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+const toOutfitItem = (item: Candidate): OutfitItem => ({
+  id: item.id,
+  name: item.name,
+  category: item.category,
+  type: item.type,
+  mainColor: item.mainColor,
+  secondaryColor: item.secondaryColor,
+  imageUrl: item.imageUrl,
+});
+
+/**
+ * Outfit Service
+ * Assembles complete looks from a user's own wardrobe for an occasion and weather. Items are
+ * ranked per category by how well they suit the occasion and weather, combined into
+ * TOP+BOTTOM or ONE_PIECE looks with shoes (plus outerwear when it is cold or wet, and a
+ * bag and accessory when available), and ranked by fit and color harmony against the user's
+ * saved color analysis palette.
+ */
+export class OutfitService {
+  /**
+   * Builds the best distinct outfits from the user's wardrobe.
+   * @param userId The user's internal ID.
+   */
+  async buildOutfits(userId: string, request: OutfitRequest = {}): Promise<OutfitBuildResult> {
+    const { occasion, weather } = request;
+    const limit = Math.max(1, Math.min(request.limit ?? 3, 5));
+
+    const [wardrobe, palette] = await Promise.all([
+      prisma.wardrobeItem.findMany({
+        where: { userId },
+        select: CANDIDATE_ITEM_SELECT,
+        orderBy: { createdAt: 'desc' },
+        take: 300,
+      }),
+      this.loadPalette(userId),
+    ]);
+
+    const ranked = new Map<WardrobeItemCategory, RankedCandidate[]>();
+    for (const item of wardrobe) {
+      const fit = 0.55 * occasionFit(item, occasion) + 0.45 * weatherFit(item, weather);
+      const list = ranked.get(item.category) ?? [];
+      list.push({ item, fit });
+      ranked.set(item.category, list);
+    }
+    for (const list of ranked.values()) {
+      list.sort((a, b) => b.fit - a.fit);
+      list.splice(CANDIDATES_PER_CATEGORY);
+    }
+    const top = (category: WardrobeItemCategory) => ranked.get(category) ?? [];
+
+    const needsLayer = weather !== undefined && LAYERED_WEATHER.includes(weather);
+    const missing: WardrobeItemCategory[] = [];
+    if (top('ONE_PIECE').length === 0) {
+      if (top('TOP').length === 0) missing.push('TOP');
+      if (top('BOTTOM').length === 0) missing.push('BOTTOM');
+    }
+    if (top('SHOES').length === 0) missing.push('SHOES');
+    if (needsLayer && top('OUTERWEAR').length === 0) missing.push('OUTERWEAR');
+
+    const bases: RankedCandidate[][] = [
+      ...top('TOP').flatMap((t) => top('BOTTOM').map((b) => [t, b])),
+      ...top('ONE_PIECE').map((o) => [o]),
+    ];
+    const shoes: (RankedCandidate | undefined)[] =
+      top('SHOES').length > 0 ? top('SHOES').slice(0, 3) : [undefined];
+    const layers: (RankedCandidate | undefined)[] = needsLayer
+      ? top('OUTERWEAR').length > 0
+        ? top('OUTERWEAR').slice(0, 2)
+        : [undefined]
+      : weather === 'hot' || weather === 'warm'
+        ? [undefined]
+        : [undefined, ...top('OUTERWEAR').slice(0, 1)];
+
+    const combos: OutfitSuggestion[] = [];
+    for (const base of bases) {
+      for (const shoe of shoes) {
+        for (const layer of layers) {
+          const parts = [...base, shoe, layer].filter((p): p is RankedCandidate => !!p);
+          combos.push(this.score(parts, palette));
+        }
+      }
+    }
+    combos.sort((a, b) => b.score - a.score);
+
+    // Keep outfits distinct: each suggestion gets its own top/bottom/one-piece
+    const outfits: OutfitSuggestion[] = [];
+    const usedBases = new Set<string>();
+    for (const combo of combos) {
+      const baseKey = combo.items
+        .filter((i) => ['TOP', 'BOTTOM', 'ONE_PIECE'].includes(i.category))
+        .map((i) => i.id)
+        .join('+');
+      if (usedBases.has(baseKey)) continue;
+      usedBases.add(baseKey);
+      outfits.push(this.finish(combo, top('BAG'), top('ACCESSORY'), palette));
+      if (outfits.length >= limit) break;
+    }
+
+    logger.debug(
+      {
+        userId,
+        occasion,
+        weather,
+        wardrobeSize: wardrobe.length,
+        outfits: outfits.length,
+        missing,
+      },
+      'Built outfits from wardrobe',
+    );
+    return { outfits, paletteName: palette?.name ?? null, missing };
+  }
+
+  /**
+   * Saves an outfit made of the user's wardrobe items.
+   * @throws {BadRequestError} If no items are given or any item is not in the user's wardrobe.
+   */
+  async saveOutfit(userId: string, input: SaveOutfitInput): Promise<SavedOutfitView> {
+    const itemIds = [...new Set(input.itemIds)];
+    if (itemIds.length === 0) {
+      throw new BadRequestError('An outfit needs at least one wardrobe item');
+    }
+
+    const items = await prisma.wardrobeItem.findMany({
+      where: { id: { in: itemIds }, userId },
+      select: CANDIDATE_ITEM_SELECT,
+    });
+    if (items.length !== itemIds.length) {
+      throw new BadRequestError('Some outfit items are not in the wardrobe');
+    }
+
+    const palette = await this.loadPalette(userId);
+    const { harmonyScore } = scoreHarmony(items, palette);
+    const occasion = input.occasion?.trim() || null;
+
+    const outfit = await prisma.savedOutfit.create({
+      data: {
+        userId,
+        name: input.name?.trim() || (occasion ? `${occasion} look` : 'My outfit'),
+        occasion,
+        weather: input.weather ?? null,
+        harmonyScore,
+        notes: input.notes ?? null,
+        items: { connect: itemIds.map((id) => ({ id })) },
+      },
+      include: { items: { select: CANDIDATE_ITEM_SELECT } },
+    });
+
+    logger.info({ userId, outfitId: outfit.id, itemCount: items.length }, 'Saved outfit');
+    return { ...outfit, items: outfit.items.map(toOutfitItem) };
+  }
+
+  /**
+   * Lists the user's saved outfits, newest first.
+   */
+  async listSavedOutfits(userId: string, limit = 10): Promise<SavedOutfitView[]> {
+    const outfits = await prisma.savedOutfit.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { items: { select: CANDIDATE_ITEM_SELECT } },
+    });
+    return outfits.map((outfit) => ({ ...outfit, items: outfit.items.map(toOutfitItem) }));
+  }
+
+  private score(parts: RankedCandidate[], palette: Palette | null): OutfitSuggestion {
+    const fit = parts.reduce((sum, p) => sum + p.fit, 0) / parts.length;
+    const { harmonyScore, notes } = scoreHarmony(
+      parts.map((p) => p.item),
+      palette,
+    );
+    return {
+      items: parts.map((p) => toOutfitItem(p.item)),
+      harmonyScore,
+      score: Math.round((0.45 * fit + 0.55 * (harmonyScore / 10)) * 100) / 100,
+      notes,
+    };
+  }
+
+  /**
+   * Adds the bag and accessory that keep the outfit's harmony highest.
+   */
+  private finish(
+    outfit: OutfitSuggestion,
+    bags: RankedCandidate[],
+    accessories: RankedCandidate[],
+    palette: Palette | null,
+  ): OutfitSuggestion {
+    let best = outfit;
+    for (const options of [bags, accessories]) {
+      let bestWithOption: OutfitSuggestion | null = null;
+      for (const option of options.slice(0, 3)) {
+        const items = [...best.items, toOutfitItem(option.item)];
+        const { harmonyScore, notes } = scoreHarmony(items, palette);
+        if (!bestWithOption || harmonyScore > bestWithOption.harmonyScore) {
+          bestWithOption = { ...best, items, harmonyScore, notes };
+        }
+      }
+      if (bestWithOption) best = bestWithOption;
+    }
+    return best;
+  }
+
+  /**
+   * Loads the colors of the user's latest color analysis.
+   */
+  private async loadPalette(userId: string): Promise<Palette | null> {
+    const analysis = await prisma.colorAnalysis.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: { palette_name: true, colors_suited: true },
+    });
+    if (!analysis) return null;
+
+    if (analysis.palette_name && isValidPalette(analysis.palette_name)) {
+      return {
+        name: analysis.palette_name,
+        colors: getPaletteData(analysis.palette_name).topColors,
+      };
+    }
+    const colors = Array.isArray(analysis.colors_suited)
+      ? (analysis.colors_suited as unknown as ColorWithHex[]).filter((c) => c?.hex)
+      : [];
+    return { name: analysis.palette_name, colors };
+  }
+}
@@ -0,0 +1,354 @@
+import { randomBytes } from 'crypto';
+
+import { Prisma, SharedCardType, User } from '@prisma/client';
+
+import { getPaletteData, isValidPalette } from '../data/seasonalPalettes';
+import { prisma } from '../lib/prisma';
+import {
+  ShareCreate,
+  ShareCreateSchema,
+  ShareListQuery,
+  ShareListQuerySchema,
+} from '../types/shares';
+import { NotFoundError } from '../utils/errors';
+import {
+  renderColorAnalysisCard,
+  renderVibeCheckCard,
+  renderVibeCheckComparisonCard,
+} from '../utils/imageGenerator';
+import { logger } from '../utils/logger';
+import { localUploadPath } from '../utils/paths';
+import { parseRequest } from '../utils/validation';
+import { compareVibeChecks } from './vibeCheckService';
+
+/** Short link codes skip look-alike characters (0/O, 1/l/I) so they survive being retyped. */
+const SLUG_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SLUG_LENGTH = 8;
+/** Slugs drawn before giving up on finding an unused one. */
+const SLUG_ATTEMPTS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Columns returned to clients. The rendered image is served separately by `getShareImage`.
+ */
+const SHARE_SELECT = {
+  id: true,
+  slug: true,
+  type: true,
+  vibeCheckId: true,
+  colorAnalysisId: true,
+  title: true,
+  description: true,
+  viewCount: true,
+  lastViewedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.SharedCardSelect;
+
+type SharedCardRecord = Prisma.SharedCardGetPayload<{ select: typeof SHARE_SELECT }>;
+
+export type ShareView = SharedCardRecord & {
+  /** Public short link */
+  url: string;
+  imageUrl: string;
+  /** False once the link has expired or been revoked */
+  active: boolean;
+};
+
+export type ShareListResult = {
+  shares: ShareView[];
+  nextCursor: string | null;
+};
+
+/**
+ * What the public share page shows; nothing that identifies the user.
+ */
+export type PublicShare = Pick<SharedCardRecord, 'slug' | 'title' | 'description'> & {
+  url: string;
+  imageUrl: string;
+};
+
+type RenderedCard = {
+  type: SharedCardType;
+  source: Pick<Prisma.SharedCardUncheckedCreateInput, 'vibeCheckId' | 'colorAnalysisId'>;
+  title: string;
+  description: string;
+  image: Buffer;
+};
+
+/**
+ * Share Service
+ * Turns vibe checks and color analyses into public short links (`/s/<slug>`) that users can
+ * post on social media. The card is rendered once and stored with the link, whose page
+ * carries Open Graph tags so it previews as the card. Links expire, count their views and
+ * can be revoked at any time.
+ */
+export class ShareService {
+  /**
+   * Renders a result card and issues a short link to it.
+   *
+   * @param origin - Public origin links are built on, e.g. `https://app.example.com`
+   * @throws {NotFoundError} If the result does not exist or belongs to another user.
+   */
+  async createShare(whatsappId: string, body: unknown, origin: string): Promise<ShareView> {
+    const user = await this.getUser(whatsappId);
+    const { type, resultId, expiresInDays }: ShareCreate = parseRequest(ShareCreateSchema, body);
+
+    const card =
+      type === 'vibe_check'
+        ? await renderVibeCheckShare(user.id, resultId)
+        : await renderColorAnalysisShare(user.id, resultId);
+
+    const expiresAt = new Date(Date.now() + expiresInDays * DAY_MS);
+    let share: SharedCardRecord | undefined;
+    for (let attempt = 1; !share; attempt++) {
+      try {
+        share = await prisma.sharedCard.create({
+          data: {
+            userId: user.id,
+            slug: createSlug(),
+            type: card.type,
+            ...card.source,
+            title: card.title,
+            description: card.description,
+            image: new Uint8Array(card.image),
+            expiresAt,
+          },
+          select: SHARE_SELECT,
+        });
+      } catch (err: unknown) {
+        const slugTaken =
+          err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+        if (!slugTaken || attempt >= SLUG_ATTEMPTS) {
+          throw err;
+        }
+      }
+    }
+    logger.info({ userId: user.id, shareId: share.id, type }, 'Share link created');
+    return toShareView(share, origin);
+  }
+
+  /**
+   * Lists a user's share links, newest first, including expired and revoked ones.
+   */
+  async listShares(whatsappId: string, query: unknown, origin: string): Promise<ShareListResult> {
+    const user = await this.getUser(whatsappId);
+    const { limit, cursor }: ShareListQuery = parseRequest(ShareListQuerySchema, query);
+
+    const shares = await prisma.sharedCard.findMany({
+      where: { userId: user.id },
+      select: SHARE_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = shares.length > limit;
+    const page = hasMore ? shares.slice(0, limit) : shares;
+    return {
+      shares: page.map((share) => toShareView(share, origin)),
+      nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null,
+    };
+  }
+
+  /**
+   * Revokes a share link so its page and image stop being served. Revoking twice is a no-op.
+   *
+   * @throws {NotFoundError} If the link does not exist or belongs to another user.
+   */
+  async revokeShare(whatsappId: string, shareId: string, origin: string): Promise<ShareView> {
+    const user = await this.getUser(whatsappId);
+    const existing = await prisma.sharedCard.findFirst({
+      where: { id: shareId, userId: user.id },
+      select: SHARE_SELECT,
+    });
+    if (!existing) {
+      throw new NotFoundError('Share link not found');
+    }
+    if (existing.revokedAt) {
+      return toShareView(existing, origin);
+    }
+
+    const share = await prisma.sharedCard.update({
+      where: { id: shareId },
+      data: { revokedAt: new Date() },
+      select: SHARE_SELECT,
+    });
+    logger.info({ userId: user.id, shareId }, 'Share link revoked');
+    return toShareView(share, origin);
+  }
+
+  /**
+   * Loads a live share link for its public page and counts the view.
+   *
+   * @throws {NotFoundError} If the link does not exist, has expired or was revoked.
+   */
+  async viewShare(slug: string, origin: string): Promise<PublicShare> {
+    const share = await findLiveShare(slug);
+    await prisma.sharedCard.update({
+      where: { id: share.id },
+      data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+    return {
+      slug,
+      title: share.title,
+      description: share.description,
+      ...shareUrls(slug, origin),
+    };
+  }
+
+  /**
+   * Returns a live share link's rendered card as PNG.
+   *
+   * @throws {NotFoundError} If the link does not exist, has expired or was revoked.
+   */
+  async getShareImage(slug: string): Promise<Buffer> {
+    const { image } = await findLiveShare(slug);
+    return Buffer.from(image);
+  }
+
+  private async getUser(whatsappId: string): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { whatsappId } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+}
+
+async function findLiveShare(
+  slug: string,
+): Promise<{ id: string; title: string; description: string; image: Uint8Array }> {
+  const share = await prisma.sharedCard.findFirst({
+    where: { slug, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, title: true, description: true, image: true },
+  });
+  if (!share) {
+    throw new NotFoundError('Share link not found or expired');
+  }
+  return share;
+}
+
+/**
+ * Renders a vibe check card, or the before/after card when the check was a comparison.
+ */
+async function renderVibeCheckShare(userId: string, vibeCheckId: string): Promise<RenderedCard> {
+  const check = await prisma.vibeCheck.findFirst({
+    where: { id: vibeCheckId, userId },
+    include: { comparedTo: true },
+  });
+  if (!check) {
+    throw new NotFoundError('Vibe check not found');
+  }
+
+  const source = { vibeCheckId: check.id };
+  const afterImageUrl = resolveImage(check.imageUrl);
+  if (check.comparedTo) {
+    const comparison = compareVibeChecks(check.comparedTo, check);
+    const image = await renderVibeCheckComparisonCard({
+      ...comparison,
+      beforeImageUrl: resolveImage(check.comparedTo.imageUrl),
+      afterImageUrl,
+    });
+    return {
+      type: SharedCardType.VIBE_CHECK,
+      source,
+      title: `From ${comparison.overall.before.toFixed(1)} to ${comparison.overall.after.toFixed(1)}/10 on Broadway`,
+      description: check.comment,
+      image,
+    };
+  }
+
+  const image = await renderVibeCheckCard({
+    overall_score: check.overall_score,
+    fit_silhouette: {
+      score: check.fit_silhouette_score,
+      explanation: check.fit_silhouette_explanation,
+    },
+    color_harmony: {
+      score: check.color_harmony_score,
+      explanation: check.color_harmony_explanation,
+    },
+    styling_details: {
+      score: check.styling_details_score,
+      explanation: check.styling_details_explanation,
+    },
+    context_confidence: {
+      score: check.context_confidence_score,
+      explanation: check.context_confidence_explanation,
+    },
+    userImageUrl: afterImageUrl,
+    comment: check.comment,
+  });
+  return {
+    type: SharedCardType.VIBE_CHECK,
+    source,
+    title: `My outfit scored ${check.overall_score.toFixed(1)}/10 on Broadway`,
+    description: check.comment,
+    image,
+  };
+}
+
+/**
+ * Renders a saved color analysis. Only the palette is saved, so the card has no photo.
+ */
+async function renderColorAnalysisShare(
+  userId: string,
+  colorAnalysisId: string,
+): Promise<RenderedCard> {
+  const analysis = await prisma.colorAnalysis.findFirst({
+    where: { id: colorAnalysisId, userId },
+  });
+  if (!analysis?.palette_name || !isValidPalette(analysis.palette_name)) {
+    throw new NotFoundError('Color analysis not found');
+  }
+
+  const palette = getPaletteData(analysis.palette_name);
+  const paletteLabel = analysis.palette_name
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  const image = await renderColorAnalysisCard({
+    palette_name: paletteLabel,
+    colors_suited: palette.topColors,
+    colors_to_wear: { clothing: [], jewelry: [] },
+    colors_to_avoid: [],
+    userImageUrl: null,
+  });
+  return {
+    type: SharedCardType.COLOR_ANALYSIS,
+    source: { colorAnalysisId: analysis.id },
+    title: `I'm a ${paletteLabel}, according to Broadway`,
+    description: palette.description,
+    image,
+  };
+}
+
+/**
+ * Photos served from `/uploads` are read from disk; anything else is fetched by URL.
+ */
+function resolveImage(url: string | null): string | null {
+  return url ? (localUploadPath(url) ?? url) : null;
+}
+
+function createSlug(): string {
+  const bytes = randomBytes(SLUG_LENGTH);
+  return Array.from(bytes, (byte) => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('');
+}
+
+/**
+ * Absolute link and image URLs; link previews ignore relative `og:url` and `og:image`.
+ */
+function shareUrls(slug: string, origin: string): { url: string; imageUrl: string } {
+  return { url: `${origin}/s/${slug}`, imageUrl: `${origin}/s/${slug}/image.png` };
+}
+
+function toShareView(share: SharedCardRecord, origin: string): ShareView {
+  return {
+    ...share,
+    ...shareUrls(share.slug, origin),
+    active: !share.revokedAt && share.expiresAt > new Date(),
+  };
+}
@@ -0,0 +1,236 @@
+import { Prisma, User } from '@prisma/client';
+
+import { prisma } from '../lib/prisma';
+import {
+  SpendCapsUpdate,
+  SpendCapsUpdateSchema,
+  TopSpendersQuery,
+  TopSpendersQuerySchema,
+  UserCostsQuery,
+  UserCostsQuerySchema,
+} from '../types/admin';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { parseRequest } from '../utils/validation';
+
+export type SpendPeriod = 'daily' | 'monthly';
+
+/**
+ * Spend caps in USD, `null` meaning uncapped.
+ */
+export type SpendCaps = {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+};
+
+/**
+ * A user's model spend for the current UTC day and month and since they joined.
+ */
+export type UserSpend = {
+  todayUsd: number;
+  monthUsd: number;
+  totalUsd: number;
+  caps: SpendCaps;
+};
+
+/**
+ * A spend cap the user has reached.
+ */
+export type ExceededSpendCap = {
+  period: SpendPeriod;
+  capUsd: number;
+  spentUsd: number;
+};
+
+export type DailySpendRow = {
+  day: string;
+  runs: number;
+  costUsd: number;
+};
+
+export type UserCostReport = UserSpend & {
+  userId: string;
+  whatsappId: string;
+  from: Date;
+  to: Date;
+  days: DailySpendRow[];
+};
+
+export type TopSpenderRow = {
+  userId: string;
+  whatsappId: string;
+  profileName: string;
+  runs: number;
+  costUsd: number;
+};
+
+type SpendCapUser = Pick<User, 'id' | 'dailySpendCapUsd' | 'monthlySpendCapUsd'>;
+
+/**
+ * Reads a spend cap from the environment. Unset or invalid values leave the period uncapped.
+ */
+function getDefaultCap(name: string): number | null {
+  const raw = process.env[name];
+  if (!raw?.trim()) {
+    return null;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    logger.warn({ name, value: raw }, 'Invalid spend cap, leaving it uncapped');
+    return null;
+  }
+  return value;
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Spend Service
+ * Rolls model costs up per user from `GraphRun.costUsd` (the sum of each run's `LLMTrace`
+ * costs) and enforces daily and monthly spend caps. Caps default to
+ * `USER_DAILY_SPEND_CAP_USD` / `USER_MONTHLY_SPEND_CAP_USD` and can be overridden per user.
+ */
+export class SpendService {
+  /**
+   * Returns the caps that apply to a user: their own overrides, else the environment defaults.
+   */
+  getSpendCaps(user: SpendCapUser): SpendCaps {
+    return {
+      dailyUsd: user.dailySpendCapUsd?.toNumber() ?? getDefaultCap('USER_DAILY_SPEND_CAP_USD'),
+      monthlyUsd:
+        user.monthlySpendCapUsd?.toNumber() ?? getDefaultCap('USER_MONTHLY_SPEND_CAP_USD'),
+    };
+  }
+
+  /**
+   * Sums a user's run costs for the current UTC day, the current UTC month and in total.
+   */
+  async getUserSpend(user: SpendCapUser, now: Date = new Date()): Promise<UserSpend> {
+    const [today, month, total] = await Promise.all([
+      this.sumRunCosts(user.id, startOfUtcDay(now)),
+      this.sumRunCosts(user.id, startOfUtcMonth(now)),
+      this.sumRunCosts(user.id),
+    ]);
+    return { todayUsd: today, monthUsd: month, totalUsd: total, caps: this.getSpendCaps(user) };
+  }
+
+  /**
+   * Returns the first cap the user has reached, daily before monthly, or `null` if they can
+   * keep using paid models. Users without caps are not queried.
+   */
+  async getExceededCap(
+    user: SpendCapUser,
+    now: Date = new Date(),
+  ): Promise<ExceededSpendCap | null> {
+    const caps = this.getSpendCaps(user);
+    const checks: [SpendPeriod, number | null, Date][] = [
+      ['daily', caps.dailyUsd, startOfUtcDay(now)],
+      ['monthly', caps.monthlyUsd, startOfUtcMonth(now)],
+    ];
+
+    for (const [period, capUsd, since] of checks) {
+      if (capUsd === null) {
+        continue;
+      }
+      const spentUsd = await this.sumRunCosts(user.id, since);
+      if (spentUsd >= capUsd) {
+        return { period, capUsd, spentUsd };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns a user's spend with its caps and a per-UTC-day breakdown over the requested range.
+   * @param user - Internal user ID or WhatsApp ID.
+   * @throws {NotFoundError} If the user does not exist.
+   */
+  async getUserCosts(user: string, query: unknown): Promise<UserCostReport> {
+    const { from, to }: UserCostsQuery = parseRequest(UserCostsQuerySchema, query);
+    const found = await this.findUser(user);
+
+    const [spend, days] = await Promise.all([
+      this.getUserSpend(found),
+      prisma.$queryRaw<DailySpendRow[]>`
+        SELECT
+          to_char(date_trunc('day', gr."startTime"), 'YYYY-MM-DD') AS "day",
+          COUNT(*)::int AS "runs",
+          COALESCE(SUM(gr."costUsd"), 0)::float8 AS "costUsd"
+        FROM "public"."GraphRun" gr
+        WHERE gr."userId" = ${found.id} AND gr."startTime" >= ${from} AND gr."startTime" < ${to}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+    ]);
+
+    return { userId: found.id, whatsappId: found.whatsappId, ...spend, from, to, days };
+  }
+
+  /**
+   * Ranks users by the cost of their runs over the requested range.
+   */
+  async getTopSpenders(query: unknown): Promise<{ from: Date; to: Date; rows: TopSpenderRow[] }> {
+    const { from, to, limit }: TopSpendersQuery = parseRequest(TopSpendersQuerySchema, query);
+
+    const rows = await prisma.$queryRaw<TopSpenderRow[]>`
+      SELECT
+        u."id" AS "userId",
+        u."whatsappId" AS "whatsappId",
+        u."profileName" AS "profileName",
+        COUNT(*)::int AS "runs",
+        COALESCE(SUM(gr."costUsd"), 0)::float8 AS "costUsd"
+      FROM "public"."GraphRun" gr
+      JOIN "public"."User" u ON u."id" = gr."userId"
+      WHERE gr."startTime" >= ${from} AND gr."startTime" < ${to}
+      GROUP BY 1, 2, 3
+      ORDER BY "costUsd" DESC
+      LIMIT ${limit}
+    `;
+
+    return { from, to, rows };
+  }
+
+  /**
+   * Sets or clears a user's spend cap overrides.
+   * @param user - Internal user ID or WhatsApp ID.
+   * @throws {NotFoundError} If the user does not exist.
+   */
+  async setSpendCaps(user: string, body: unknown, adminId: string): Promise<SpendCaps> {
+    const { dailyUsd, monthlyUsd }: SpendCapsUpdate = parseRequest(SpendCapsUpdateSchema, body);
+    const found = await this.findUser(user);
+
+    const updated = await prisma.user.update({
+      where: { id: found.id },
+      data: {
+        ...(dailyUsd !== undefined && { dailySpendCapUsd: dailyUsd }),
+        ...(monthlyUsd !== undefined && { monthlySpendCapUsd: monthlyUsd }),
+      },
+    });
+
+    logger.info({ userId: found.id, dailyUsd, monthlyUsd, adminId }, 'Admin updated spend caps');
+    return this.getSpendCaps(updated);
+  }
+
+  private async sumRunCosts(userId: string, since?: Date): Promise<number> {
+    const { _sum } = await prisma.graphRun.aggregate({
+      where: { userId, ...(since && { startTime: { gte: since } }) },
+      _sum: { costUsd: true },
+    });
+    return _sum.costUsd?.toNumber() ?? 0;
+  }
+
+  private async findUser(user: string): Promise<User> {
+    const where: Prisma.UserWhereInput = { OR: [{ id: user }, { whatsappId: user }] };
+    const found = await prisma.user.findFirst({ where });
+    if (!found) {
+      throw new NotFoundError('User not found');
+    }
+    return found;
+  }
+}
@@ -0,0 +1,180 @@
+import { Prisma, Task, TaskStatus, TaskType } from '@prisma/client';
+
+import { prisma } from '../lib/prisma';
+import { requeueTask } from '../lib/tasks';
+import {
+  REQUEUEABLE_TASK_STATUSES,
+  TaskBulkRequeue,
+  TaskBulkRequeueSchema,
+  TaskListQuery,
+  TaskListQuerySchema,
+} from '../types/tasks';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { parseRequest } from '../utils/validation';
+
+/**
+ * An IN_PROGRESS task whose attempt started longer ago than this is assumed lost with its
+ * worker. Shared with `functions/src/lifecycle.ts`, which reclaims such tasks on redelivery.
+ */
+const TASK_STALE_AFTER_MS = Number(process.env.TASK_STALE_AFTER_MS || 30 * 60 * 1000);
+
+/**
+ * Columns shown in task listings. Payloads are only returned when inspecting a single task.
+ */
+const TASK_LIST_SELECT = {
+  id: true,
+  taskId: true,
+  userId: true,
+  type: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  runAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.TaskSelect;
+
+export type TaskListItem = Prisma.TaskGetPayload<{ select: typeof TASK_LIST_SELECT }>;
+
+export type TaskListResult = {
+  tasks: TaskListItem[];
+  nextCursor: string | null;
+};
+
+export type TaskSummary = {
+  type: TaskType;
+  counts: Partial<Record<TaskStatus, number>>;
+}[];
+
+export type TaskBulkRequeueResult = {
+  requeued: string[];
+  failed: { id: string; error: string }[];
+};
+
+/**
+ * Task Service
+ * Backs the admin task console: lists background tasks that failed or were dead-lettered
+ * after exhausting their retries, shows their payloads and last errors, and re-enqueues
+ * them once the underlying problem is fixed. Tasks stuck IN_PROGRESS after a worker crash
+ * can be re-enqueued too once they are stale.
+ */
+export class TaskService {
+  /**
+   * Lists tasks, most recently updated first. Without a status filter only FAILED and
+   * DEAD_LETTER tasks are listed.
+   */
+  async listTasks(query: unknown): Promise<TaskListResult> {
+    const { status, type, userId, limit, cursor }: TaskListQuery = parseRequest(
+      TaskListQuerySchema,
+      query,
+    );
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        status: status ?? { in: [TaskStatus.FAILED, TaskStatus.DEAD_LETTER] },
+        ...(type && { type }),
+        ...(userId && { userId }),
+      },
+      select: TASK_LIST_SELECT,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = tasks.length > limit;
+    const page = hasMore ? tasks.slice(0, limit) : tasks;
+    return { tasks: page, nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null };
+  }
+
+  /**
+   * Counts tasks per type and status, for the console overview.
+   */
+  async getSummary(): Promise<TaskSummary> {
+    const groups = await prisma.task.groupBy({
+      by: ['type', 'status'],
+      _count: { _all: true },
+    });
+
+    const summary = new Map<TaskType, Partial<Record<TaskStatus, number>>>();
+    for (const group of groups) {
+      const counts = summary.get(group.type) ?? {};
+      counts[group.status] = group._count._all;
+      summary.set(group.type, counts);
+    }
+    return [...summary].map(([type, counts]) => ({ type, counts }));
+  }
+
+  /**
+   * Returns a single task including its payload.
+   * @throws {NotFoundError} If the task does not exist.
+   */
+  async getTask(id: string): Promise<Task> {
+    const task = await prisma.task.findUnique({ where: { id } });
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+    return task;
+  }
+
+  /**
+   * Re-enqueues a single task with a fresh attempt budget.
+   * @throws {NotFoundError} If the task does not exist.
+   * @throws {ConflictError} If the task is running or already completed.
+   */
+  async requeueTask(id: string, adminId: string): Promise<Task> {
+    const task = await this.getTask(id);
+    if (!this.isRequeueable(task.status)) {
+      throw new ConflictError(`Task cannot be re-enqueued while ${task.status}`);
+    }
+    if (task.status === TaskStatus.IN_PROGRESS && task.updatedAt >= this.staleCutoff()) {
+      throw new ConflictError('Task is still running and not stale yet');
+    }
+
+    logger.info({ id, type: task.type, status: task.status, adminId }, 'Admin re-enqueued task');
+    return requeueTask(id);
+  }
+
+  /**
+   * Re-enqueues failed tasks in bulk, e.g. every dead-lettered task of one type after a
+   * fix was deployed. Tasks are re-enqueued one at a time so a failing delivery does not
+   * stop the rest. For IN_PROGRESS only stale tasks are picked.
+   */
+  async requeueTasks(body: unknown, adminId: string): Promise<TaskBulkRequeueResult> {
+    const { status, type, limit }: TaskBulkRequeue = parseRequest(TaskBulkRequeueSchema, body);
+    const tasks = await prisma.task.findMany({
+      where: {
+        status,
+        ...(type && { type }),
+        ...(status === TaskStatus.IN_PROGRESS && { updatedAt: { lt: this.staleCutoff() } }),
+      },
+      select: { id: true },
+      orderBy: { updatedAt: 'asc' },
+      take: limit,
+    });
+
+    const result: TaskBulkRequeueResult = { requeued: [], failed: [] };
+    for (const { id } of tasks) {
+      try {
+        await requeueTask(id);
+        result.requeued.push(id);
+      } catch (err: unknown) {
+        result.failed.push({ id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    logger.info(
+      { status, type, adminId, requeued: result.requeued.length, failed: result.failed.length },
+      'Admin re-enqueued tasks in bulk',
+    );
+    return result;
+  }
+
+  private isRequeueable(status: TaskStatus): boolean {
+    return (REQUEUEABLE_TASK_STATUSES as readonly TaskStatus[]).includes(status);
+  }
+
+  private staleCutoff(): Date {
+    return new Date(Date.now() - TASK_STALE_AFTER_MS);
+  }
+}
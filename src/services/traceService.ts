@@ -0,0 +1,295 @@
+import { GraphRun, NodeRun, Prisma } from '@prisma/client';
+
+import { calculateCostUsd } from '../lib/ai/config/costs';
+import { prisma } from '../lib/prisma';
+import {
+  RunSearchQuery,
+  RunSearchQuerySchema,
+  RunTimelineQuery,
+  RunTimelineQuerySchema,
+  UsageStatsQuery,
+  UsageStatsQuerySchema,
+} from '../types/admin';
+import { NotFoundError } from '../utils/errors';
+import { parseRequest } from '../utils/validation';
+
+const RUN_LIST_SELECT = {
+  id: true,
+  userId: true,
+  conversationId: true,
+  status: true,
+  errorTrace: true,
+  startTime: true,
+  endTime: true,
+  durationMs: true,
+  user: { select: { whatsappId: true, profileName: true } },
+  _count: { select: { nodeRuns: true } },
+} satisfies Prisma.GraphRunSelect;
+
+const LLM_TRACE_SELECT = {
+  id: true,
+  model: true,
+  promptTokens: true,
+  completionTokens: true,
+  totalTokens: true,
+  costUsd: true,
+  errorTrace: true,
+  inputMessages: true,
+  outputMessage: true,
+  startTime: true,
+  endTime: true,
+  durationMs: true,
+} satisfies Prisma.LLMTraceSelect;
+
+export type LlmUsage = {
+  llmCalls: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type RunListItem = Omit<
+  Prisma.GraphRunGetPayload<{ select: typeof RUN_LIST_SELECT }>,
+  '_count'
+> &
+  LlmUsage & { nodeCount: number };
+
+export type RunSearchResult = {
+  runs: RunListItem[];
+  nextCursor: string | null;
+};
+
+type LlmTraceView = Omit<
+  Prisma.LLMTraceGetPayload<{ select: typeof LLM_TRACE_SELECT }>,
+  'costUsd'
+> & {
+  costUsd: number | null;
+  rawRequest?: Prisma.JsonValue;
+  rawResponse?: Prisma.JsonValue;
+};
+
+export type RunTimeline = Omit<GraphRun, 'costUsd'> &
+  LlmUsage & {
+    nodes: (NodeRun & { llmTraces: LlmTraceView[] })[];
+  };
+
+export type NodeUsageRow = LlmUsage & {
+  day: string;
+  node: string;
+  runs: number;
+  errors: number;
+  avgDurationMs: number | null;
+  p95DurationMs: number | null;
+};
+
+export type ModelUsageRow = {
+  day: string;
+  model: string;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Calls answered from the LLM response cache */
+  cacheHits: number;
+  /** What the cache hits would have cost at the model's current price */
+  savedCostUsd: number;
+  avgDurationMs: number | null;
+  p95DurationMs: number | null;
+};
+
+export type UsageStats<TRow> = {
+  from: Date;
+  to: Date;
+  rows: TRow[];
+};
+
+/**
+ * Trace Service
+ * Read side of the agent's tracing: every turn is persisted as a `GraphRun` with one
+ * `NodeRun` per executed node and one `LLMTrace` per model call (see `src/agent/tracing.ts`).
+ * Backs the admin dashboard's run search, run timeline and daily cost/latency charts.
+ */
+export class TraceService {
+  /**
+   * Searches runs, newest first, with their node count and LLM usage.
+   */
+  async searchRuns(query: unknown): Promise<RunSearchResult> {
+    const { user, conversationId, status, node, from, to, limit, cursor }: RunSearchQuery =
+      parseRequest(RunSearchQuerySchema, query);
+
+    const runs = await prisma.graphRun.findMany({
+      where: {
+        ...(user && { OR: [{ userId: user }, { user: { whatsappId: user } }] }),
+        ...(conversationId && { conversationId }),
+        ...(status && { status }),
+        ...(node && { nodeRuns: { some: { nodeName: node } } }),
+        ...((from || to) && {
+          startTime: { ...(from && { gte: from }), ...(to && { lt: to }) },
+        }),
+      },
+      select: RUN_LIST_SELECT,
+      orderBy: [{ startTime: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = runs.length > limit;
+    const page = hasMore ? runs.slice(0, limit) : runs;
+    const usage = await this.getRunUsage(page.map((run) => run.id));
+
+    return {
+      runs: page.map(({ _count, ...run }) => ({
+        ...run,
+        nodeCount: _count.nodeRuns,
+        ...(usage.get(run.id) ?? { llmCalls: 0, totalTokens: 0, costUsd: 0 }),
+      })),
+      nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null,
+    };
+  }
+
+  /**
+   * Returns a run with its nodes in execution order and each node's LLM calls, including
+   * the messages sent and received.
+   * @throws {NotFoundError} If the run does not exist.
+   */
+  async getRunTimeline(runId: string, query: unknown): Promise<RunTimeline> {
+    const { raw }: RunTimelineQuery = parseRequest(RunTimelineQuerySchema, query);
+
+    const run = await prisma.graphRun.findUnique({
+      where: { id: runId },
+      include: {
+        nodeRuns: {
+          orderBy: [{ startTime: 'asc' }, { attempt: 'asc' }],
+          include: {
+            llmTraces: {
+              select: { ...LLM_TRACE_SELECT, rawRequest: raw, rawResponse: raw },
+              orderBy: { startTime: 'asc' },
+            },
+          },
+        },
+      },
+    });
+    if (!run) {
+      throw new NotFoundError('Run not found');
+    }
+
+    const { nodeRuns, ...rest } = run;
+    const nodes = nodeRuns.map(({ llmTraces, ...nodeRun }) => ({
+      ...nodeRun,
+      llmTraces: llmTraces.map((trace) => ({
+        ...trace,
+        costUsd: trace.costUsd === null ? null : trace.costUsd.toNumber(),
+      })),
+    }));
+    const traces = nodes.flatMap((node) => node.llmTraces);
+
+    return {
+      ...rest,
+      llmCalls: traces.length,
+      totalTokens: traces.reduce((sum, trace) => sum + (trace.totalTokens ?? 0), 0),
+      costUsd: traces.reduce((sum, trace) => sum + (trace.costUsd ?? 0), 0),
+      nodes,
+    };
+  }
+
+  /**
+   * Aggregates node executions per UTC day and node: run count, errors, latency and the
+   * tokens and cost of the LLM calls made by the node.
+   */
+  async getNodeUsage(query: unknown): Promise<UsageStats<NodeUsageRow>> {
+    const { from, to, node }: UsageStatsQuery = parseRequest(UsageStatsQuerySchema, query);
+
+    const rows = await prisma.$queryRaw<NodeUsageRow[]>`
+      SELECT
+        to_char(date_trunc('day', nr."startTime"), 'YYYY-MM-DD') AS "day",
+        nr."nodeName" AS "node",
+        COUNT(*)::int AS "runs",
+        COUNT(nr."errorTrace")::int AS "errors",
+        AVG(nr."durationMs")::float8 AS "avgDurationMs",
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY nr."durationMs")::float8 AS "p95DurationMs",
+        COALESCE(SUM(llm."calls"), 0)::int AS "llmCalls",
+        COALESCE(SUM(llm."tokens"), 0)::int AS "totalTokens",
+        COALESCE(SUM(llm."cost"), 0)::float8 AS "costUsd"
+      FROM "public"."NodeRun" nr
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*) AS "calls", SUM(lt."totalTokens") AS "tokens", SUM(lt."costUsd") AS "cost"
+        FROM "public"."LLMTrace" lt
+        WHERE lt."nodeRunId" = nr."id"
+      ) llm ON true
+      WHERE nr."startTime" >= ${from} AND nr."startTime" < ${to}
+        ${node ? Prisma.sql`AND nr."nodeName" = ${node}` : Prisma.empty}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `;
+
+    return { from, to, rows };
+  }
+
+  /**
+   * Aggregates LLM calls per UTC day and model: call count, errors, tokens, cost, latency,
+   * and the cache hits with what they saved.
+   */
+  async getModelUsage(query: unknown): Promise<UsageStats<ModelUsageRow>> {
+    const { from, to, model }: UsageStatsQuery = parseRequest(UsageStatsQuerySchema, query);
+
+    const rows = await prisma.$queryRaw<
+      (Omit<ModelUsageRow, 'savedCostUsd'> & {
+        cachedPromptTokens: number;
+        cachedCompletionTokens: number;
+      })[]
+    >`
+      SELECT
+        to_char(date_trunc('day', lt."startTime"), 'YYYY-MM-DD') AS "day",
+        lt."model" AS "model",
+        COUNT(*)::int AS "calls",
+        COUNT(lt."errorTrace")::int AS "errors",
+        COALESCE(SUM(lt."promptTokens"), 0)::int AS "promptTokens",
+        COALESCE(SUM(lt."completionTokens"), 0)::int AS "completionTokens",
+        COALESCE(SUM(lt."totalTokens"), 0)::int AS "totalTokens",
+        COALESCE(SUM(lt."costUsd"), 0)::float8 AS "costUsd",
+        COUNT(*) FILTER (WHERE lt."cacheHit")::int AS "cacheHits",
+        COALESCE(SUM(lt."promptTokens") FILTER (WHERE lt."cacheHit"), 0)::int AS "cachedPromptTokens",
+        COALESCE(SUM(lt."completionTokens") FILTER (WHERE lt."cacheHit"), 0)::int AS "cachedCompletionTokens",
+        AVG(lt."durationMs")::float8 AS "avgDurationMs",
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY lt."durationMs")::float8 AS "p95DurationMs"
+      FROM "public"."LLMTrace" lt
+      WHERE lt."startTime" >= ${from} AND lt."startTime" < ${to}
+        ${model ? Prisma.sql`AND lt."model" = ${model}` : Prisma.empty}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `;
+
+    return {
+      from,
+      to,
+      rows: rows.map(({ cachedPromptTokens, cachedCompletionTokens, ...row }) => ({
+        ...row,
+        savedCostUsd: calculateCostUsd(row.model, cachedPromptTokens, cachedCompletionTokens) ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * Sums the LLM calls, tokens and cost of each run.
+   */
+  private async getRunUsage(runIds: string[]): Promise<Map<string, LlmUsage>> {
+    if (runIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<(LlmUsage & { graphRunId: string })[]>`
+      SELECT
+        nr."graphRunId" AS "graphRunId",
+        COUNT(*)::int AS "llmCalls",
+        COALESCE(SUM(lt."totalTokens"), 0)::int AS "totalTokens",
+        COALESCE(SUM(lt."costUsd"), 0)::float8 AS "costUsd"
+      FROM "public"."LLMTrace" lt
+      JOIN "public"."NodeRun" nr ON nr."id" = lt."nodeRunId"
+      WHERE nr."graphRunId" IN (${Prisma.join(runIds)})
+      GROUP BY 1
+    `;
+
+    return new Map(rows.map(({ graphRunId, ...usage }) => [graphRunId, usage]));
+  }
+}
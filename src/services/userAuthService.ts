@@ -0,0 +1,209 @@
+import { createHash, randomBytes } from 'crypto';
+
+import { User } from '@prisma/client';
+
+import { prisma } from '../lib/prisma';
+import { getTwilioClient } from '../lib/twilio';
+import {
+  AppSessionCreate,
+  AppSessionCreateSchema,
+  LoginLinkRequest,
+  LoginLinkRequestSchema,
+  SessionCreate,
+  SessionCreateSchema,
+} from '../types/auth';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { parseRequest } from '../utils/validation';
+
+const LOGIN_TOKEN_TTL_MINUTES = 15;
+/** Login links sent per user within `LOGIN_TOKEN_TTL_MINUTES`; further requests are dropped. */
+const MAX_LOGIN_LINKS_PER_WINDOW = 3;
+const SESSION_TTL_DAYS = Number(process.env.USER_SESSION_TTL_DAYS || 30);
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * WhatsApp IDs are the sender's phone number in digits. App users chat over HTTP with other
+ * IDs and are signed in by the app instead (see `createAppSession`).
+ */
+const WHATSAPP_ID_PATTERN = /^\d{6,15}$/;
+
+export type UserSessionView = {
+  /** Bearer token for the `/api/users/:userId` endpoints. Only returned once. */
+  sessionToken: string;
+  /** The user's WhatsApp ID, i.e. the `:userId` the session is valid for */
+  userId: string;
+  expiresAt: Date;
+};
+
+/**
+ * User Auth Service
+ * Signs users in to their own data endpoints without passwords. WhatsApp users get a one-time
+ * login token sent to their number, proving they own it, and exchange it for a session token;
+ * app users get their session from the app's backend once the app has signed them in.
+ * Tokens are random and only stored as SHA-256 hashes.
+ */
+export class UserAuthService {
+  /**
+   * Sends a one-time login link to the user over WhatsApp. Unknown users, IDs that are not
+   * WhatsApp numbers and users over the request limit are skipped silently, so the response
+   * does not reveal whether an account exists.
+   */
+  async requestLoginLink(body: unknown): Promise<void> {
+    const { userId: whatsappId }: LoginLinkRequest = parseRequest(LoginLinkRequestSchema, body);
+
+    const user = WHATSAPP_ID_PATTERN.test(whatsappId)
+      ? await prisma.user.findUnique({ where: { whatsappId } })
+      : null;
+    if (!user) {
+      logger.info('Skipped login link for unknown WhatsApp user');
+      return;
+    }
+
+    const windowStart = new Date(Date.now() - LOGIN_TOKEN_TTL_MINUTES * MINUTE_MS);
+    const recentLinks = await prisma.userLoginToken.count({
+      where: { userId: user.id, createdAt: { gte: windowStart } },
+    });
+    if (recentLinks >= MAX_LOGIN_LINKS_PER_WINDOW) {
+      logger.warn({ userId: user.id }, 'Skipped login link, too many requests');
+      return;
+    }
+
+    const token = createToken();
+    await prisma.userLoginToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MINUTES * MINUTE_MS),
+      },
+    });
+
+    await getTwilioClient().sendMessage({
+      to: `whatsapp:+${user.whatsappId}`,
+      body: loginMessage(token),
+    });
+    logger.info({ userId: user.id }, 'Sent login link');
+  }
+
+  /**
+   * Exchanges a login token for a session. Each token works once.
+   *
+   * @throws {UnauthorizedError} If the token is unknown, used or expired.
+   */
+  async createSession(body: unknown): Promise<UserSessionView> {
+    const { token }: SessionCreate = parseRequest(SessionCreateSchema, body);
+    const tokenHash = hashToken(token);
+
+    // Claiming the token and checking it in one update keeps it single-use under concurrency
+    const { count } = await prisma.userLoginToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    const loginToken =
+      count > 0
+        ? await prisma.userLoginToken.findUnique({ where: { tokenHash }, include: { user: true } })
+        : null;
+    if (!loginToken) {
+      throw new UnauthorizedError('Login link is invalid or expired');
+    }
+
+    return this.issueSession(loginToken.user);
+  }
+
+  /**
+   * Issues a session to an app user the app's backend has signed in, creating the user if they
+   * have not chatted yet. Callers must be authenticated as the app (see `requireAppClient`).
+   *
+   * @throws {ForbiddenError} If the ID is a WhatsApp number; those users sign in with a login link.
+   */
+  async createAppSession(body: unknown): Promise<UserSessionView> {
+    const { userId: whatsappId, profileName }: AppSessionCreate = parseRequest(
+      AppSessionCreateSchema,
+      body,
+    );
+    if (WHATSAPP_ID_PATTERN.test(whatsappId)) {
+      throw new ForbiddenError('WhatsApp users sign in with a login link');
+    }
+
+    const user = await prisma.user.upsert({
+      where: { whatsappId },
+      update: {},
+      create: { whatsappId, profileName: profileName ?? '' },
+    });
+    return this.issueSession(user);
+  }
+
+  /**
+   * Returns the user a session token belongs to, or `null` if it is unknown or expired.
+   */
+  async getSessionUser(sessionToken: string): Promise<User | null> {
+    const session = await prisma.userSession.findUnique({
+      where: { tokenHash: hashToken(sessionToken) },
+      include: { user: true },
+    });
+    if (!session || session.expiresAt < new Date()) {
+      return null;
+    }
+    return session.user;
+  }
+
+  /**
+   * Ends a session. Unknown tokens are ignored.
+   */
+  async revokeSession(sessionToken: string): Promise<void> {
+    await prisma.userSession.deleteMany({ where: { tokenHash: hashToken(sessionToken) } });
+  }
+
+  /**
+   * Whether a user ID names an existing WhatsApp user, whose account only a session may reach
+   * over HTTP.
+   */
+  async isWhatsAppUser(userId: string): Promise<boolean> {
+    if (!WHATSAPP_ID_PATTERN.test(userId)) {
+      return false;
+    }
+    const user = await prisma.user.findUnique({
+      where: { whatsappId: userId },
+      select: { id: true },
+    });
+    return user !== null;
+  }
+
+  private async issueSession(user: User): Promise<UserSessionView> {
+    const sessionToken = createToken();
+    const session = await prisma.userSession.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(sessionToken),
+        expiresAt: new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS),
+      },
+    });
+
+    logger.info({ userId: user.id, sessionId: session.id }, 'User signed in');
+    return { sessionToken, userId: user.whatsappId, expiresAt: session.expiresAt };
+  }
+}
+
+function createToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The WhatsApp message carrying a login token: a link to `USER_LOGIN_URL` with the token as
+ * the `token` query parameter, or the bare token when no login page is configured.
+ */
+function loginMessage(token: string): string {
+  const footer = `It works once and expires in ${LOGIN_TOKEN_TTL_MINUTES} minutes. If you did not ask to sign in, ignore this message.`;
+  const loginUrl = process.env.USER_LOGIN_URL;
+  if (!loginUrl) {
+    return `Your Broadway sign-in code:\n${token}\n\n${footer}`;
+  }
+  const url = new URL(loginUrl);
+  url.searchParams.set('token', token);
+  return `Tap to sign in to Broadway: ${url.toString()}\n\n${footer}`;
+}
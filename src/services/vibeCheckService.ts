@@ -0,0 +1,319 @@
+import { Prisma, User } from '@prisma/client';
+
+import { prisma } from '../lib/prisma';
+import {
+  RecommendationAdoption,
+  RecommendationsAdoptedSchema,
+  VibeCheckHistoryQuery,
+  VibeCheckHistoryQuerySchema,
+  VibeCheckProgressQuery,
+  VibeCheckProgressQuerySchema,
+} from '../types/vibeChecks';
+import { NotFoundError } from '../utils/errors';
+import { parseRequest } from '../utils/validation';
+
+/**
+ * The four scored dimensions of a vibe check.
+ */
+export const VIBE_DIMENSIONS = [
+  'fit_silhouette',
+  'color_harmony',
+  'styling_details',
+  'context_confidence',
+] as const;
+
+export type VibeDimension = (typeof VIBE_DIMENSIONS)[number];
+
+/** Score change (out of 10) below which a dimension counts as steady. */
+const TREND_THRESHOLD = 0.5;
+/** Most checks averaged at each end of the range when comparing early and recent scores. */
+const TREND_WINDOW = 3;
+/** Adoption results returned with a progress report. */
+const RECENT_ADOPTIONS = 5;
+
+const VIBE_CHECK_SELECT = {
+  id: true,
+  comment: true,
+  fit_silhouette_score: true,
+  fit_silhouette_explanation: true,
+  color_harmony_score: true,
+  color_harmony_explanation: true,
+  styling_details_score: true,
+  styling_details_explanation: true,
+  context_confidence_score: true,
+  context_confidence_explanation: true,
+  overall_score: true,
+  recommendations: true,
+  recommendationsAdopted: true,
+  imageUrl: true,
+  comparedToId: true,
+  tonality: true,
+  createdAt: true,
+} satisfies Prisma.VibeCheckSelect;
+
+export type VibeCheckView = Prisma.VibeCheckGetPayload<{ select: typeof VIBE_CHECK_SELECT }>;
+
+export type VibeCheckHistoryResult = {
+  vibeChecks: VibeCheckView[];
+  nextCursor: string | null;
+};
+
+type VibeCheckScores = Pick<
+  VibeCheckView,
+  | 'fit_silhouette_score'
+  | 'color_harmony_score'
+  | 'styling_details_score'
+  | 'context_confidence_score'
+  | 'overall_score'
+  | 'recommendationsAdopted'
+  | 'createdAt'
+>;
+
+/** One score on a before/after comparison, out of 10. */
+export type ScoreChange = {
+  before: number;
+  after: number;
+  change: number;
+};
+
+export type VibeCheckComparison = Record<VibeDimension | 'overall', ScoreChange>;
+
+export type ScoreSeriesPoint = {
+  periodStart: string;
+  checks: number;
+  overall: number;
+} & Record<VibeDimension, number>;
+
+export type DimensionTrend = {
+  dimension: VibeDimension | 'overall';
+  /** Average of the earliest checks in the range */
+  baseline: number;
+  /** Average of the latest checks in the range */
+  recent: number;
+  change: number;
+  trend: 'improved' | 'regressed' | 'steady';
+};
+
+export type StyleProgress = {
+  checks: number;
+  firstCheckAt: Date | null;
+  lastCheckAt: Date | null;
+  series: ScoreSeriesPoint[];
+  /** Empty until there are at least two checks to compare */
+  trends: DimensionTrend[];
+  mostImproved: VibeDimension | null;
+  mostRegressed: VibeDimension | null;
+  recommendations: {
+    /** Recommendations judged against a later photo */
+    evaluated: number;
+    adopted: number;
+    adoptionRate: number | null;
+    recent: (RecommendationAdoption & { checkedAt: Date })[];
+  };
+};
+
+/**
+ * Vibe Check Service
+ * Looks back at a user's vibe checks for the "my style progress" feature: their history,
+ * score trends per dimension and whether past recommendations showed up in later photos
+ * (judged by `vibeCheck` when the later photo is scored).
+ */
+export class VibeCheckService {
+  /**
+   * Lists a user's vibe checks, newest first.
+   */
+  async listHistory(whatsappId: string, query: unknown): Promise<VibeCheckHistoryResult> {
+    const user = await this.getUser(whatsappId);
+    const { limit, cursor }: VibeCheckHistoryQuery = parseRequest(
+      VibeCheckHistoryQuerySchema,
+      query,
+    );
+
+    const vibeChecks = await prisma.vibeCheck.findMany({
+      where: { userId: user.id },
+      select: VIBE_CHECK_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = vibeChecks.length > limit;
+    const page = hasMore ? vibeChecks.slice(0, limit) : vibeChecks;
+    return { vibeChecks: page, nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null };
+  }
+
+  /**
+   * Reports how a user's scores moved over a period.
+   */
+  async getProgress(whatsappId: string, query: unknown): Promise<StyleProgress> {
+    const user = await this.getUser(whatsappId);
+    const options: VibeCheckProgressQuery = parseRequest(VibeCheckProgressQuerySchema, query);
+    return loadStyleProgress(user.id, options);
+  }
+
+  private async getUser(whatsappId: string): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { whatsappId } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+}
+
+/**
+ * Loads a user's vibe checks and builds their progress report. Shared by the API and the
+ * `handleStyleProgress` chat node, which works with internal user IDs.
+ */
+export async function loadStyleProgress(
+  userId: string,
+  options: Partial<VibeCheckProgressQuery> = {},
+): Promise<StyleProgress> {
+  const { from, to, bucket = 'week' } = options;
+  const checks = await prisma.vibeCheck.findMany({
+    where: {
+      userId,
+      // Photos that could not be evaluated are scored 0 across the board
+      overall_score: { gt: 0 },
+      ...((from || to) && { createdAt: { ...(from && { gte: from }), ...(to && { lt: to }) } }),
+    },
+    select: {
+      fit_silhouette_score: true,
+      color_harmony_score: true,
+      styling_details_score: true,
+      context_confidence_score: true,
+      overall_score: true,
+      recommendationsAdopted: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return buildStyleProgress(checks, bucket);
+}
+
+/**
+ * Builds a progress report from checks in chronological order.
+ */
+export function buildStyleProgress(
+  checks: VibeCheckScores[],
+  bucket: VibeCheckProgressQuery['bucket'],
+): StyleProgress {
+  const scoreOf = (check: VibeCheckScores, dimension: VibeDimension | 'overall'): number =>
+    dimension === 'overall' ? check.overall_score : check[`${dimension}_score`];
+
+  const periods = new Map<string, VibeCheckScores[]>();
+  for (const check of checks) {
+    const key = periodStart(check.createdAt, bucket);
+    periods.set(key, [...(periods.get(key) ?? []), check]);
+  }
+  const series = [...periods.entries()].map(([start, group]) => ({
+    periodStart: start,
+    checks: group.length,
+    overall: average(group.map((c) => scoreOf(c, 'overall'))),
+    ...(Object.fromEntries(
+      VIBE_DIMENSIONS.map((d) => [d, average(group.map((c) => scoreOf(c, d)))]),
+    ) as Record<VibeDimension, number>),
+  }));
+
+  const trends: DimensionTrend[] = [];
+  if (checks.length >= 2) {
+    const window = Math.min(TREND_WINDOW, Math.floor(checks.length / 2));
+    const early = checks.slice(0, window);
+    const late = checks.slice(-window);
+    for (const dimension of ['overall', ...VIBE_DIMENSIONS] as const) {
+      const baseline = average(early.map((c) => scoreOf(c, dimension)));
+      const recent = average(late.map((c) => scoreOf(c, dimension)));
+      const change = round(recent - baseline);
+      trends.push({
+        dimension,
+        baseline,
+        recent,
+        change,
+        trend:
+          change >= TREND_THRESHOLD
+            ? 'improved'
+            : change <= -TREND_THRESHOLD
+              ? 'regressed'
+              : 'steady',
+      });
+    }
+  }
+
+  const dimensionTrends = trends.filter(
+    (t): t is DimensionTrend & { dimension: VibeDimension } => t.dimension !== 'overall',
+  );
+  const best = dimensionTrends.reduce<(typeof dimensionTrends)[number] | null>(
+    (top, t) => (t.trend === 'improved' && (!top || t.change > top.change) ? t : top),
+    null,
+  );
+  const worst = dimensionTrends.reduce<(typeof dimensionTrends)[number] | null>(
+    (bottom, t) => (t.trend === 'regressed' && (!bottom || t.change < bottom.change) ? t : bottom),
+    null,
+  );
+
+  const adoptions = checks.flatMap((check) => {
+    const parsed = RecommendationsAdoptedSchema.safeParse(check.recommendationsAdopted);
+    return parsed.success
+      ? parsed.data.results.map((result) => ({ ...result, checkedAt: check.createdAt }))
+      : [];
+  });
+  const adopted = adoptions.filter((a) => a.adopted).length;
+
+  return {
+    checks: checks.length,
+    firstCheckAt: checks[0]?.createdAt ?? null,
+    lastCheckAt: checks.at(-1)?.createdAt ?? null,
+    series,
+    trends,
+    mostImproved: best?.dimension ?? null,
+    mostRegressed: worst?.dimension ?? null,
+    recommendations: {
+      evaluated: adoptions.length,
+      adopted,
+      adoptionRate: adoptions.length > 0 ? round(adopted / adoptions.length, 2) : null,
+      recent: adoptions.slice(-RECENT_ADOPTIONS).reverse(),
+    },
+  };
+}
+
+/**
+ * Scores a follow-up check against the check it was compared to, per dimension.
+ */
+export function compareVibeChecks(
+  before: Omit<VibeCheckScores, 'recommendationsAdopted' | 'createdAt'>,
+  after: Omit<VibeCheckScores, 'recommendationsAdopted' | 'createdAt'>,
+): VibeCheckComparison {
+  const scoreChange = (key: `${VibeDimension}_score` | 'overall_score'): ScoreChange => ({
+    before: before[key],
+    after: after[key],
+    change: round(after[key] - before[key]),
+  });
+  return {
+    overall: scoreChange('overall_score'),
+    ...(Object.fromEntries(VIBE_DIMENSIONS.map((d) => [d, scoreChange(`${d}_score`)])) as Record<
+      VibeDimension,
+      ScoreChange
+    >),
+  };
+}
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month containing `date`, as `YYYY-MM-DD`.
+ */
+function periodStart(date: Date, bucket: VibeCheckProgressQuery['bucket']): string {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    start.setUTCDate(1);
+  }
+  return start.toISOString().slice(0, 10);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,216 @@
+import { Prisma, User } from '@prisma/client';
+
+import { prisma } from '../lib/prisma';
+import { queueWardrobeItemEmbedding } from '../lib/tasks';
+import {
+  WardrobeItemCreate,
+  WardrobeItemCreateSchema,
+  WardrobeItemUpdate,
+  WardrobeItemUpdateSchema,
+  WardrobeListQuery,
+  WardrobeListQuerySchema,
+} from '../types/wardrobe';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { processMediaForAI } from '../utils/media';
+import { parseRequest } from '../utils/validation';
+
+/**
+ * Columns returned to clients. The search document, keywords and embedding are internal
+ * to `searchWardrobe`.
+ */
+const WARDROBE_ITEM_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  category: true,
+  type: true,
+  subtype: true,
+  mainColor: true,
+  secondaryColor: true,
+  attributes: true,
+  imageUrl: true,
+  embeddingAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WardrobeItemSelect;
+
+export type WardrobeItemView = Prisma.WardrobeItemGetPayload<{
+  select: typeof WARDROBE_ITEM_SELECT;
+}>;
+
+export type WardrobeListResult = {
+  items: WardrobeItemView[];
+  nextCursor: string | null;
+};
+
+/**
+ * Wardrobe Service
+ * Manages the wardrobe items behind the app's "My Closet" screen. Items are normally created
+ * by the `indexWardrobe` function from photos the user sends; this service lets users add
+ * items manually and fix mis-tagged ones. Every add or edit queues `embedWardrobeItem` to
+ * rebuild the item's search document and embedding, so `searchWardrobe` keeps matching it.
+ */
+export class WardrobeService {
+  /**
+   * Lists a user's wardrobe, newest first, optionally filtered by category, type and color.
+   */
+  async listItems(whatsappId: string, query: unknown): Promise<WardrobeListResult> {
+    const user = await this.getUser(whatsappId);
+    const { category, color, type, limit, cursor }: WardrobeListQuery = parseRequest(
+      WardrobeListQuerySchema,
+      query,
+    );
+
+    const where: Prisma.WardrobeItemWhereInput = {
+      userId: user.id,
+      ...(category && { category }),
+      ...(type && { type: { equals: type, mode: 'insensitive' } }),
+      ...(color && {
+        OR: [
+          { mainColor: { equals: color, mode: 'insensitive' } },
+          { secondaryColor: { equals: color, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const items = await prisma.wardrobeItem.findMany({
+      where,
+      select: WARDROBE_ITEM_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+    return { items: page, nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null };
+  }
+
+  /**
+   * Returns a single wardrobe item.
+   * @throws {NotFoundError} If the item does not exist or belongs to another user.
+   */
+  async getItem(whatsappId: string, itemId: string): Promise<WardrobeItemView> {
+    const user = await this.getUser(whatsappId);
+    return this.findItem(user.id, itemId);
+  }
+
+  /**
+   * Manually adds an item, storing its photo alongside the user's other uploads.
+   */
+  async createItem(whatsappId: string, body: unknown): Promise<WardrobeItemView> {
+    const user = await this.getUser(whatsappId);
+    const input: WardrobeItemCreate = parseRequest(WardrobeItemCreateSchema, body);
+
+    const imageUrl = input.image ? await this.storeImage(user, input.image) : null;
+    const searchDoc = [input.mainColor, input.secondaryColor, input.subtype, input.type]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+
+    const item = await prisma.wardrobeItem.create({
+      data: {
+        userId: user.id,
+        name: input.name,
+        description: input.description ?? '',
+        category: input.category,
+        type: input.type,
+        subtype: input.subtype ?? null,
+        mainColor: input.mainColor,
+        secondaryColor: input.secondaryColor ?? null,
+        attributes: input.attributes ?? {},
+        imageUrl,
+        // Placeholder until embedWardrobeItem builds the full search document
+        searchDoc,
+        keywords: [],
+      },
+      select: WARDROBE_ITEM_SELECT,
+    });
+
+    logger.info({ userId: user.id, itemId: item.id }, 'Wardrobe item added');
+    queueWardrobeItemEmbedding(user.id, item.id);
+    return item;
+  }
+
+  /**
+   * Edits an item's attributes and queues re-embedding when anything searchable changed.
+   * @throws {NotFoundError} If the item does not exist or belongs to another user.
+   */
+  async updateItem(whatsappId: string, itemId: string, body: unknown): Promise<WardrobeItemView> {
+    const user = await this.getUser(whatsappId);
+    const { image, ...changes }: WardrobeItemUpdate = parseRequest(WardrobeItemUpdateSchema, body);
+    await this.findItem(user.id, itemId);
+
+    const data: Prisma.WardrobeItemUpdateInput = {
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.description !== undefined && { description: changes.description }),
+      ...(changes.category !== undefined && { category: changes.category }),
+      ...(changes.type !== undefined && { type: changes.type }),
+      ...(changes.subtype !== undefined && { subtype: changes.subtype }),
+      ...(changes.mainColor !== undefined && { mainColor: changes.mainColor }),
+      ...(changes.secondaryColor !== undefined && { secondaryColor: changes.secondaryColor }),
+      ...(changes.attributes !== undefined && { attributes: changes.attributes }),
+      ...(image && { imageUrl: await this.storeImage(user, image) }),
+    };
+
+    const item = await prisma.wardrobeItem.update({
+      where: { id: itemId },
+      data,
+      select: WARDROBE_ITEM_SELECT,
+    });
+
+    const searchableChanged = Object.keys(changes).length > 0;
+    logger.info({ userId: user.id, itemId, searchableChanged }, 'Wardrobe item updated');
+    if (searchableChanged) {
+      queueWardrobeItemEmbedding(user.id, item.id);
+    }
+    return item;
+  }
+
+  /**
+   * Removes an item from the wardrobe.
+   * @throws {NotFoundError} If the item does not exist or belongs to another user.
+   */
+  async deleteItem(whatsappId: string, itemId: string): Promise<void> {
+    const user = await this.getUser(whatsappId);
+    const { count } = await prisma.wardrobeItem.deleteMany({
+      where: { id: itemId, userId: user.id },
+    });
+    if (count === 0) {
+      throw new NotFoundError('Wardrobe item not found');
+    }
+    logger.info({ userId: user.id, itemId }, 'Wardrobe item deleted');
+  }
+
+  private async getUser(whatsappId: string): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { whatsappId } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async findItem(userId: string, itemId: string): Promise<WardrobeItemView> {
+    const item = await prisma.wardrobeItem.findFirst({
+      where: { id: itemId, userId },
+      select: WARDROBE_ITEM_SELECT,
+    });
+    if (!item) {
+      throw new NotFoundError('Wardrobe item not found');
+    }
+    return item;
+  }
+
+  private async storeImage(
+    user: User,
+    image: NonNullable<WardrobeItemCreate['image']>,
+  ): Promise<string> {
+    const { serverUrl } = await processMediaForAI(
+      image.url,
+      user.whatsappId,
+      image.contentType ?? 'image/jpeg',
+    );
+    return serverUrl;
+  }
+}
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Body for deleting an account. The explicit confirmation guards against accidental calls,
+ * since deletion cannot be undone.
+ */
+export const AccountDeletionSchema = z.object({
+  confirm: z.literal(true).describe('Must be `true` to delete the account and all its data'),
+});
+
+export type AccountDeletion = z.infer<typeof AccountDeletionSchema>;
@@ -0,0 +1,80 @@
+import { GraphRunStatus } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Query parameters for searching graph runs in the admin dashboard.
+ */
+export const RunSearchQuerySchema = z.object({
+  user: z.string().trim().min(1).optional().describe('Internal user ID or WhatsApp ID'),
+  conversationId: z.string().optional(),
+  status: z.enum(GraphRunStatus).optional(),
+  node: z.string().trim().min(1).optional().describe('Only runs that executed this node'),
+  from: z.coerce.date().optional().describe('Runs started at or after this time'),
+  to: z.coerce.date().optional().describe('Runs started before this time'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional().describe('Run ID to continue after (from `nextCursor`)'),
+});
+
+/**
+ * Query parameters for a run's node timeline.
+ */
+export const RunTimelineQuerySchema = z.object({
+  raw: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true')
+    .describe('Include the raw provider request and response of each LLM call'),
+});
+
+/**
+ * Query parameters for daily cost and latency aggregates. Defaults to the last 30 days.
+ */
+export const UsageStatsQuerySchema = z
+  .object({
+    from: z.coerce.date().default(() => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    to: z.coerce.date().default(() => new Date()),
+    node: z.string().trim().min(1).optional(),
+    model: z.string().trim().min(1).optional(),
+  })
+  .refine((query) => query.from < query.to, '`from` must be before `to`');
+
+/**
+ * Query parameters for a user's spend report. Defaults to the last 30 days.
+ */
+export const UserCostsQuerySchema = z
+  .object({
+    from: z.coerce.date().default(() => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    to: z.coerce.date().default(() => new Date()),
+  })
+  .refine((query) => query.from < query.to, '`from` must be before `to`');
+
+/**
+ * Query parameters for ranking users by spend. Defaults to the last 30 days.
+ */
+export const TopSpendersQuerySchema = z
+  .object({
+    from: z.coerce.date().default(() => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+    to: z.coerce.date().default(() => new Date()),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((query) => query.from < query.to, '`from` must be before `to`');
+
+/**
+ * Per-user spend caps in USD. `null` clears the override so the environment default applies.
+ */
+export const SpendCapsUpdateSchema = z
+  .object({
+    dailyUsd: z.number().min(0).nullable().optional(),
+    monthlyUsd: z.number().min(0).nullable().optional(),
+  })
+  .refine(
+    (caps) => caps.dailyUsd !== undefined || caps.monthlyUsd !== undefined,
+    'Provide `dailyUsd` and/or `monthlyUsd`',
+  );
+
+export type RunSearchQuery = z.infer<typeof RunSearchQuerySchema>;
+export type RunTimelineQuery = z.infer<typeof RunTimelineQuerySchema>;
+export type UsageStatsQuery = z.infer<typeof UsageStatsQuerySchema>;
+export type UserCostsQuery = z.infer<typeof UserCostsQuerySchema>;
+export type TopSpendersQuery = z.infer<typeof TopSpendersQuerySchema>;
+export type SpendCapsUpdate = z.infer<typeof SpendCapsUpdateSchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Body for requesting a login link over WhatsApp.
+ */
+export const LoginLinkRequestSchema = z.object({
+  userId: z.string().trim().min(1).describe('The WhatsApp ID the login link is sent to'),
+});
+
+/**
+ * Body for exchanging a login token for a session.
+ */
+export const SessionCreateSchema = z.object({
+  token: z.string().trim().min(1).describe('The one-time token from the login link'),
+});
+
+/**
+ * Body for the app's backend issuing a session to one of its signed-in users.
+ */
+export const AppSessionCreateSchema = z.object({
+  userId: z.string().trim().min(1).max(128).describe('The app user ID the chat API is called with'),
+  profileName: z.string().trim().max(100).optional().describe('Display name for new users'),
+});
+
+export type LoginLinkRequest = z.infer<typeof LoginLinkRequestSchema>;
+export type SessionCreate = z.infer<typeof SessionCreateSchema>;
+export type AppSessionCreate = z.infer<typeof AppSessionCreateSchema>;
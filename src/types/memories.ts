@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+/**
+ * Query parameters for listing a user's memories.
+ */
+export const MemoryListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional().describe('Memory ID to continue after (from `nextCursor`)'),
+});
+
+/**
+ * Body for correcting a memory. The text is re-embedded so retrieval matches the new wording.
+ */
+export const MemoryUpdateSchema = z.object({
+  memory: z.string().trim().min(1).max(500).describe('The corrected memory, e.g. "Loves yellow"'),
+});
+
+export type MemoryListQuery = z.infer<typeof MemoryListQuerySchema>;
+export type MemoryUpdate = z.infer<typeof MemoryUpdateSchema>;
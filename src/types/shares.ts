@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Body for sharing a vibe check or color analysis as a public link.
+ */
+export const ShareCreateSchema = z.object({
+  type: z.enum(['vibe_check', 'color_analysis']),
+  resultId: z.string().min(1).describe('ID of the vibe check or color analysis to share'),
+  expiresInDays: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(30)
+    .default(7)
+    .describe('Days until the link stops working'),
+});
+
+/**
+ * Query parameters for listing a user's share links.
+ */
+export const ShareListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional().describe('Share ID to continue after (from `nextCursor`)'),
+});
+
+export type ShareCreate = z.infer<typeof ShareCreateSchema>;
+export type ShareListQuery = z.infer<typeof ShareListQuerySchema>;
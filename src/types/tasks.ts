@@ -0,0 +1,39 @@
+import { TaskStatus, TaskType } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Statuses an admin can re-enqueue a task from. QUEUED covers tasks whose delivery was lost;
+ * IN_PROGRESS tasks only qualify once their attempt is stale (see `TASK_STALE_AFTER_MS`).
+ */
+export const REQUEUEABLE_TASK_STATUSES = [
+  TaskStatus.QUEUED,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.FAILED,
+  TaskStatus.DEAD_LETTER,
+] as const;
+
+/**
+ * Query parameters for listing tasks in the admin task console.
+ */
+export const TaskListQuerySchema = z.object({
+  status: z
+    .enum(TaskStatus)
+    .optional()
+    .describe('Filter by status; defaults to FAILED and DEAD_LETTER tasks'),
+  type: z.enum(TaskType).optional().describe('Filter by task type'),
+  userId: z.string().optional().describe('Filter by internal user ID'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional().describe('Task ID to continue after (from `nextCursor`)'),
+});
+
+/**
+ * Body for re-enqueueing failed tasks in bulk.
+ */
+export const TaskBulkRequeueSchema = z.object({
+  status: z.enum(REQUEUEABLE_TASK_STATUSES).default(TaskStatus.DEAD_LETTER),
+  type: z.enum(TaskType).optional().describe('Only re-enqueue tasks of this type'),
+  limit: z.number().int().min(1).max(500).default(100),
+});
+
+export type TaskListQuery = z.infer<typeof TaskListQuerySchema>;
+export type TaskBulkRequeue = z.infer<typeof TaskBulkRequeueSchema>;
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Whether one recommendation from a previous vibe check shows up in a later photo.
+ */
+export const RecommendationAdoptionSchema = z.object({
+  recommendation: z.string(),
+  adopted: z.boolean(),
+  note: z.string().describe('What the photo shows, in a few words.'),
+});
+
+/**
+ * Stored in `VibeCheck.recommendationsAdopted`: the previous check's recommendations as
+ * judged against this check's photo.
+ */
+export const RecommendationsAdoptedSchema = z.object({
+  previousVibeCheckId: z.string(),
+  results: z.array(RecommendationAdoptionSchema),
+});
+
+/**
+ * Query parameters for listing a user's vibe checks.
+ */
+export const VibeCheckHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional().describe('Vibe check ID to continue after (from `nextCursor`)'),
+});
+
+/**
+ * Query parameters for a user's style progress report. Defaults to all of their checks.
+ */
+export const VibeCheckProgressQuerySchema = z
+  .object({
+    from: z.coerce.date().optional().describe('Checks at or after this time'),
+    to: z.coerce.date().optional().describe('Checks before this time'),
+    bucket: z
+      .enum(['day', 'week', 'month'])
+      .default('week')
+      .describe('Period the score trend is averaged over'),
+  })
+  .refine(
+    (query) => !query.from || !query.to || query.from < query.to,
+    '`from` must be before `to`',
+  );
+
+export type RecommendationAdoption = z.infer<typeof RecommendationAdoptionSchema>;
+export type RecommendationsAdopted = z.infer<typeof RecommendationsAdoptedSchema>;
+export type VibeCheckHistoryQuery = z.infer<typeof VibeCheckHistoryQuerySchema>;
+export type VibeCheckProgressQuery = z.infer<typeof VibeCheckProgressQuerySchema>;
@@ -0,0 +1,62 @@
+import { WardrobeItemCategory } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Free-form attributes of a wardrobe item, as extracted by the `indexWardrobe` function.
+ * They feed the item's search document and keywords.
+ */
+export const WardrobeItemAttributesSchema = z.object({
+  style: z.string().optional(),
+  pattern: z.string().optional(),
+  material: z.string().optional(),
+  fit: z.string().nullable().optional(),
+  length: z.string().nullable().optional(),
+  details: z.string().optional(),
+  occasion: z.string().optional(),
+  season: z.string().optional(),
+});
+
+/**
+ * Query parameters for listing a user's wardrobe.
+ */
+export const WardrobeListQuerySchema = z.object({
+  category: z.enum(WardrobeItemCategory).optional().describe('Filter by clothing category'),
+  color: z.string().trim().min(1).optional().describe('Matches main or secondary color'),
+  type: z.string().trim().min(1).optional().describe("Filter by item type (e.g. 'jeans')"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional().describe('Item ID to continue after (from `nextCursor`)'),
+});
+
+/**
+ * Body for manually adding an item to a wardrobe.
+ */
+export const WardrobeItemCreateSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().optional(),
+  category: z.enum(WardrobeItemCategory),
+  type: z.string().trim().min(1),
+  subtype: z.string().trim().min(1).nullable().optional(),
+  mainColor: z.string().trim().min(1),
+  secondaryColor: z.string().trim().min(1).nullable().optional(),
+  attributes: WardrobeItemAttributesSchema.optional(),
+  image: z
+    .object({
+      url: z.string().min(1).describe('Remote URL or data URL of the photo'),
+      contentType: z.string().optional(),
+    })
+    .optional()
+    .describe('Photo of the item'),
+});
+
+/**
+ * Body for editing a wardrobe item. Only the provided fields change; `attributes` replaces
+ * the stored attributes as a whole.
+ */
+export const WardrobeItemUpdateSchema = WardrobeItemCreateSchema.partial().refine(
+  (body) => Object.keys(body).length > 0,
+  'At least one field is required',
+);
+
+export type WardrobeListQuery = z.infer<typeof WardrobeListQuerySchema>;
+export type WardrobeItemCreate = z.infer<typeof WardrobeItemCreateSchema>;
+export type WardrobeItemUpdate = z.infer<typeof WardrobeItemUpdateSchema>;
@@ -0,0 +1,67 @@
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+
+const BLOCK_SIZE = 512;
+
+/**
+ * A file to add to an archive.
+ */
+export interface ArchiveEntry {
+  /** Path inside the archive, e.g. `images/abc.jpg` (at most 100 characters) */
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Writes `value` as a NUL-terminated octal number filling `length` bytes of `header`.
+ */
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+/**
+ * Builds the 512-byte ustar header of a regular file.
+ */
+function tarHeader(entry: ArchiveEntry, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(entry.name, 0, 100, 'utf-8');
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, entry.data.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.write('        ', 148, 8, 'ascii'); // checksum is computed with spaces here
+  header.write('0', 156, 1, 'ascii'); // regular file
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Packs files into a gzipped tar archive (`.tar.gz`), which every desktop OS can open.
+ *
+ * @param entries - Files to include, in order
+ * @returns The compressed archive
+ */
+export async function createTarGz(entries: ArchiveEntry[]): Promise<Buffer> {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) > 100) {
+      throw new Error(`Archive entry name too long: ${entry.name}`);
+    }
+    blocks.push(tarHeader(entry, mtime), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipAsync(Buffer.concat(blocks));
+}
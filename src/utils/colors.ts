@@ -0,0 +1,146 @@
+/**
+ * Color utilities: resolving color names to hex codes and comparing colors.
+ */
+
+import colornames from 'colornames';
+
+/**
+ * Converts a color name to hex code using colornames library with fallback logic
+ */
+export function colorNameToHex(colorName: string): string {
+  const normalized = colorName.toLowerCase().trim();
+
+  // Try direct lookup first
+  const directMatch = colornames(normalized);
+  if (directMatch) return directMatch;
+
+  // Try with common variations
+  const variations = [
+    normalized.replace(/\s+/g, ''), // Remove spaces: "olive green" -> "olivegreen"
+    normalized.replace(/\s+/g, '-'), // Replace spaces with hyphens: "olive green" -> "olive-green"
+    normalized.replace(/\b(pastel|deep|light|dark|bright|soft|warm|cool|icy|muted)\b/g, '').trim(), // Remove descriptors
+  ];
+
+  for (const variant of variations) {
+    if (variant && variant !== normalized) {
+      const match = colornames(variant);
+      if (match) return match;
+    }
+  }
+
+  // Try partial matching - check if any color name contains the input or vice versa
+  const allColors = colornames.all();
+  for (const colorEntry of allColors) {
+    const colorNameLower = colorEntry.name.toLowerCase();
+    // Check if the input contains the color name or the color name contains the input
+    if (normalized.includes(colorNameLower) || colorNameLower.includes(normalized)) {
+      // Use the value property from the entry
+      if (colorEntry.value) return colorEntry.value;
+    }
+  }
+
+  // Try splitting compound names (e.g., "Olive Green" -> try "olive" and "green")
+  const words = normalized.split(/\s+/);
+  for (const word of words) {
+    if (word.length > 2) {
+      // Skip very short words
+      const match = colornames(word);
+      if (match) return match;
+    }
+  }
+
+  // Fallback to gray if no match found
+  return '#808080';
+}
+
+/**
+ * Color names that pair with anything and are scored as neutrals rather than by hue.
+ */
+const NEUTRAL_COLORS = [
+  'black',
+  'white',
+  'ivory',
+  'cream',
+  'off-white',
+  'grey',
+  'gray',
+  'charcoal',
+  'silver',
+  'beige',
+  'tan',
+  'camel',
+  'khaki',
+  'taupe',
+  'brown',
+  'navy',
+  'denim',
+  'nude',
+];
+
+/**
+ * Whether a color name is a wardrobe neutral (e.g. "charcoal grey", "light denim").
+ */
+export function isNeutralColor(colorName: string): boolean {
+  const normalized = colorName.toLowerCase();
+  return NEUTRAL_COLORS.some((neutral) => normalized.includes(neutral));
+}
+
+/**
+ * Parses `#RRGGBB` (or `#RGB`) into RGB channels.
+ */
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  let value = hex.replace('#', '').trim();
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  const num = Number.parseInt(value.slice(0, 6), 16) || 0;
+  return { r: (num >> 16) & 255, g: (num >> 8) & 255, b: num & 255 };
+}
+
+/**
+ * Converts a hex color to HSL with hue in degrees and saturation/lightness in 0–1.
+ */
+export function hexToHsl(hex: string): { h: number; s: number; l: number } {
+  const { r, g, b } = hexToRgb(hex);
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) h = ((gn - bn) / d) % 6;
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+/**
+ * Perceptual distance between two hex colors using the "redmean" approximation,
+ * normalized to 0 (identical) – 1 (black vs white).
+ */
+export function colorDistance(hexA: string, hexB: string): number {
+  const a = hexToRgb(hexA);
+  const b = hexToRgb(hexB);
+  const rMean = (a.r + b.r) / 2;
+  const dr = a.r - b.r;
+  const dg = a.g - b.g;
+  const db = a.b - b.b;
+  const distance = Math.sqrt(
+    (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db,
+  );
+  return Math.min(1, distance / 765);
+}
+
+/**
+ * Smallest angle between two hues in degrees (0–180).
+ */
+export function hueDifference(hueA: number, hueB: number): number {
+  const diff = Math.abs(hueA - hueB) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
@@ -50,6 +50,13 @@ export class NotFoundError extends HttpError {
   }
 }
 
+export class ConflictError extends HttpError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 409, options);
+    this.name = 'ConflictError';
+  }
+}
+
 export class TooManyRequestsError extends HttpError {
   constructor(message: string, options?: { cause?: unknown }) {
     super(message, 429, options);
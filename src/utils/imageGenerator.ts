@@ -1,8 +1,8 @@
 import { createCanvas, loadImage, registerFont, CanvasRenderingContext2D } from 'canvas';
 import fs from 'fs/promises';
 import path from 'path';
-import colornames from 'colornames';
 
+import { colorNameToHex } from './colors';
 import { InternalServerError } from './errors';
 import { logger } from './logger';
 import { ensureDir, userUploadDir } from './paths';
@@ -30,67 +30,36 @@ function setFont(ctx: CanvasRenderingContext2D, size: number, weight: 'normal' |
 }
 
 /**
- * Converts a color name to hex code using colornames library with fallback logic
+ * Saves a rendered card to the user's uploads directory.
+ *
+ * @returns The card's URL, relative to the server unless `SERVER_URL` is public
  */
-function colorNameToHex(colorName: string): string {
-  const normalized = colorName.toLowerCase().trim();
-  
-  // Try direct lookup first
-  const directMatch = colornames(normalized);
-  if (directMatch) return directMatch;
-  
-  // Try with common variations
-  const variations = [
-    normalized.replace(/\s+/g, ''), // Remove spaces: "olive green" -> "olivegreen"
-    normalized.replace(/\s+/g, '-'), // Replace spaces with hyphens: "olive green" -> "olive-green"
-    normalized.replace(/\b(pastel|deep|light|dark|bright|soft|warm|cool|icy|muted)\b/g, '').trim(), // Remove descriptors
-  ];
-  
-  for (const variant of variations) {
-    if (variant && variant !== normalized) {
-      const match = colornames(variant);
-      if (match) return match;
-    }
-  }
-  
-  // Try partial matching - check if any color name contains the input or vice versa
-  const allColors = colornames.all();
-  for (const colorEntry of allColors) {
-    const colorNameLower = colorEntry.name.toLowerCase();
-    // Check if the input contains the color name or the color name contains the input
-    if (normalized.includes(colorNameLower) || colorNameLower.includes(normalized)) {
-      // Use the value property from the entry
-      if (colorEntry.value) return colorEntry.value;
-    }
-  }
-  
-  // Try splitting compound names (e.g., "Olive Green" -> try "olive" and "green")
-  const words = normalized.split(/\s+/);
-  for (const word of words) {
-    if (word.length > 2) { // Skip very short words
-      const match = colornames(word);
-      if (match) return match;
-    }
-  }
-  
-  // Fallback to gray if no match found
-  return '#808080';
+async function saveCardImage(whatsappId: string, prefix: string, png: Buffer): Promise<string> {
+  const userDir = userUploadDir(whatsappId);
+  await ensureDir(userDir);
+  const filename = `${prefix}_${Date.now()}.png`;
+  await fs.writeFile(path.join(userDir, filename), png);
+
+  const sanitizedId = whatsappId.replace(/[^a-zA-Z0-9_+]/g, '_');
+  const relativePath = `/uploads/${sanitizedId}/${filename}`;
+  const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
+
+  return serverUrl && !serverUrl.includes('localhost')
+    ? `${serverUrl}${relativePath}`
+    : relativePath;
 }
 
 /**
  * Generates a color analysis image with user photo inside the black circle,
  * seasonal palette name in the purple banner (tilted), and swatches (straight).
  */
-export async function generateColorAnalysisImage(
-  whatsappId: string,
-  data: {
-    palette_name: string | null;
-    colors_suited: Array<{ name: string; hex: string }>;
-    colors_to_wear: { clothing: string[]; jewelry: string[] };
-    colors_to_avoid: Array<{ name: string; hex: string }>;
-    userImageUrl?: string | null;
-  },
-): Promise<string> {
+export async function renderColorAnalysisCard(data: {
+  palette_name: string | null;
+  colors_suited: Array<{ name: string; hex: string }>;
+  colors_to_wear: { clothing: string[]; jewelry: string[] };
+  colors_to_avoid: Array<{ name: string; hex: string }>;
+  userImageUrl?: string | null;
+}): Promise<Buffer> {
   // Load base template
   const baseTemplatePath = path.join(process.cwd(), 'templates', 'Color_Analysis.svg');
   const baseTemplateBuffer = await fs.readFile(baseTemplatePath);
@@ -237,38 +206,31 @@ export async function generateColorAnalysisImage(
     ctx.restore();
   }
 
-
-
-  // 5. Save and Return
-  const userDir = userUploadDir(whatsappId);
-  await ensureDir(userDir);
-  const filename = `color_analysis_${Date.now()}.png`;
-  const filepath = path.join(userDir, filename);
-  
-  await fs.writeFile(filepath, canvas.toBuffer('image/png'));
-
-  const sanitizedId = whatsappId.replace(/[^a-zA-Z0-9_+]/g, '_');
-  const relativePath = `/uploads/${sanitizedId}/${filename}`;
-  const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
-  
-  return (serverUrl && !serverUrl.includes('localhost')) ? `${serverUrl}${relativePath}` : relativePath;
+  return canvas.toBuffer('image/png');
 }
 
 /**
- * Vibe Check Image Generation
+ * Renders a color analysis card and saves it to the user's uploads.
  */
-export async function generateVibeCheckImage(
+export async function generateColorAnalysisImage(
   whatsappId: string,
-  data: {
-    overall_score: number;
-    fit_silhouette: { score: number; explanation: string };
-    color_harmony: { score: number; explanation: string };
-    styling_details: { score: number; explanation: string };
-    context_confidence: { score: number; explanation: string };
-    userImageUrl?: string | null;
-    comment?: string;
-  },
+  data: Parameters<typeof renderColorAnalysisCard>[0],
 ): Promise<string> {
+  return saveCardImage(whatsappId, 'color_analysis', await renderColorAnalysisCard(data));
+}
+
+/**
+ * Vibe Check Image Generation
+ */
+export async function renderVibeCheckCard(data: {
+  overall_score: number;
+  fit_silhouette: { score: number; explanation: string };
+  color_harmony: { score: number; explanation: string };
+  styling_details: { score: number; explanation: string };
+  context_confidence: { score: number; explanation: string };
+  userImageUrl?: string | null;
+  comment?: string;
+}): Promise<Buffer> {
   // Load base template
   const baseTemplatePath = path.join(process.cwd(), 'templates', 'Vibe_check.svg');
   const baseTemplateBuffer = await fs.readFile(baseTemplatePath);
@@ -412,15 +374,164 @@ ctx.restore();
   ctx.fillText(`${data.overall_score.toFixed(1)}/10`, 0, 15 * scale); // Move 15px down total
   ctx.restore();
   
-  const userDir = userUploadDir(whatsappId);
-  await ensureDir(userDir);
-  const filename = `vibe_check_${Date.now()}.png`;
-  const filepath = path.join(userDir, filename);
-  await fs.writeFile(filepath, canvas.toBuffer('image/png'));
+  return canvas.toBuffer('image/png');
+}
 
-  const sanitizedId = whatsappId.replace(/[^a-zA-Z0-9_+]/g, '_');
-  const relativePath = `/uploads/${sanitizedId}/${filename}`;
-  const serverUrl = process.env.SERVER_URL?.replace(/\/$/, '');
+/**
+ * Renders a vibe check card and saves it to the user's uploads.
+ */
+export async function generateVibeCheckImage(
+  whatsappId: string,
+  data: Parameters<typeof renderVibeCheckCard>[0],
+): Promise<string> {
+  return saveCardImage(whatsappId, 'vibe_check', await renderVibeCheckCard(data));
+}
+
+type ScoreChange = { before: number; after: number; change: number };
+
+const IMPROVED_COLOR = '#7ed957';
+const REGRESSED_COLOR = '#ff6b6b';
+const STEADY_COLOR = '#bdbdbd';
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change.toFixed(1)}` : change.toFixed(1);
+}
+
+function changeColor(change: number): string {
+  return change > 0 ? IMPROVED_COLOR : change < 0 ? REGRESSED_COLOR : STEADY_COLOR;
+}
+
+/**
+ * Before/After Vibe Check Image Generation
+ * Places the earlier and the follow-up photo side by side with both overall scores, then
+ * lists each dimension's score change.
+ */
+export async function renderVibeCheckComparisonCard(data: {
+  overall: ScoreChange;
+  fit_silhouette: ScoreChange;
+  color_harmony: ScoreChange;
+  styling_details: ScoreChange;
+  context_confidence: ScoreChange;
+  beforeImageUrl?: string | null;
+  afterImageUrl?: string | null;
+}): Promise<Buffer> {
+  const scale = 2;
+  const width = 293 * scale;
+  const height = 356 * scale;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+
+  // 1. Card background, matching the vibe check card
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.roundRect(3 * scale, 0, 286 * scale, height, 8 * scale);
+  ctx.fill();
+
+  // 2. Photos side by side, each fitted into its frame
+  const frameY = 10 * scale;
+  const frameWidth = 134 * scale;
+  const frameHeight = 170 * scale;
+  const frames = [
+    { label: 'BEFORE', x: 10 * scale, url: data.beforeImageUrl, score: data.overall.before },
+    { label: 'AFTER', x: 149 * scale, url: data.afterImageUrl, score: data.overall.after },
+  ];
 
-  return (serverUrl && !serverUrl.includes('localhost')) ? `${serverUrl}${relativePath}` : relativePath;
+  for (const frame of frames) {
+    ctx.fillStyle = '#1c1c1c';
+    ctx.fillRect(frame.x, frameY, frameWidth, frameHeight);
+
+    if (frame.url) {
+      try {
+        const img = await loadImage(frame.url);
+        const aspect = img.width / img.height;
+        const drawW = aspect > frameWidth / frameHeight ? frameWidth : frameHeight * aspect;
+        const drawH = aspect > frameWidth / frameHeight ? frameWidth / aspect : frameHeight;
+        ctx.drawImage(
+          img,
+          frame.x + (frameWidth - drawW) / 2,
+          frameY + (frameHeight - drawH) / 2,
+          drawW,
+          drawH,
+        );
+      } catch (err) {
+        logger.warn(
+          { err: (err as Error)?.message, label: frame.label },
+          'Failed to load user image',
+        );
+      }
+    }
+
+    // Label pill in the top left corner of the photo
+    setFont(ctx, 8, 'bold', scale);
+    const labelWidth = ctx.measureText(frame.label).width + 12 * scale;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.beginPath();
+    ctx.roundRect(frame.x + 6 * scale, frameY + 6 * scale, labelWidth, 14 * scale, 7 * scale);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(frame.label, frame.x + 12 * scale, frameY + 13 * scale);
+
+    // Overall score under the photo
+    setFont(ctx, 16, 'bold', scale);
+    ctx.fillStyle = frame.label === 'AFTER' ? '#ffffff' : STEADY_COLOR;
+    ctx.textAlign = 'center';
+    ctx.fillText(`${frame.score.toFixed(1)}/10`, frame.x + frameWidth / 2, 198 * scale);
+  }
+
+  // 3. Overall change between the two scores
+  setFont(ctx, 11, 'bold', scale);
+  ctx.fillStyle = changeColor(data.overall.change);
+  ctx.textAlign = 'center';
+  ctx.fillText(formatChange(data.overall.change), width / 2, 198 * scale);
+
+  // 4. Per-dimension rows: label, before → after and the change
+  const rows = [
+    { label: 'Fit & Silhouette', color: '#eb92aa', score: data.fit_silhouette },
+    { label: 'Styling Details', color: '#75cfe7', score: data.styling_details },
+    { label: 'Color Harmony', color: '#a57bc4', score: data.color_harmony },
+    { label: 'Context & Confidence', color: '#f3c969', score: data.context_confidence },
+  ];
+
+  rows.forEach((row, i) => {
+    const rowY = (232 + i * 31) * scale;
+
+    ctx.fillStyle = '#1c1c1c';
+    ctx.beginPath();
+    ctx.roundRect(10 * scale, rowY - 12 * scale, 273 * scale, 24 * scale, 6 * scale);
+    ctx.fill();
+
+    ctx.textBaseline = 'middle';
+    setFont(ctx, 9, '500', scale);
+    ctx.fillStyle = row.color;
+    ctx.textAlign = 'left';
+    ctx.fillText(row.label, 18 * scale, rowY);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'right';
+    ctx.fillText(
+      `${row.score.before.toFixed(1)} → ${row.score.after.toFixed(1)}`,
+      228 * scale,
+      rowY,
+    );
+
+    setFont(ctx, 10, 'bold', scale);
+    ctx.fillStyle = changeColor(row.score.change);
+    ctx.fillText(formatChange(row.score.change), 275 * scale, rowY);
+  });
+
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Renders a before/after vibe check card and saves it to the user's uploads.
+ */
+export async function generateVibeCheckComparisonImage(
+  whatsappId: string,
+  data: Parameters<typeof renderVibeCheckComparisonCard>[0],
+): Promise<string> {
+  const png = await renderVibeCheckComparisonCard(data);
+  return saveCardImage(whatsappId, 'vibe_check_comparison', png);
 }
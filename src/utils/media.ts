@@ -5,6 +5,7 @@ import path from 'path';
 import { extension as extFromMime } from 'mime-types';
 import { createCanvas, loadImage } from 'canvas';
 
+import { twilioMediaAuthHeaders } from '../lib/twilio';
 import { BadRequestError, InternalServerError } from './errors';
 import { logger } from './logger';
 import { ensureDir, userUploadDir } from './paths';
@@ -171,7 +172,8 @@ export async function processMediaForAI(
       actualMimeType = result.mimeType;
     } else {
       // Download from remote URL
-      const response = await fetch(url);
+      // Twilio-hosted media requires the account credentials
+      const response = await fetch(url, { headers: twilioMediaAuthHeaders(url) });
       if (!response.ok) {
         throw new InternalServerError(`Failed to download media: ${response.status}`);
       }
@@ -60,3 +60,24 @@ export function userUploadDir(whatsappId: string): string {
 export function staticUploadsMount(): string {
   return uploadsDir();
 }
+
+/**
+ * Maps a URL served from `/uploads` to its file, refusing paths outside the uploads directory.
+ *
+ * @param url - Absolute or server-relative URL, e.g. "/uploads/whatsapp_+123/photo.jpg"
+ * @returns Absolute path to the file, or null if the URL is not an upload
+ */
+export function localUploadPath(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+  } catch {
+    return null;
+  }
+  if (!pathname.startsWith('/uploads/')) {
+    return null;
+  }
+  const root = staticUploadsMount();
+  const filePath = path.resolve(root, pathname.slice('/uploads/'.length));
+  return filePath.startsWith(root + path.sep) ? filePath : null;
+}
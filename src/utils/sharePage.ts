@@ -0,0 +1,79 @@
+/**
+ * HTML for public share links. Chat apps and social sites read the Open Graph tags to
+ * preview a link as its result card.
+ */
+
+import type { PublicShare } from '../services/shareService';
+
+const SITE_NAME = 'Broadway';
+
+/**
+ * Renders the page behind a share link: the card image with Open Graph and Twitter tags.
+ *
+ * @param share - Live share loaded by `ShareService.viewShare`
+ * @returns Complete HTML document
+ */
+export function renderSharePage(share: PublicShare): string {
+  const title = escapeHtml(share.title);
+  const description = escapeHtml(share.description);
+  const imageUrl = escapeHtml(share.imageUrl);
+  return page(
+    title,
+    `
+    <meta name="description" content="${description}" />
+    <meta property="og:site_name" content="${SITE_NAME}" />
+    <meta property="og:type" content="website" />
+    <meta property="og:title" content="${title}" />
+    <meta property="og:description" content="${description}" />
+    <meta property="og:url" content="${escapeHtml(share.url)}" />
+    <meta property="og:image" content="${imageUrl}" />
+    <meta property="og:image:type" content="image/png" />
+    <meta name="twitter:card" content="summary_large_image" />
+    <meta name="twitter:title" content="${title}" />
+    <meta name="twitter:description" content="${description}" />
+    <meta name="twitter:image" content="${imageUrl}" />`,
+    `<img src="${imageUrl}" alt="${title}" />
+    <p>${description}</p>`,
+  );
+}
+
+/**
+ * Page shown for unknown, expired or revoked share links.
+ */
+export function renderShareNotFoundPage(): string {
+  return page(
+    'Link unavailable',
+    '',
+    '<p>This link has expired or was removed by the person who shared it.</p>',
+  );
+}
+
+function page(title: string, head: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${title} · ${SITE_NAME}</title>${head}
+    <style>
+      body { margin: 0; padding: 24px; font-family: sans-serif; text-align: center; background: #f6f3ee; }
+      img { max-width: min(100%, 586px); height: auto; border-radius: 12px; }
+      p { max-width: 586px; margin: 16px auto; color: #333; }
+    </style>
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
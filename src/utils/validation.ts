@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+import { BadRequestError } from './errors';
+
+/**
+ * Parses a request payload, turning validation issues into a 400.
+ */
+export function parseRequest<T extends z.ZodType>(schema: T, payload: unknown): z.infer<T> {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new BadRequestError(z.prettifyError(result.error), { cause: result.error });
+  }
+  return result.data;
+}